@@ -0,0 +1,205 @@
+import type { AlertMetric, AlertRule, AlertSeverity, BorrowRecord, DashboardData, LogEntry, Session } from './types';
+import { computeFeatureConcurrency } from './analytics';
+
+// Rules are evaluated against whatever DashboardData they're given — filtered data gives filtered alerts
+
+export type HealthStatus = 'HEALTHY' | 'WARNING' | 'AT RISK';
+
+export interface TriggeredAlert {
+  rule: AlertRule;
+  subject: string | null; // the feature/user/host that tripped a scoped rule
+  value: number;
+  evidence: string;
+}
+
+export const ALERT_METRICS: { id: AlertMetric, label: string, unit?: '%' | 'h', featureOnly?: boolean }[] = [
+  { id: 'denialRate', label: 'Denial rate', unit: '%' },
+  { id: 'denials', label: 'Denials' },
+  { id: 'errors', label: 'Server errors' },
+  { id: 'systemEvents', label: 'Errors & warnings' },
+  { id: 'longSessionPct', label: 'Sessions over 8h', unit: '%' },
+  { id: 'peakUtilization', label: 'Peak seat utilization', unit: '%', featureOnly: true },
+  { id: 'seatHours', label: 'Seat hours', unit: 'h' },
+  { id: 'expiredBorrows', label: 'Expired borrows' },
+];
+
+export const SEVERITY_RANK: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+// The thresholds the dashboard always used, now as editable rules
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default-denial-rate-critical', name: 'High denial rate', enabled: true,
+    metric: 'denialRate', scope: 'all', target: '', comparator: '>', threshold: 10, windowDays: null, severity: 'critical',
+    recommendation: 'Your denial rate is {value} — consider adding seats for your most-denied features to reduce engineer downtime.',
+  },
+  {
+    id: 'default-server-errors', name: 'Server errors', enabled: true,
+    metric: 'errors', scope: 'all', target: '', comparator: '>', threshold: 5, windowDays: null, severity: 'critical',
+  },
+  {
+    id: 'default-denial-rate-warning', name: 'Elevated denial rate', enabled: true,
+    metric: 'denialRate', scope: 'all', target: '', comparator: '>', threshold: 5, windowDays: null, severity: 'warning',
+    recommendation: 'Denial rate of {value} detected. Review seat counts for frequently denied features and consider implementing timeout policies for idle sessions.',
+  },
+  {
+    id: 'default-license-scarcity', name: 'License scarcity', enabled: true,
+    metric: 'denials', scope: 'all', target: '', comparator: '>', threshold: 20, windowDays: null, severity: 'warning',
+  },
+  {
+    id: 'default-system-events', name: 'System events', enabled: true,
+    metric: 'systemEvents', scope: 'all', target: '', comparator: '>', threshold: 5, windowDays: null, severity: 'info',
+  },
+  {
+    id: 'default-long-sessions', name: 'Long sessions', enabled: true,
+    metric: 'longSessionPct', scope: 'all', target: '', comparator: '>', threshold: 20, windowDays: null, severity: 'info',
+    recommendation: '{value} of sessions exceed 8 hours. Consider implementing idle timeout rules to free licenses for other users.',
+  },
+];
+
+const LONG_SESSION_MIN = 480;
+const DAY_MS = 86400000;
+
+interface Slice {
+  sessions: Session[];
+  denials: LogEntry[];
+  errors: LogEntry[];
+  borrows: BorrowRecord[];
+}
+
+const entryTime = (e: LogEntry) => new Date(`${e.date} ${e.time}`).getTime();
+
+const lastActivity = (data: DashboardData) => {
+  let end = -Infinity;
+  data.sessions.forEach(s => { end = Math.max(end, (s.end || s.start).getTime() || -Infinity); });
+  [...data.denials, ...data.errors].forEach(e => { end = Math.max(end, entryTime(e) || -Infinity); });
+  return end;
+};
+
+const windowSlice = (data: DashboardData, windowDays: number | null, logEnd: number): Slice => {
+  if (!windowDays || !isFinite(logEnd)) return data;
+  const from = logEnd - windowDays * DAY_MS;
+  return {
+    sessions: data.sessions.filter(s => s.start.getTime() >= from),
+    denials: data.denials.filter(e => entryTime(e) >= from),
+    errors: data.errors.filter(e => entryTime(e) >= from),
+    borrows: data.borrows.filter(b => b.start.getTime() >= from),
+  };
+};
+
+const scopeSlice = (slice: Slice, scope: 'feature' | 'user' | 'host', subject: string): Slice => ({
+  sessions: slice.sessions.filter(s => s[scope] === subject),
+  denials: slice.denials.filter(e => e[scope] === subject),
+  errors: slice.errors.filter(e => e[scope] === subject),
+  borrows: slice.borrows.filter(b => b[scope] === subject),
+});
+
+const subjectsOf = (slice: Slice, scope: 'feature' | 'user' | 'host') =>
+  Array.from(new Set([...slice.sessions.map(s => s[scope]), ...slice.denials.map(e => e[scope])].filter((v): v is string => !!v))).sort();
+
+// null when the metric doesn't apply (e.g. utilization without a seat count)
+const measure = (metric: AlertMetric, slice: Slice, subject: string | null, licenseSeats: Record<string, number>): number | null => {
+  const attempts = slice.sessions.length + slice.denials.length;
+  switch (metric) {
+    case 'denialRate': return attempts > 0 ? (slice.denials.length / attempts) * 100 : 0;
+    case 'denials': return slice.denials.length;
+    case 'errors': return slice.errors.filter(e => e.type === 'ERROR').length;
+    case 'systemEvents': return slice.errors.length;
+    case 'longSessionPct': return slice.sessions.length > 0 ? (slice.sessions.filter(s => (s.duration || 0) > LONG_SESSION_MIN).length / slice.sessions.length) * 100 : 0;
+    case 'peakUtilization': {
+      const seats = subject ? licenseSeats[subject] : 0;
+      if (!seats) return null;
+      return ((computeFeatureConcurrency(slice.sessions)[subject!]?.peak || 0) / seats) * 100;
+    }
+    case 'seatHours': return slice.sessions.reduce((sum, s) => sum + (s.duration || 0), 0) / 60;
+    case 'expiredBorrows': return slice.borrows.filter(b => b.status === 'expired').length;
+  }
+};
+
+const mostCommon = (values: (string | undefined)[]) => {
+  const counts: Record<string, number> = {};
+  values.forEach(v => { if (v) counts[v] = (counts[v] || 0) + 1; });
+  return Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+};
+
+// A sentence that stands on its own, measured value included
+const evidenceFor = (rule: AlertRule, slice: Slice, subject: string | null, value: number, licenseSeats: Record<string, number>) => {
+  const shown = formatMetricValue(rule.metric, value);
+  switch (rule.metric) {
+    case 'denialRate':
+      return `${shown} of checkout attempts denied (${slice.denials.length} of ${slice.sessions.length + slice.denials.length})`;
+    case 'denials': {
+      const top = rule.scope !== 'feature' && mostCommon(slice.denials.map(e => e.feature));
+      return `${shown} denials${top ? `, most for "${top[0]}" (${top[1]}); consider additional seats` : ''}`;
+    }
+    case 'errors':
+    case 'systemEvents': {
+      const list = rule.metric === 'errors' ? slice.errors.filter(e => e.type === 'ERROR') : slice.errors;
+      const latest = list[list.length - 1];
+      return `${shown} ${rule.metric === 'errors' ? 'error lines' : 'errors/warnings'}${latest?.raw ? `; latest: ${latest.raw.trim().slice(0, 80)}` : ''}`;
+    }
+    case 'longSessionPct':
+      return `${shown} of sessions ran longer than 8 hours (${slice.sessions.filter(s => (s.duration || 0) > LONG_SESSION_MIN).length} of ${slice.sessions.length})`;
+    case 'peakUtilization':
+      return `Peak of ${computeFeatureConcurrency(slice.sessions)[subject!]?.peak || 0} of ${licenseSeats[subject!]} seats in use (${shown})`;
+    case 'seatHours':
+      return `${shown} of license time over ${slice.sessions.length} sessions by ${new Set(slice.sessions.map(s => s.user)).size} users`;
+    case 'expiredBorrows': {
+      const users = Array.from(new Set(slice.borrows.filter(b => b.status === 'expired').map(b => b.user)));
+      return `${shown} borrowed seats past their return date, held by ${users.slice(0, 5).join(', ')}${users.length > 5 ? ` and ${users.length - 5} more` : ''}`;
+    }
+  }
+};
+
+const crosses = (value: number, rule: AlertRule) =>
+  rule.comparator === '>' ? value > rule.threshold
+    : rule.comparator === '>=' ? value >= rule.threshold
+    : rule.comparator === '<' ? value < rule.threshold
+    : value <= rule.threshold;
+
+// Every enabled rule that fires, most severe first
+export const evaluateAlerts = (data: DashboardData, rules: AlertRule[], licenseSeats: Record<string, number> = {}): TriggeredAlert[] => {
+  const logEnd = lastActivity(data);
+  const triggered: TriggeredAlert[] = [];
+  rules.filter(r => r.enabled).forEach(rule => {
+    const windowed = windowSlice(data, rule.windowDays, logEnd);
+    // Utilization is per feature by nature; a whole-log rule checks every feature with a seat count
+    const scope = rule.metric === 'peakUtilization' ? 'feature' : rule.scope;
+    const subjects = scope === 'all' ? [null] : rule.target ? [rule.target] : subjectsOf(windowed, scope);
+    subjects.forEach(subject => {
+      const slice = subject === null || scope === 'all' ? windowed : scopeSlice(windowed, scope, subject);
+      const value = measure(rule.metric, slice, subject, licenseSeats);
+      if (value === null || !crosses(value, rule)) return;
+      triggered.push({ rule, subject, value, evidence: evidenceFor(rule, slice, subject, value, licenseSeats) });
+    });
+  });
+  return triggered.sort((a, b) => SEVERITY_RANK[a.rule.severity] - SEVERITY_RANK[b.rule.severity] || b.value - a.value);
+};
+
+export const healthFromAlerts = (alerts: TriggeredAlert[]): HealthStatus =>
+  alerts.some(a => a.rule.severity === 'critical') ? 'AT RISK' : alerts.some(a => a.rule.severity === 'warning') ? 'WARNING' : 'HEALTHY';
+
+// One alert per metric and subject — a 12% denial rate shouldn't also be listed as "elevated"
+export const strongestAlerts = (alerts: TriggeredAlert[]) => {
+  const seen = new Set<string>();
+  return alerts.filter(a => {
+    const key = `${a.rule.metric}|${a.rule.windowDays}|${a.subject}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const formatMetricValue = (metric: AlertMetric, value: number) => {
+  const unit = ALERT_METRICS.find(m => m.id === metric)?.unit;
+  return unit === '%' ? `${value.toFixed(1)}%` : unit === 'h' ? `${value.toFixed(1)}h` : Math.round(value).toLocaleString();
+};
+
+export const describeWindow = (rule: AlertRule) => rule.windowDays ? `last ${rule.windowDays} day${rule.windowDays === 1 ? '' : 's'}` : 'whole log';
+
+export const alertRecommendation = (alert: TriggeredAlert) =>
+  alert.rule.recommendation?.replace(/\{value\}/g, formatMetricValue(alert.rule.metric, alert.value));
+
+export const newAlertRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`, name: 'New rule', enabled: true,
+  metric: 'denials', scope: 'feature', target: '', comparator: '>', threshold: 10, windowDays: 30, severity: 'warning',
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeFeatureConcurrency } from './analytics';
+import type { Session } from './types';
+
+const session = (user: string, start: string, end: string): Session => {
+  const s = new Date(`2/19/2026 ${start}`), e = new Date(`2/19/2026 ${end}`);
+  return { user, host: 'WS1', feature: 'solidworks', start: s, end: e, duration: (e.getTime() - s.getTime()) / 60000 };
+};
+
+test('a check-in and a later check-out in the same minute are not counted as overlapping', () => {
+  const { solidworks } = computeFeatureConcurrency([session('a', '09:00:00', '10:05:10'), session('b', '10:05:30', '11:00:00')]);
+  assert.equal(solidworks.peak, 1);
+  assert.ok(solidworks.series.every(p => p.count <= 1));
+  assert.equal(solidworks.p95, 1);
+});
+
+test('overlapping sessions count at their exact times', () => {
+  const { solidworks } = computeFeatureConcurrency([
+    session('a', '09:00:00', '12:00:00'),
+    session('b', '10:00:00', '10:30:00'),
+    session('c', '10:29:59', '11:00:00'),
+  ]);
+  assert.equal(solidworks.peak, 3);
+  assert.equal(solidworks.p50, 1);
+  assert.equal(Math.max(...solidworks.series.map(p => p.count)), 3);
+  assert.equal(solidworks.series[solidworks.series.length - 1].count, 0);
+});
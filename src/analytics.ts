@@ -0,0 +1,263 @@
+import type { DenialEpisode, FeatureConcurrency, LogEntry, Session } from './types';
+
+const MINUTE_MS = 60000;
+
+// Peak and percentiles come from the exact check-out/check-in times (a check-out on the same
+// instant as a check-in counts first, as in compare.ts); minute buckets are only for the chart,
+// each holding the highest level reached within that minute
+export const computeFeatureConcurrency = (sessions: Session[]): Record<string, FeatureConcurrency> => {
+  const eventsByFeature: Record<string, { t: number, delta: number }[]> = {};
+  sessions.forEach(s => {
+    if (!s.end || isNaN(s.start.getTime()) || isNaN(s.end.getTime())) return;
+    const events = eventsByFeature[s.feature] || (eventsByFeature[s.feature] = []);
+    events.push({ t: s.start.getTime(), delta: 1 }, { t: s.end.getTime(), delta: -1 });
+  });
+
+  const result: Record<string, FeatureConcurrency> = {};
+  Object.entries(eventsByFeature).forEach(([feature, events]) => {
+    events.sort((a, b) => a.t - b.t || b.delta - a.delta);
+    const series: { t: number, count: number }[] = [];
+    const push = (t: number, count: number) => {
+      const last = series[series.length - 1];
+      if (last && last.t === t) last.count = count;
+      else if (!last || last.count !== count) series.push({ t, count });
+    };
+    // Time-weighted percentiles: how long each level was held
+    const held: Record<number, number> = {};
+    let count = 0, peak = 0;
+    let minute: number | null = null, minuteHigh = 0;
+    const closeMinute = () => {
+      push(minute!, minuteHigh);
+      if (count !== minuteHigh) push(minute! + MINUTE_MS, count);
+    };
+    events.forEach((e, i) => {
+      if (i > 0) held[count] = (held[count] || 0) + e.t - events[i - 1].t;
+      const m = Math.floor(e.t / MINUTE_MS) * MINUTE_MS;
+      if (m !== minute) {
+        if (minute !== null) closeMinute();
+        minute = m;
+        minuteHigh = count;
+      }
+      count += e.delta;
+      minuteHigh = Math.max(minuteHigh, count);
+      peak = Math.max(peak, count);
+    });
+    if (minute !== null) closeMinute();
+
+    const levels = Object.keys(held).map(Number).sort((a, b) => a - b);
+    const total = levels.reduce((sum, l) => sum + held[l], 0);
+    const percentile = (p: number) => {
+      let acc = 0;
+      for (const l of levels) { acc += held[l]; if (acc >= total * p) return l; }
+      return levels[levels.length - 1] || 0;
+    };
+    result[feature] = { series, peak, p50: percentile(0.5), p90: percentile(0.9), p95: percentile(0.95) };
+  });
+  return result;
+};
+
+// Per-feature peaks on each server vs the peak if every server drew from one shared pool.
+// The difference is how many seats consolidating the pools would free up.
+export const computeServerPooling = (sessions: Session[]) => {
+  const servers = Array.from(new Set(sessions.map(s => s.server || 'Unknown'))).sort();
+  const pooled = computeFeatureConcurrency(sessions);
+  const perServer = Object.fromEntries(servers.map(server => [server, computeFeatureConcurrency(sessions.filter(s => (s.server || 'Unknown') === server))]));
+  const features = Object.keys(pooled).sort().map(feature => {
+    const peaks = Object.fromEntries(servers.map(server => [server, perServer[server][feature]?.peak || 0]));
+    const sumOfPeaks = Object.values(peaks).reduce((a, b) => a + b, 0);
+    return { feature, peaks, sumOfPeaks, pooledPeak: pooled[feature].peak, saving: sumOfPeaks - pooled[feature].peak };
+  });
+  return { servers, features };
+};
+
+// Stretches where a feature sat at or above its seat count
+export const saturationEpisodes = (series: FeatureConcurrency['series'], seats: number) => {
+  const episodes: { start: number, end: number, peak: number }[] = [];
+  if (seats <= 0) return episodes;
+  let open: { start: number, end: number, peak: number } | null = null;
+  series.forEach(p => {
+    if (p.count >= seats) {
+      if (!open) open = { start: p.t, end: p.t + MINUTE_MS, peak: p.count };
+      open.peak = Math.max(open.peak, p.count);
+    } else if (open) {
+      open.end = p.t;
+      episodes.push(open);
+      open = null;
+    }
+  });
+  if (open) episodes.push(open);
+  return episodes;
+};
+
+export const DEFAULT_EPISODE_GAP_MIN = 30;
+
+// Retries within `gapMinutes` of the previous denial belong to the same episode. A checkout
+// of the same feature within the gap grants it; otherwise the user gave up.
+export const computeDenialEpisodes = (denials: LogEntry[], sessions: Session[], gapMinutes = DEFAULT_EPISODE_GAP_MIN): DenialEpisode[] => {
+  const gapMs = gapMinutes * MINUTE_MS;
+  const timelines: Record<string, { t: number, denial?: LogEntry, session?: Session }[]> = {};
+  denials.forEach(e => {
+    const t = new Date(`${e.date} ${e.time}`).getTime();
+    if (!e.user || !e.feature || isNaN(t)) return;
+    (timelines[`${e.user}:${e.feature}`] ||= []).push({ t, denial: e });
+  });
+  sessions.forEach(s => {
+    const key = `${s.user}:${s.feature}`;
+    if (timelines[key] && !isNaN(s.start.getTime())) timelines[key].push({ t: s.start.getTime(), session: s });
+  });
+
+  const episodes: DenialEpisode[] = [];
+  Object.values(timelines).forEach(events => {
+    // At the same instant the denial comes first: the checkout is the retry that worked
+    events.sort((a, b) => a.t - b.t || (a.denial ? -1 : 1));
+    let open: DenialEpisode | null = null;
+    const close = () => {
+      if (!open) return;
+      open.waitMinutes = (open.lastDenial.getTime() - open.start.getTime()) / MINUTE_MS;
+      episodes.push(open);
+      open = null;
+    };
+    events.forEach(({ t, denial, session }) => {
+      if (open && t - open.lastDenial.getTime() > gapMs) close();
+      if (denial) {
+        if (open) {
+          open.attempts++;
+          open.lastDenial = new Date(t);
+        } else {
+          open = { user: denial.user!, feature: denial.feature!, host: denial.host, server: denial.server, start: new Date(t), lastDenial: new Date(t), attempts: 1, outcome: 'abandoned', waitMinutes: 0 };
+        }
+      } else if (open && session) {
+        episodes.push({ ...open, outcome: 'granted', grantedAt: session.start, waitMinutes: (t - open.start.getTime()) / MINUTE_MS });
+        open = null;
+      }
+    });
+    close();
+  });
+  return episodes.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+export const summarizeDenialEpisodes = (episodes: DenialEpisode[]) => {
+  const granted = episodes.filter(e => e.outcome === 'granted');
+  const waits = granted.map(e => e.waitMinutes).sort((a, b) => a - b);
+  const attempts = episodes.reduce((sum, e) => sum + e.attempts, 0);
+  return {
+    episodes: episodes.length,
+    retries: attempts - episodes.length,
+    granted: granted.length,
+    abandoned: episodes.length - granted.length,
+    waitMinutes: episodes.reduce((sum, e) => sum + e.waitMinutes, 0),
+    medianWaitMinutes: waits.length > 0 ? waits[Math.floor(waits.length / 2)] : 0,
+  };
+};
+
+// Reusable analytics computation — used by both initial parse and filtered views
+export const computeAnalytics = (sessions: Session[], denials: LogEntry[]) => {
+  const userStats: Record<string, { sessions: number, totalDuration: number, denials: number }> = {};
+  const featureStats: Record<string, { checkouts: number, denials: number, totalDuration: number }> = {};
+  const timeSeries: Record<string, number> = {};
+  const denialsByDayMap: Record<string, number> = {};
+
+  sessions.forEach(s => {
+    if (!userStats[s.user]) userStats[s.user] = { sessions: 0, totalDuration: 0, denials: 0 };
+    userStats[s.user].sessions++;
+    userStats[s.user].totalDuration += s.duration || 0;
+
+    if (!featureStats[s.feature]) featureStats[s.feature] = { checkouts: 0, denials: 0, totalDuration: 0 };
+    featureStats[s.feature].checkouts++;
+    featureStats[s.feature].totalDuration += s.duration || 0;
+
+    const timeKey = s.start.toISOString().split('T')[0];
+    timeSeries[timeKey] = (timeSeries[timeKey] || 0) + 1;
+  });
+
+  denials.forEach(d => {
+    if (d.user && !userStats[d.user]) userStats[d.user] = { sessions: 0, totalDuration: 0, denials: 0 };
+    if (d.user) userStats[d.user].denials++;
+    if (d.feature && !featureStats[d.feature]) featureStats[d.feature] = { checkouts: 0, denials: 0, totalDuration: 0 };
+    if (d.feature) featureStats[d.feature].denials++;
+    const dateKey = d.date || 'Unknown';
+    denialsByDayMap[dateKey] = (denialsByDayMap[dateKey] || 0) + 1;
+  });
+
+  // Peak Hours
+  const hourCounts: Record<number, number> = {};
+  sessions.forEach(s => { const h = s.start.getHours(); hourCounts[h] = (hourCounts[h] || 0) + 1; });
+  const peakHours = Array.from({ length: 24 }, (_, i) => ({ hour: i, count: hourCounts[i] || 0 }));
+
+  // Concurrent Usage
+  const concurrentMap: Record<string, number> = {};
+  const validSessions = sessions.filter(s => s.end && !isNaN(s.start.getTime()) && !isNaN(s.end.getTime()));
+  if (validSessions.length > 0) {
+    const events: { time: number, delta: number }[] = [];
+    validSessions.forEach(s => {
+      events.push({ time: s.start.getTime(), delta: 1 });
+      events.push({ time: s.end!.getTime(), delta: -1 });
+    });
+    events.sort((a, b) => a.time - b.time);
+    let concurrent = 0;
+    events.forEach(e => {
+      concurrent += e.delta;
+      const day = new Date(e.time).toISOString().split('T')[0];
+      concurrentMap[day] = Math.max(concurrentMap[day] || 0, concurrent);
+    });
+  }
+  const concurrentUsage = Object.entries(concurrentMap).map(([time, concurrent]) => ({ time, concurrent })).sort((a, b) => a.time.localeCompare(b.time));
+
+  // Duration Distribution
+  const durationBuckets: Record<string, number> = { '<15m': 0, '15m-1h': 0, '1-2h': 0, '2-4h': 0, '4-8h': 0, '8h+': 0 };
+  sessions.forEach(s => {
+    const d = s.duration || 0;
+    if (d < 15) durationBuckets['<15m']++;
+    else if (d < 60) durationBuckets['15m-1h']++;
+    else if (d < 120) durationBuckets['1-2h']++;
+    else if (d < 240) durationBuckets['2-4h']++;
+    else if (d < 480) durationBuckets['4-8h']++;
+    else durationBuckets['8h+']++;
+  });
+  const durationDistribution = Object.entries(durationBuckets).map(([bucket, count]) => ({ bucket, count }));
+
+  // Host Stats
+  const hostStats: Record<string, { sessions: number, totalDuration: number, users: Set<string> }> = {};
+  sessions.forEach(s => {
+    if (!hostStats[s.host]) hostStats[s.host] = { sessions: 0, totalDuration: 0, users: new Set() };
+    hostStats[s.host].sessions++;
+    hostStats[s.host].totalDuration += s.duration || 0;
+    hostStats[s.host].users.add(s.user);
+  });
+
+  // Feature Co-usage
+  const userFeatures: Record<string, Set<string>> = {};
+  sessions.forEach(s => {
+    if (!userFeatures[s.user]) userFeatures[s.user] = new Set();
+    userFeatures[s.user].add(s.feature);
+  });
+  const pairCounts: Record<string, number> = {};
+  Object.values(userFeatures).forEach(features => {
+    const arr = Array.from(features).sort();
+    for (let i = 0; i < arr.length; i++)
+      for (let j = i + 1; j < arr.length; j++)
+        pairCounts[`${arr[i]} + ${arr[j]}`] = (pairCounts[`${arr[i]} + ${arr[j]}`] || 0) + 1;
+  });
+  const featureCoUsage = Object.entries(pairCounts).map(([pair, count]) => ({ pair, count })).sort((a, b) => b.count - a.count).slice(0, 10);
+
+  // Denial Ratio
+  const denialRatioByFeature = Object.entries(featureStats)
+    .filter(([_, s]) => s.checkouts > 0 || s.denials > 0)
+    .map(([name, s]) => ({ name, checkouts: s.checkouts, denials: s.denials, ratio: (s.checkouts + s.denials) > 0 ? Math.round((s.denials / (s.checkouts + s.denials)) * 100) : 0 }))
+    .sort((a, b) => b.ratio - a.ratio);
+
+  return {
+    usageByFeature: featureStats,
+    userStats,
+    featureStats,
+    timeSeriesUsage: Object.entries(timeSeries).map(([time, count]) => ({ time, count })).sort((a, b) => a.time.localeCompare(b.time)),
+    denialsByDay: Object.entries(denialsByDayMap).map(([time, count]) => ({ time, count })).sort((a, b) => a.time.localeCompare(b.time)),
+    peakHours,
+    concurrentUsage,
+    durationDistribution,
+    hostStats,
+    featureCoUsage,
+    denialRatioByFeature,
+    featureConcurrency: computeFeatureConcurrency(sessions),
+  };
+};
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { exportBundle, importBundle } from './bundle';
+import { EMPTY_FILTERS } from './filters';
+import { parseLogFile } from './parser';
+import type { WorkspaceConfig } from './types';
+
+const data = parseLogFile(readFileSync(new URL('../fixtures/lmgrd.sample.log', import.meta.url), 'utf8'));
+const licenseFile = { fileName: 'sw_d.lic', text: 'SERVER SNLSERVER01 ANY\nFEATURE solidworks SW_D 2026 permanent 3 SIGN="0123"', importedAt: '2026-03-02T12:00:00.000Z' };
+const config: WorkspaceConfig = {
+  licenseSeats: { solidworks: 3 }, licenseCosts: { solidworks: 4000 }, fiscalStartMonth: 0,
+  optTimeoutEnabled: false, optTimeout: 3600, optFeatureTimeouts: [], optGroups: [], optRules: [],
+  customUsers: [], licenseFile,
+};
+const blank = <T extends { raw: string }>(items: T[]) => items.map(item => ({ ...item, raw: '' }));
+
+test('restores Dates and Sets exactly after export and import', () => {
+  const bundle = importBundle(exportBundle({ name: 'Plant 1', data, config, filters: EMPTY_FILTERS }));
+  assert.deepEqual(bundle.data, {
+    ...data,
+    entries: blank(data.entries), denials: blank(data.denials), errors: blank(data.errors), borrows: blank(data.borrows),
+  });
+  assert.ok(bundle.data.sessions[0].start instanceof Date);
+  assert.ok(Object.values(bundle.data.hostStats).every(h => h.users instanceof Set));
+  assert.equal(bundle.name, 'Plant 1');
+  assert.deepEqual(bundle.filters, EMPTY_FILTERS);
+});
+
+test('leaves out log lines and imported files unless asked for', () => {
+  const text = exportBundle({ name: 'Plant 1', data, config, filters: EMPTY_FILTERS });
+  assert.ok(!text.includes(data.entries[0].raw.trim()));
+  assert.ok(!text.includes('SIGN='));
+  assert.equal(importBundle(text).config.licenseFile, undefined);
+  assert.deepEqual(importBundle(exportBundle({ name: 'Plant 1', data, config, filters: EMPTY_FILTERS }, { includeImports: true })).config.licenseFile, licenseFile);
+});
+
+test('rejects files that are not bundles', () => {
+  assert.throws(() => importBundle('not json'), /not valid JSON/);
+  assert.throws(() => importBundle('{"format":"other"}'), /not an SNL workspace bundle/);
+  assert.throws(() => importBundle('{"format":"snl-workspace-bundle","version":99}'), /newer version/);
+});
@@ -0,0 +1,85 @@
+import type { DashboardData, WorkspaceConfig } from './types';
+import { EMPTY_FILTERS } from './filters';
+import type { DashboardFilters } from './filters';
+
+// A finished analysis in one file: parsed data plus everything typed in around it,
+// so a colleague can open it without the original log files
+export const BUNDLE_FORMAT = 'snl-workspace-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface WorkspaceBundle {
+  name: string;
+  exportedAt: string;
+  data: DashboardData;
+  config: WorkspaceConfig;
+  filters: DashboardFilters;
+}
+
+// JSON has no Date or Set; tag them so they come back as the real thing
+const replacer = function (this: Record<string, unknown>, key: string, value: unknown) {
+  const original = this[key];
+  if (original instanceof Date) return { $date: isNaN(original.getTime()) ? null : original.toISOString() };
+  if (original instanceof Set) return { $set: Array.from(original) };
+  return value;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const reviver = (_key: string, value: unknown) => {
+  if (isObject(value)) {
+    if ('$date' in value) return new Date(typeof value.$date === 'string' ? value.$date : NaN);
+    if (Array.isArray(value.$set)) return new Set(value.$set);
+  }
+  return value;
+};
+
+// The point of a bundle is sharing an analysis without the log: line text goes, and so do
+// the imported options, lmstat and license files (SIGN keys and all) unless asked for
+const withoutRaw = <T extends { raw: string }>(items: T[]) => items.map(item => ({ ...item, raw: '' }));
+
+export const exportBundle = (bundle: Omit<WorkspaceBundle, 'exportedAt'>, { includeImports = false } = {}): string => {
+  const { data, config } = bundle;
+  const { optBaseline, lmstat, licenseFile, ...settings } = config;
+  return JSON.stringify({
+    format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), ...bundle,
+    data: { ...data, entries: withoutRaw(data.entries), denials: withoutRaw(data.denials), errors: withoutRaw(data.errors), borrows: withoutRaw(data.borrows) },
+    config: includeImports ? config : settings,
+  }, replacer);
+};
+
+export const bundleFileName = (name: string) => `${name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'workspace'}.snl.json`;
+
+// Throws with a message fit for the user when the file isn't a bundle we can read
+export const importBundle = (text: string): WorkspaceBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text, reviver);
+  } catch {
+    throw new Error('This file is not valid JSON, so it cannot be a workspace bundle.');
+  }
+  if (!isObject(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new Error('This file is not an SNL workspace bundle.');
+  }
+  const { version, data, config, filters, name, exportedAt } = raw;
+  if (typeof version !== 'number' || version < 1) {
+    throw new Error('This bundle has no valid schema version.');
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`This bundle was exported by a newer version of the app (schema v${version}; this app reads up to v${BUNDLE_VERSION}). Update the app to open it.`);
+  }
+  if (!isObject(data) || !isObject(data.metadata) || !Array.isArray(data.sessions) || !Array.isArray(data.entries) || !isObject(data.parseHealth)) {
+    throw new Error('This bundle is missing its parsed log data.');
+  }
+  if (!isObject(config) || !isObject(config.licenseSeats)) {
+    throw new Error('This bundle is missing its workspace configuration.');
+  }
+  const savedFilters = isObject(filters) ? filters : {};
+  return {
+    name: typeof name === 'string' ? name : String(data.metadata.serverName),
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+    data: data as unknown as DashboardData,
+    config: config as unknown as WorkspaceConfig,
+    filters: { ...EMPTY_FILTERS, ...savedFilters, modes: { ...EMPTY_FILTERS.modes, ...(isObject(savedFilters.modes) ? savedFilters.modes : {}) } },
+  };
+};
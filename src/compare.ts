@@ -0,0 +1,128 @@
+import type { DashboardData } from './types';
+
+// Period-over-period: A is the baseline ("before"), B the period being judged ("after")
+
+export interface MetricDelta {
+  a: number;
+  b: number;
+  delta: number;
+  pct: number | null; // null when the baseline is zero
+}
+
+// Which direction is an improvement — drives the green/red arrows
+export type DeltaPolarity = 'lower-better' | 'higher-better' | 'neutral';
+
+export interface DatasetSummary {
+  sessions: number;
+  denials: number;
+  denialRate: number;   // % of checkout attempts denied
+  peakConcurrency: number;
+  avgDuration: number;  // minutes
+  users: number;
+  totalHours: number;
+}
+
+export interface FeatureComparison {
+  feature: string;
+  checkouts: MetricDelta;
+  denials: MetricDelta;
+  denialRate: MetricDelta;
+  peak: MetricDelta;
+  hours: MetricDelta;
+}
+
+export interface UserComparison {
+  user: string;
+  sessions: MetricDelta;
+  hours: MetricDelta;
+  denials: MetricDelta;
+}
+
+export interface Comparison {
+  summary: Record<keyof DatasetSummary, MetricDelta>;
+  features: FeatureComparison[];
+  users: UserComparison[];
+}
+
+export const SUMMARY_METRICS: { key: keyof DatasetSummary, label: string, polarity: DeltaPolarity, unit?: '%' | 'min' | 'h' }[] = [
+  { key: 'sessions', label: 'Sessions', polarity: 'neutral' },
+  { key: 'denials', label: 'Denials', polarity: 'lower-better' },
+  { key: 'denialRate', label: 'Denial Rate', polarity: 'lower-better', unit: '%' },
+  { key: 'peakConcurrency', label: 'Peak Concurrency', polarity: 'neutral' },
+  { key: 'avgDuration', label: 'Avg Duration', polarity: 'neutral', unit: 'min' },
+  { key: 'users', label: 'Active Users', polarity: 'neutral' },
+  { key: 'totalHours', label: 'Seat Hours', polarity: 'neutral', unit: 'h' },
+];
+
+const delta = (a: number, b: number): MetricDelta => ({ a, b, delta: b - a, pct: a !== 0 ? ((b - a) / a) * 100 : null });
+
+const rate = (denials: number, checkouts: number) => (checkouts + denials) > 0 ? (denials / (checkouts + denials)) * 100 : 0;
+
+// Overall peak: the largest sum of per-feature concurrency at any one instant
+const peakConcurrency = (data: DashboardData) => {
+  const events: { t: number, delta: number }[] = [];
+  data.sessions.forEach(s => {
+    if (!s.end || isNaN(s.start.getTime()) || isNaN(s.end.getTime())) return;
+    events.push({ t: s.start.getTime(), delta: 1 }, { t: s.end.getTime(), delta: -1 });
+  });
+  events.sort((x, y) => x.t - y.t || y.delta - x.delta);
+  let current = 0, peak = 0;
+  events.forEach(e => { current += e.delta; peak = Math.max(peak, current); });
+  return peak;
+};
+
+export const summarizeDataset = (data: DashboardData): DatasetSummary => {
+  const sessions = data.sessions.length;
+  const totalMinutes = data.sessions.reduce((sum, s) => sum + (s.duration || 0), 0);
+  return {
+    sessions,
+    denials: data.denials.length,
+    denialRate: rate(data.denials.length, sessions),
+    peakConcurrency: peakConcurrency(data),
+    avgDuration: sessions > 0 ? totalMinutes / sessions : 0,
+    users: Object.keys(data.userStats).length,
+    totalHours: totalMinutes / 60,
+  };
+};
+
+export const compareDatasets = (a: DashboardData, b: DashboardData): Comparison => {
+  const sa = summarizeDataset(a);
+  const sb = summarizeDataset(b);
+  const summary = Object.fromEntries(SUMMARY_METRICS.map(({ key }) => [key, delta(sa[key], sb[key])])) as Comparison['summary'];
+
+  const featureNames = Array.from(new Set([...Object.keys(a.featureStats), ...Object.keys(b.featureStats)])).sort();
+  const features = featureNames.map(feature => {
+    const fa = a.featureStats[feature] || { checkouts: 0, denials: 0, totalDuration: 0 };
+    const fb = b.featureStats[feature] || { checkouts: 0, denials: 0, totalDuration: 0 };
+    return {
+      feature,
+      checkouts: delta(fa.checkouts, fb.checkouts),
+      denials: delta(fa.denials, fb.denials),
+      denialRate: delta(rate(fa.denials, fa.checkouts), rate(fb.denials, fb.checkouts)),
+      peak: delta(a.featureConcurrency[feature]?.peak || 0, b.featureConcurrency[feature]?.peak || 0),
+      hours: delta(fa.totalDuration / 60, fb.totalDuration / 60),
+    };
+  });
+
+  const userNames = Array.from(new Set([...Object.keys(a.userStats), ...Object.keys(b.userStats)]));
+  const users = userNames.map(user => {
+    const ua = a.userStats[user] || { sessions: 0, totalDuration: 0, denials: 0 };
+    const ub = b.userStats[user] || { sessions: 0, totalDuration: 0, denials: 0 };
+    return {
+      user,
+      sessions: delta(ua.sessions, ub.sessions),
+      hours: delta(ua.totalDuration / 60, ub.totalDuration / 60),
+      denials: delta(ua.denials, ub.denials),
+    };
+  }).sort((x, y) => Math.abs(y.sessions.delta) - Math.abs(x.sessions.delta) || x.user.localeCompare(y.user));
+
+  return { summary, features, users };
+};
+
+// "+3 (+12%)", "-2 (-40%)", "+1 (new)", "±0" — Latin-1 only so jsPDF's built-in fonts can draw it
+export const formatDelta = (d: MetricDelta, digits = 0) => {
+  if (d.delta === 0) return '±0';
+  const sign = d.delta > 0 ? '+' : '-';
+  const abs = Math.abs(d.delta).toFixed(digits);
+  return d.pct === null ? `${sign}${abs} (new)` : `${sign}${abs} (${sign}${Math.abs(d.pct).toFixed(0)}%)`;
+};
@@ -0,0 +1,79 @@
+import type { DashboardData } from './types';
+import type { DashboardFilters } from './filters';
+import type { TriggeredAlert } from './alerts';
+import { healthFromAlerts, strongestAlerts } from './alerts';
+import { denialCategoryLabel, denialCategoryOf, formatFlexError, parseFlexError } from './flexErrors';
+
+// The Reports tab's CSV tables and the CLI's JSON summary, built from the (filtered) data
+// so the browser download and the scheduled export are the same file.
+
+export interface CsvTable {
+  id: 'sessions' | 'users' | 'features' | 'denials';
+  label: string;
+  fileName: string;
+  build: (d: DashboardData) => string;
+}
+
+export const CSV_TABLES: CsvTable[] = [
+  {
+    id: 'sessions', label: 'Session Table', fileName: 'sessions.csv',
+    build: d => [['User','Host','Feature','Start','End','Duration (min)'].join(','),
+      ...d.sessions.map(s => [s.user, s.host, s.feature, s.start.toISOString(), s.end?.toISOString() || '', Math.round(s.duration || 0)].join(','))].join('\n'),
+  },
+  {
+    id: 'users', label: 'User Statistics', fileName: 'user-statistics.csv',
+    build: d => [['User','Sessions','Total Hours','Avg Session (min)','Denials'].join(','),
+      ...Object.entries(d.userStats).map(([u, s]) => [u, s.sessions, (s.totalDuration / 60).toFixed(1), s.sessions > 0 ? Math.round(s.totalDuration / s.sessions) : 0, s.denials].join(','))].join('\n'),
+  },
+  {
+    id: 'features', label: 'Feature Stats', fileName: 'feature-statistics.csv',
+    build: d => [['Feature','Checkouts','Denials','Denial Rate %','Total Hours'].join(','),
+      ...Object.entries(d.featureStats).map(([f, s]) => [f, s.checkouts, s.denials, s.checkouts > 0 ? ((s.denials / (s.checkouts + s.denials)) * 100).toFixed(1) : '0', (s.totalDuration / 60).toFixed(1)].join(','))].join('\n'),
+  },
+  {
+    id: 'denials', label: 'Denial Log', fileName: 'denials.csv',
+    build: d => [['Timestamp','Feature','User','Host','Category','Error Code','Reason'].join(','),
+      ...d.denials.map(e => [e.time, e.feature || '', e.user || '', e.host || '', denialCategoryLabel(denialCategoryOf(e)), formatFlexError(e.flexError ?? parseFlexError(e.reason)).replace(',', ':'), (e.reason || '').replace(/,/g, ';')].join(','))].join('\n'),
+  },
+];
+
+// Machine-readable counterpart of the executive summary, for monitoring and scripts
+export const analysisSummary = (
+  d: DashboardData,
+  { licenseSeats, licenseCosts, alerts, filters }: { licenseSeats: Record<string, number>, licenseCosts: Record<string, number>, alerts: TriggeredAlert[], filters: DashboardFilters },
+) => {
+  const sessions = d.sessions.length, denials = d.denials.length;
+  return {
+    generatedAt: new Date().toISOString(),
+    server: d.metadata.serverName,
+    flexVersion: d.metadata.flexVersion,
+    // The log's own dates unless a date filter narrowed it
+    period: { from: filters.dateFrom || d.metadata.startDate || null, to: filters.dateTo || d.metadata.endDate || null },
+    filters,
+    totals: {
+      sessions,
+      denials,
+      denialRate: sessions + denials > 0 ? Number(((denials / (sessions + denials)) * 100).toFixed(1)) : 0,
+      users: Object.keys(d.userStats).length,
+      features: Object.keys(d.featureStats).length,
+      hours: Number((d.sessions.reduce((sum, s) => sum + (s.duration || 0), 0) / 60).toFixed(1)),
+    },
+    health: healthFromAlerts(alerts),
+    alerts: strongestAlerts(alerts).map(a => ({ rule: a.rule.name, severity: a.rule.severity, metric: a.rule.metric, subject: a.subject, value: a.value, evidence: a.evidence })),
+    features: Object.entries(d.featureStats).sort((a, b) => b[1].checkouts - a[1].checkouts).map(([feature, s]) => {
+      const seats = licenseSeats[feature] || null;
+      const peak = d.featureConcurrency[feature]?.peak ?? 0;
+      return {
+        feature,
+        checkouts: s.checkouts,
+        denials: s.denials,
+        hours: Number((s.totalDuration / 60).toFixed(1)),
+        peak,
+        seats,
+        peakUtilization: seats ? Number(((peak / seats) * 100).toFixed(1)) : null,
+        annualCost: seats && licenseCosts[feature] ? seats * licenseCosts[feature] : null,
+      };
+    }),
+    parseHealth: d.parseHealth,
+  };
+};
@@ -0,0 +1,145 @@
+import type { DashboardData, LogEntry } from './types';
+import { computeAnalytics } from './analytics';
+
+export type FilterDimension = 'servers' | 'users' | 'features' | 'hosts' | 'reasons';
+export type FilterMode = 'include' | 'exclude';
+
+export interface DashboardFilters {
+  servers: string[];      // multi-server workspaces only
+  users: string[];
+  features: string[];
+  hosts: string[];
+  hostPatterns: string[]; // globs like REMOTE-* or 10.20.*; share the hosts mode
+  reasons: string[];      // denial reason labels — denials only
+  // Per dimension: keep only the listed values, or everyone except them
+  modes: Record<FilterDimension, FilterMode>;
+  dateFrom: string; // yyyy-mm-dd, inclusive; '' for open-ended
+  dateTo: string;
+  weekdaysOnly: boolean;
+  // Working-hours window as [from, to) hours of the day; null for all day
+  hours: { from: number, to: number } | null;
+}
+
+export const EMPTY_FILTERS: DashboardFilters = {
+  servers: [], users: [], features: [], hosts: [], hostPatterns: [], reasons: [],
+  modes: { servers: 'include', users: 'include', features: 'include', hosts: 'include', reasons: 'include' },
+  dateFrom: '', dateTo: '', weekdaysOnly: false, hours: null,
+};
+
+export const hasTimeFilters = (f: DashboardFilters) => !!(f.dateFrom || f.dateTo || f.weekdaysOnly || f.hours);
+export const hasFilters = (f: DashboardFilters) =>
+  f.servers.length > 0 || f.users.length > 0 || f.features.length > 0 || f.hosts.length > 0 || f.hostPatterns.length > 0 || f.reasons.length > 0 || hasTimeFilters(f);
+
+// "Licensed number of users already reached. (-4,342:10054 "")" → "Licensed number of users already reached."
+export const denialReasonLabel = (reason?: string) => (reason || 'Unknown').replace(/\s*\(-?\d+,\d+[^)]*\)*\s*$/, '').trim() || 'Unknown';
+
+const globToRegExp = (glob: string) => new RegExp(`^${glob.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+export const toInputDate = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+const fromInputDate = (s: string) => { const [y, m, d] = s.split('-').map(Number); return new Date(y, m - 1, d); };
+
+export type DatePreset = 'last7' | 'last30' | 'last90' | 'thisQuarter' | 'lastQuarter';
+
+export const DATE_PRESETS: { id: DatePreset, label: string }[] = [
+  { id: 'last7', label: 'Last 7 days' },
+  { id: 'last30', label: 'Last 30 days' },
+  { id: 'last90', label: 'Last 90 days' },
+  { id: 'thisQuarter', label: 'This fiscal quarter' },
+  { id: 'lastQuarter', label: 'Last fiscal quarter' },
+];
+
+// Presets are relative to the end of the log, not today — logs are often analysed weeks later.
+// fiscalStartMonth is 1-12 (1 = calendar year).
+export const presetRange = (preset: DatePreset, logEnd: Date, fiscalStartMonth = 1): { dateFrom: string, dateTo: string } => {
+  const end = new Date(logEnd.getFullYear(), logEnd.getMonth(), logEnd.getDate());
+  if (preset === 'last7' || preset === 'last30' || preset === 'last90') {
+    const days = preset === 'last7' ? 7 : preset === 'last30' ? 30 : 90;
+    const start = new Date(end);
+    start.setDate(start.getDate() - (days - 1));
+    return { dateFrom: toInputDate(start), dateTo: toInputDate(end) };
+  }
+  // Months since the fiscal year began, rounded down to the quarter
+  const offset = (end.getMonth() - (fiscalStartMonth - 1) + 12) % 12;
+  const quarterStart = new Date(end.getFullYear(), end.getMonth() - (offset % 3), 1);
+  if (preset === 'lastQuarter') quarterStart.setMonth(quarterStart.getMonth() - 3);
+  const quarterEnd = new Date(quarterStart.getFullYear(), quarterStart.getMonth() + 3, 0);
+  return { dateFrom: toInputDate(quarterStart), dateTo: toInputDate(quarterEnd) };
+};
+
+// Sessions, borrows and log lines are placed by their start time
+const inTimeWindow = (f: DashboardFilters, at: Date) => {
+  if (isNaN(at.getTime())) return !hasTimeFilters(f);
+  if (f.dateFrom && at < fromInputDate(f.dateFrom)) return false;
+  if (f.dateTo) {
+    const to = fromInputDate(f.dateTo);
+    to.setDate(to.getDate() + 1);
+    if (at >= to) return false;
+  }
+  if (f.weekdaysOnly && (at.getDay() === 0 || at.getDay() === 6)) return false;
+  if (f.hours) {
+    const hour = at.getHours() + at.getMinutes() / 60;
+    if (hour < f.hours.from || hour >= f.hours.to) return false;
+  }
+  return true;
+};
+
+const entryTime = (e: LogEntry) => new Date(`${e.date} ${e.time}`);
+
+// Restrict a parsed log to the filter selection and recompute analytics over what's left
+export const filterDashboardData = (data: DashboardData, f: DashboardFilters): DashboardData => {
+  if (!hasFilters(f)) return data;
+
+  // Empty dimensions match everything; otherwise membership decides, flipped in exclude mode
+  const matcher = (dimension: FilterDimension, test: ((value: string) => boolean) | null) => (value?: string) => {
+    if (!test) return true;
+    const hit = !!value && test(value);
+    return f.modes[dimension] === 'exclude' ? !hit : hit;
+  };
+  const hostGlobs = f.hostPatterns.map(globToRegExp);
+  const matchServer = matcher('servers', f.servers.length > 0 ? v => f.servers.includes(v) : null);
+  const matchUser = matcher('users', f.users.length > 0 ? u => f.users.includes(u) : null);
+  const matchFeature = matcher('features', f.features.length > 0 ? v => f.features.includes(v) : null);
+  const matchHost = matcher('hosts', f.hosts.length > 0 || hostGlobs.length > 0 ? h => f.hosts.includes(h) || hostGlobs.some(g => g.test(h)) : null);
+  const matchReason = matcher('reasons', f.reasons.length > 0 ? r => f.reasons.includes(denialReasonLabel(r)) : null);
+  const matchEntry = (e: LogEntry) => !hasTimeFilters(f) || inTimeWindow(f, entryTime(e));
+
+  const sessions = data.sessions.filter(s => matchServer(s.server) && matchUser(s.user) && matchFeature(s.feature) && matchHost(s.host) && inTimeWindow(f, s.start));
+  const denials = data.denials.filter(e => matchServer(e.server) && matchUser(e.user) && matchFeature(e.feature) && matchHost(e.host) && matchReason(e.reason || 'Unknown') && matchEntry(e));
+  const errors = data.errors.filter(e => matchServer(e.server) && (f.features.length === 0 || matchFeature(e.feature)) && matchEntry(e));
+  const borrows = data.borrows.filter(b => matchServer(b.server) && matchUser(b.user) && matchFeature(b.feature) && matchHost(b.host) && inTimeWindow(f, b.start));
+
+  return {
+    ...data,
+    sessions,
+    borrows,
+    denials,
+    errors,
+    ...computeAnalytics(sessions, denials),
+  };
+};
+
+// Named filter sets, kept in localStorage across reloads
+export interface FilterPreset {
+  name: string;
+  filters: DashboardFilters;
+}
+
+const PRESETS_KEY = 'snl-dashboard.filter-presets';
+
+export const loadFilterPresets = (): FilterPreset[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    // Presets saved by older versions may lack newer fields
+    return Array.isArray(raw) ? raw.map((p: FilterPreset) => ({ name: p.name, filters: { ...EMPTY_FILTERS, ...p.filters, modes: { ...EMPTY_FILTERS.modes, ...p.filters?.modes } } })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage full or disabled (private mode) — presets just won't persist
+  }
+};
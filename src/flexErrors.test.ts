@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyDenial, parseFlexError } from './flexErrors';
+import { parseLogFile } from './parser';
+
+test('reads the code whether or not the reason is wrapped in parens', () => {
+  assert.deepEqual(parseFlexError('-4,342:10054 ""'), { major: -4, minor: 342 });
+  assert.deepEqual(parseFlexError('-39,147'), { major: -39, minor: 147 });
+  assert.deepEqual(parseFlexError('Licensed number of users already reached. (-4,342:10054 "")'), { major: -4, minor: 342 });
+  assert.deepEqual(parseFlexError('(-5,414)'), { major: -5, minor: 414 });
+  assert.equal(parseFlexError('Version 2026 requested, 24 allowed, 10,5 seats'), undefined);
+  assert.equal(parseFlexError(undefined), undefined);
+});
+
+test('a DENIED line whose parens hold only the code is classified by it', () => {
+  assert.equal(classifyDenial('-4,342:10054 ""').category, 'capacity');
+  const data = parseLogFile('10:00:00 (SW_D) DENIED: "solidworks" alice@WS1  (-4,342:10054 "")');
+  assert.equal(data.denials[0].reason, '-4,342:10054 ""');
+  assert.equal(data.denials[0].denialCategory, 'capacity');
+  assert.deepEqual(data.denials[0].flexError, { major: -4, minor: 342 });
+});
+
+test('falls back to the wording for unknown or missing codes', () => {
+  assert.equal(classifyDenial('User/host on EXCLUDE list for feature.').category, 'access');
+  assert.equal(classifyDenial('(-999,1) something new').category, 'other');
+});
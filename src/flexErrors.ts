@@ -0,0 +1,89 @@
+import type { DenialCategory, FlexError, LogEntry } from './types';
+
+// FlexNet Publisher error codes as they appear in DENIED lines: "(-4,342:10054 "")" is
+// major -4, minor 342, then the OS error. Only the major code says what went wrong.
+
+export const DENIAL_CATEGORIES: { id: DenialCategory, label: string, remediation: string }[] = [
+  { id: 'capacity', label: 'Seats exhausted', remediation: 'Every seat was in use. Add seats, reserve seats for key groups, or shorten idle timeouts so seats come back sooner.' },
+  { id: 'access', label: 'Blocked by options file', remediation: 'An INCLUDE/EXCLUDE rule turned the request away. Check the options file if this user or host should have access.' },
+  { id: 'missing', label: 'Feature not licensed', remediation: 'The server has no such feature. Check the client is asking for the right product and that the license file includes it.' },
+  { id: 'version', label: 'Version mismatch', remediation: 'The client is newer than the license allows. Upgrade the license file or keep the client on a supported version.' },
+  { id: 'expired', label: 'Expired or not yet valid', remediation: 'The feature is outside its start/expiry dates. Install the renewed license file.' },
+  { id: 'connectivity', label: 'Server unreachable', remediation: 'The client could not reach the license server or vendor daemon. Check both services are running, the firewall ports and DNS.' },
+  { id: 'license-file', label: 'License file problem', remediation: 'The license file is missing, damaged or tied to another host ID. Reinstall it or have it reissued.' },
+  { id: 'other', label: 'Other', remediation: 'Look up the error code in the FlexNet Publisher documentation.' },
+];
+
+export const FLEX_ERRORS: Record<number, { message: string, category: DenialCategory }> = {
+  [-1]: { message: 'Cannot find license file', category: 'license-file' },
+  [-4]: { message: 'Licensed number of users already reached', category: 'capacity' },
+  [-5]: { message: 'No such feature exists', category: 'missing' },
+  [-7]: { message: 'No socket connection to license server manager', category: 'connectivity' },
+  [-8]: { message: 'Invalid license key or signature', category: 'license-file' },
+  [-9]: { message: 'Host ID does not match the license', category: 'license-file' },
+  [-10]: { message: 'Feature has expired', category: 'expired' },
+  [-12]: { message: 'Invalid data returned from license server', category: 'connectivity' },
+  [-13]: { message: 'No SERVER lines in license file', category: 'license-file' },
+  [-14]: { message: 'Cannot find SERVER hostname in network database', category: 'connectivity' },
+  [-15]: { message: 'Cannot connect to license server system', category: 'connectivity' },
+  [-16]: { message: 'Cannot read data from license server system', category: 'connectivity' },
+  [-17]: { message: 'Cannot write data to license server system', category: 'connectivity' },
+  [-18]: { message: 'License server does not support this feature', category: 'missing' },
+  [-21]: { message: 'License file does not support this version', category: 'version' },
+  [-24]: { message: 'Users are queued for this feature', category: 'capacity' },
+  [-25]: { message: 'License server does not support this version of this feature', category: 'version' },
+  [-31]: { message: 'Feature start date is in the future', category: 'expired' },
+  [-35]: { message: 'Already in the queue for this feature', category: 'capacity' },
+  [-38]: { message: 'User or host on the EXCLUDE list for this feature', category: 'access' },
+  [-39]: { message: 'User or host not on the INCLUDE list for this feature', category: 'access' },
+  [-73]: { message: 'Checkout rejected by local filter', category: 'access' },
+  [-88]: { message: 'System clock has been set back', category: 'other' },
+  [-96]: { message: 'License server machine is down or not responding', category: 'connectivity' },
+  [-97]: { message: 'The vendor daemon is down', category: 'connectivity' },
+};
+
+// "(-4,342:10054 "")" or "(-4,342)"; the reason text before it varies between versions. The
+// parser strips a DENIED line's outer parens, so a reason can also start with the code itself
+export const parseFlexError = (reason?: string): FlexError | undefined => {
+  const m = reason?.match(/(?:^|\()(-\d+),(\d+)/);
+  return m ? { major: Number(m[1]), minor: Number(m[2]) } : undefined;
+};
+
+const CATEGORY_BY_TEXT: [RegExp, DenialCategory][] = [
+  [/number of users already reached|queued/i, 'capacity'],
+  [/EXCLUDE list|INCLUDE list/i, 'access'],
+  [/no such feature|does not support this feature/i, 'missing'],
+  [/support this version/i, 'version'],
+  [/expired|start date/i, 'expired'],
+  [/cannot connect|cannot read|cannot write|not responding|daemon is down|socket/i, 'connectivity'],
+  [/license file|host ?id|license key/i, 'license-file'],
+];
+
+export const classifyDenial = (reason?: string): { code?: FlexError, category: DenialCategory } => {
+  const code = parseFlexError(reason);
+  const known = code && FLEX_ERRORS[code.major];
+  if (known) return { code, category: known.category };
+  // No code, or one the catalog doesn't know: fall back to the wording
+  const byText = CATEGORY_BY_TEXT.find(([pattern]) => reason && pattern.test(reason));
+  return { code, category: byText ? byText[1] : 'other' };
+};
+
+// Datasets saved before classification existed carry only the raw reason
+export const denialCategoryOf = (e: LogEntry): DenialCategory => e.denialCategory ?? classifyDenial(e.reason).category;
+
+export const denialCategoryLabel = (id: DenialCategory) => DENIAL_CATEGORIES.find(c => c.id === id)?.label || 'Other';
+
+export const formatFlexError = (code?: FlexError) => code ? `${code.major},${code.minor}` : '';
+
+// Denial counts per category for each feature or user, busiest first
+export const denialBreakdown = (denials: LogEntry[], key: 'feature' | 'user') => {
+  const rows: Record<string, { name: string, total: number, byCategory: Partial<Record<DenialCategory, number>> }> = {};
+  denials.forEach(e => {
+    const name = e[key] || 'Unknown';
+    const row = rows[name] || (rows[name] = { name, total: 0, byCategory: {} });
+    const category = denialCategoryOf(e);
+    row.total++;
+    row.byCategory[category] = (row.byCategory[category] || 0) + 1;
+  });
+  return Object.values(rows).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { entitlementWarnings, isExpired, licenseEntitlements, parseLicenseDate, parseLicenseFile } from './license';
+
+const asOf = new Date(2026, 2, 2);
+
+test('reads the header and joins continuation lines', () => {
+  const file = parseLicenseFile(readFileSync(new URL('../fixtures/sw_d.sample.lic', import.meta.url), 'utf8'));
+  assert.deepEqual(file.servers, [{ host: 'SNLSERVER01', hostid: 'AABBCCDD1122', port: 25734 }]);
+  assert.deepEqual(file.vendors, [{ name: 'SW_D', port: 25735 }]);
+  assert.equal(file.useServer, true);
+  assert.deepEqual(file.issues, []);
+  assert.deepEqual(file.increments.map(i => [i.feature, i.count, i.line]), [['solidworks', 3, 4], ['swpremium', 2, 6], ['swsimulation', 1, 8]]);
+  assert.equal(file.increments[0].attributes.SIGN, '0123 4567 89AB CDEF');
+  assert.equal(file.increments[0].serial, '9710001122334455');
+  assert.deepEqual(file.increments[0].issued, new Date(2026, 0, 1));
+});
+
+test('permanent, 0 and a zero year never expire', () => {
+  assert.equal(parseLicenseDate('permanent'), null);
+  assert.equal(parseLicenseDate('0'), null);
+  assert.equal(parseLicenseDate('1-jan-0'), null);
+  assert.equal(parseLicenseDate('1-jan-00'), null);
+  assert.deepEqual(parseLicenseDate('31-dec-26'), new Date(2026, 11, 31));
+  assert.equal(parseLicenseDate('31-foo-2026'), undefined);
+  const [inc] = parseLicenseFile('INCREMENT solidworks SW_D 33.0 0 2').increments;
+  assert.equal(inc.expiry, null);
+  assert.equal(isExpired(inc, new Date(2099, 0, 1)), false);
+});
+
+test('adds up INCREMENT lines, skips lapsed ones and uses only the first FEATURE line', () => {
+  const file = parseLicenseFile([
+    'INCREMENT solidworks SW_D 33.0 31-dec-2026 3',
+    'INCREMENT solidworks SW_D 33.0 permanent 2',
+    'INCREMENT solidworks SW_D 33.0 1-mar-2026 5',
+    'FEATURE swpremium SW_D 33.0 permanent 2',
+    'FEATURE swpremium SW_D 33.0 permanent 9',
+    'INCREMENT swsimulation SW_D 33.0 permanent 1 START=1-apr-2026',
+    'INCREMENT edrawings SW_D 33.0 permanent uncounted',
+  ].join('\n'));
+  assert.deepEqual(file.increments.map(i => i.superseded), [false, false, false, false, true, false, false]);
+  const byFeature = Object.fromEntries(licenseEntitlements(file, asOf).map(e => [e.feature, e]));
+  assert.equal(byFeature.solidworks.seats, 5);
+  assert.equal(byFeature.solidworks.permanentSeats, 2);
+  assert.deepEqual(byFeature.solidworks.nextExpiry, new Date(2026, 11, 31));
+  assert.equal(byFeature.swpremium.seats, 2);
+  assert.equal(byFeature.swsimulation.seats, 0);
+  assert.equal(byFeature.edrawings.uncounted, true);
+  // Still valid through its expiry day
+  assert.equal(licenseEntitlements(file, new Date(2026, 2, 1, 12)).find(e => e.feature === 'solidworks')!.seats, 10);
+});
+
+test('warns about seats lapsing within the window, lapsed seats and unlicensed features', () => {
+  const file = parseLicenseFile([
+    'INCREMENT solidworks SW_D 33.0 31-mar-2026 3',
+    'INCREMENT solidworks SW_D 33.0 30-jun-2026 2',
+    'INCREMENT swpremium SW_D 33.0 1-feb-2026 2',
+    'INCREMENT swsimulation SW_D 33.0 31-mar-2026 1',
+  ].join('\n'));
+  const checkouts = { solidworks: 40, swpremium: 3, swinspection_std: 1, swsimulation: 0 };
+  assert.deepEqual(entitlementWarnings(file, checkouts, 60, asOf), [
+    { kind: 'not-licensed', feature: 'swinspection_std', checkouts: 1 },
+    { kind: 'expired', feature: 'swpremium', checkouts: 3, seats: 2, expiry: new Date(2026, 1, 1) },
+    { kind: 'expiring', feature: 'solidworks', checkouts: 40, seats: 3, expiry: new Date(2026, 2, 31), daysLeft: 30 },
+  ]);
+  assert.deepEqual(entitlementWarnings(file, { solidworks: 40 }, 121, asOf).map(w => [w.seats, w.daysLeft]), [[3, 30], [2, 121]]);
+  assert.deepEqual(entitlementWarnings(file, { solidworks: 40 }, 29, asOf), []);
+});
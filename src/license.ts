@@ -0,0 +1,230 @@
+// FlexNet license files (sw_d.lic): the SERVER, VENDOR and USE_SERVER header and the
+// FEATURE/INCREMENT lines that grant seats.
+//   INCREMENT feature vendor version expiry count [KEYWORD=value ...]
+
+export interface LicenseServer {
+  host: string;
+  hostid: string;
+  port?: number;
+}
+
+export interface LicenseVendor {
+  name: string;
+  path?: string;
+  options?: string;
+  port?: number;
+}
+
+export interface LicenseIncrement {
+  keyword: 'FEATURE' | 'INCREMENT';
+  feature: string;
+  vendor: string;
+  version: string;
+  expiryText: string;
+  expiry: Date | null;   // null = permanent; otherwise the last day the seats are valid
+  count: number;         // 0 when uncounted
+  uncounted: boolean;
+  dupGroup?: string;
+  issued?: Date;
+  start?: Date;
+  serial?: string;       // SN=
+  vendorString?: string;
+  attributes: Record<string, string>; // every KEYWORD=value on the line, SIGN and friends included
+  superseded: boolean;   // a second FEATURE line for the same feature; FlexNet only uses the first
+  line: number;          // 1-based, where the (possibly continued) line starts
+}
+
+export interface LicenseFile {
+  servers: LicenseServer[];
+  vendors: LicenseVendor[];
+  useServer: boolean;
+  increments: LicenseIncrement[];
+  issues: { line: number, message: string }[];
+}
+
+export interface LicenseEntitlement {
+  feature: string;
+  vendor: string;
+  seats: number;           // counted seats valid on the reference date
+  uncounted: boolean;
+  increments: LicenseIncrement[];
+  nextExpiry: Date | null; // earliest expiry still ahead, among the valid increments
+  permanentSeats: number;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 31-dec-2026; a year of 0 or 00 (1-jan-0) means permanent, as does the word itself
+export const parseLicenseDate = (text: string): Date | null | undefined => {
+  if (/^permanent$/i.test(text) || text === '0') return null;
+  const m = text.match(/^(\d{1,2})-([a-z]{3})-(\d{1,4})$/i);
+  if (!m) return undefined;
+  const month = MONTHS.indexOf(m[2].toLowerCase());
+  if (month < 0) return undefined;
+  if (Number(m[3]) === 0) return null;
+  const year = m[3].length <= 2 ? 2000 + Number(m[3]) : Number(m[3]);
+  return new Date(year, month, Number(m[1]));
+};
+
+// KEYWORD=value, KEYWORD="quoted value" or a bare word
+const TOKEN = /(\w+)=("(?:[^"\\]|\\.)*"|\S+)|"(?:[^"\\]|\\.)*"|\S+/g;
+
+const tokenize = (text: string) => Array.from(text.matchAll(TOKEN)).map(m => m[1]
+  ? { key: m[1].toUpperCase(), value: m[2].replace(/^"|"$/g, '') }
+  : { key: null, value: m[0].replace(/^"|"$/g, '') });
+
+export const parseLicenseFile = (text: string): LicenseFile => {
+  const file: LicenseFile = { servers: [], vendors: [], useServer: false, increments: [], issues: [] };
+  const rawLines = text.split(/\r?\n/);
+  const seenFeatures = new Set<string>();
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const lineNumber = i + 1;
+    let line = rawLines[i];
+    // A trailing backslash continues the line
+    while (/\\\s*$/.test(line) && i + 1 < rawLines.length) line = line.replace(/\\\s*$/, ' ') + rawLines[++i].trim();
+    line = line.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const tokens = tokenize(line);
+    const keyword = tokens[0].value.toUpperCase();
+    const positional = tokens.slice(1).filter(t => t.key === null).map(t => t.value);
+    const named = Object.fromEntries(tokens.slice(1).filter(t => t.key !== null).map(t => [t.key!, t.value]));
+
+    switch (keyword) {
+      case 'SERVER': {
+        if (positional.length < 2) { file.issues.push({ line: lineNumber, message: 'SERVER needs a host name and host id' }); break; }
+        const port = Number(positional[2] ?? named.PORT);
+        file.servers.push({ host: positional[0], hostid: positional[1], ...(port > 0 && { port }) });
+        break;
+      }
+      case 'VENDOR':
+      case 'DAEMON': {
+        if (positional.length < 1) { file.issues.push({ line: lineNumber, message: `${keyword} needs a vendor daemon name` }); break; }
+        const [name, path, options, port] = positional;
+        const portNumber = Number(named.PORT ?? port);
+        file.vendors.push({
+          name,
+          ...(path && { path }),
+          ...((named.OPTIONS ?? options) && { options: named.OPTIONS ?? options }),
+          ...(portNumber > 0 && { port: portNumber }),
+        });
+        break;
+      }
+      case 'USE_SERVER':
+        file.useServer = true;
+        break;
+      case 'FEATURE':
+      case 'INCREMENT': {
+        const [feature, vendor, version, expiryText, countText] = positional;
+        if (!countText) { file.issues.push({ line: lineNumber, message: `${keyword} needs feature, vendor, version, expiry and count` }); break; }
+        const expiry = parseLicenseDate(expiryText);
+        if (expiry === undefined) { file.issues.push({ line: lineNumber, message: `Unreadable expiry "${expiryText}" for ${feature}` }); break; }
+        const uncounted = /^uncounted$/i.test(countText) || countText === '0';
+        if (!uncounted && !/^\d+$/.test(countText)) { file.issues.push({ line: lineNumber, message: `Unreadable seat count "${countText}" for ${feature}` }); break; }
+        const issued = named.ISSUED ? parseLicenseDate(named.ISSUED) : undefined;
+        const start = named.START ? parseLicenseDate(named.START) : undefined;
+        const key = feature.toLowerCase();
+        file.increments.push({
+          keyword, feature, vendor, version, expiryText, expiry,
+          count: uncounted ? 0 : Number(countText),
+          uncounted,
+          ...(named.DUP_GROUP && { dupGroup: named.DUP_GROUP }),
+          ...(issued && { issued }),
+          ...(start && { start }),
+          ...((named.SN ?? named.SERIAL) && { serial: named.SN ?? named.SERIAL }),
+          ...(named.VENDOR_STRING && { vendorString: named.VENDOR_STRING }),
+          attributes: named,
+          superseded: keyword === 'FEATURE' && seenFeatures.has(key),
+          line: lineNumber,
+        });
+        if (keyword === 'FEATURE') seenFeatures.add(key);
+        break;
+      }
+      case 'PACKAGE':
+      case 'UPGRADE':
+        // Suites and upgrades aren't modeled; their seats come from the matching INCREMENTs
+        break;
+      default:
+        file.issues.push({ line: lineNumber, message: `Unknown line "${keyword}"` });
+    }
+  }
+  return file;
+};
+
+// Expired on the reference date once its expiry day has passed
+export const isExpired = (increment: LicenseIncrement, asOf: Date) =>
+  increment.expiry !== null && asOf.getTime() >= increment.expiry.getTime() + 86400000;
+
+const hasStarted = (increment: LicenseIncrement, asOf: Date) => !increment.start || increment.start.getTime() <= asOf.getTime();
+
+// INCREMENT lines for the same feature add up; a FEATURE line after the first is ignored
+export const licenseEntitlements = (file: LicenseFile, asOf = new Date()): LicenseEntitlement[] => {
+  const byFeature = new Map<string, LicenseIncrement[]>();
+  file.increments.forEach(inc => {
+    const key = inc.feature.toLowerCase();
+    byFeature.set(key, [...(byFeature.get(key) || []), inc]);
+  });
+  return Array.from(byFeature.values()).map(increments => {
+    const valid = increments.filter(inc => !inc.superseded && !isExpired(inc, asOf) && hasStarted(inc, asOf));
+    const expiries = valid.map(inc => inc.expiry).filter((e): e is Date => e !== null).sort((a, b) => a.getTime() - b.getTime());
+    return {
+      feature: increments[0].feature,
+      vendor: increments[0].vendor,
+      seats: valid.reduce((sum, inc) => sum + inc.count, 0),
+      uncounted: valid.some(inc => inc.uncounted),
+      increments,
+      nextExpiry: expiries[0] || null,
+      permanentSeats: valid.filter(inc => inc.expiry === null).reduce((sum, inc) => sum + inc.count, 0),
+    };
+  }).sort((a, b) => a.feature.localeCompare(b.feature));
+};
+
+// Counted seats per feature, names as written in the file
+export const licenseSeatCounts = (text: string, asOf = new Date()): Record<string, number> =>
+  Object.fromEntries(licenseEntitlements(parseLicenseFile(text), asOf).filter(e => e.seats > 0).map(e => [e.feature, e.seats]));
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 60;
+
+export interface EntitlementWarning {
+  kind: 'expiring' | 'expired' | 'not-licensed';
+  feature: string;
+  checkouts: number;
+  seats?: number;        // seats that lapse on `expiry`, or the feature's whole count once expired
+  expiry?: Date;
+  daysLeft?: number;
+}
+
+// Features the log shows in use whose seats lapse within `withinDays`, have already lapsed,
+// or that the license file doesn't grant at all
+export const entitlementWarnings = (
+  file: LicenseFile, checkouts: Record<string, number>, withinDays: number, asOf = new Date(),
+): EntitlementWarning[] => {
+  const entitlements = licenseEntitlements(file, asOf);
+  const warnings: EntitlementWarning[] = [];
+  Object.entries(checkouts).forEach(([feature, count]) => {
+    const entitlement = entitlements.find(e => e.feature.toLowerCase() === feature.toLowerCase());
+    if (!entitlement) {
+      warnings.push({ kind: 'not-licensed', feature, checkouts: count });
+      return;
+    }
+    if (count === 0) return;
+    const valid = entitlement.increments.filter(inc => !inc.superseded && !isExpired(inc, asOf));
+    if (valid.length === 0) {
+      const last = entitlement.increments.map(inc => inc.expiry).filter((e): e is Date => e !== null).sort((a, b) => b.getTime() - a.getTime())[0];
+      warnings.push({ kind: 'expired', feature, checkouts: count, seats: entitlement.increments.reduce((sum, inc) => sum + inc.count, 0), ...(last && { expiry: last }) });
+      return;
+    }
+    const byDate = new Map<number, number>();
+    valid.forEach(inc => {
+      if (!inc.expiry) return;
+      const daysLeft = Math.floor((inc.expiry.getTime() - asOf.getTime()) / 86400000) + 1;
+      if (daysLeft <= withinDays) byDate.set(inc.expiry.getTime(), (byDate.get(inc.expiry.getTime()) || 0) + inc.count);
+    });
+    Array.from(byDate.entries()).sort((a, b) => a[0] - b[0]).forEach(([time, seats]) => warnings.push({
+      kind: 'expiring', feature, checkouts: count, seats, expiry: new Date(time),
+      daysLeft: Math.floor((time - asOf.getTime()) / 86400000) + 1,
+    }));
+  });
+  return warnings.sort((a, b) => (a.daysLeft ?? -1) - (b.daysLeft ?? -1) || a.feature.localeCompare(b.feature));
+};
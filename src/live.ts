@@ -0,0 +1,129 @@
+import type { LiveState } from './types';
+import { createLogParser } from './parser';
+
+// Live mode: the companion (src/node/companion.ts) tails lmgrd.log on the license server
+// and streams its lines here, where they go through the same line parser as an upload.
+
+// What the companion sends, one JSON object per WebSocket message
+export type CompanionMessage =
+  | { type: 'hello', file: string }
+  | { type: 'lines', lines: string[] }
+  | { type: 'rotated' }
+  | { type: 'truncated' }
+  | { type: 'caught-up' } // the replay of what was already in the file is done
+  | { type: 'error', message: string };
+
+export const DEFAULT_COMPANION_URL = 'ws://127.0.0.1:8787';
+
+export type LiveStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface LiveHandlers {
+  onStatus: (status: LiveStatus) => void;
+  onState: (state: LiveState) => void;
+  onNotice: (message: string) => void;
+  onCaughtUp: () => void; // after every (re)connect, once the file has been replayed
+}
+
+export interface LiveConnection {
+  file: () => string;
+  text: () => string; // the latest lines received (up to MAX_DASHBOARD_LINES), to load into the full dashboard
+  close: () => void;
+}
+
+const PUBLISH_INTERVAL_MS = 500;
+const RECONNECT_DELAY_MS = 5000;
+// The live view itself keeps only current state; this caps what "Open dashboard" can load
+// so a session left open for weeks doesn't hold the whole log in the tab
+const MAX_DASHBOARD_LINES = 200000;
+
+export const connectCompanion = (url: string, { onStatus, onState, onNotice, onCaughtUp }: LiveHandlers): LiveConnection => {
+  let socket: WebSocket | null = null;
+  let parser = createLogParser({ live: true });
+  let lines: string[] = [];
+  let trimmed = false;
+  let file = '';
+  let closed = false;
+  let publishTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // The replay on connect can be the whole file; redraw at most twice a second
+  const publish = () => {
+    if (publishTimer) return;
+    publishTimer = setTimeout(() => {
+      publishTimer = null;
+      if (!closed) onState(parser.current());
+    }, PUBLISH_INTERVAL_MS);
+  };
+
+  const connect = () => {
+    // Every connection replays the file from the top, so state starts over with it
+    parser = createLogParser({ live: true });
+    lines = [];
+    trimmed = false;
+    socket = new WebSocket(url);
+    socket.onopen = () => onStatus('open');
+    socket.onmessage = (e: MessageEvent<string>) => {
+      let msg: CompanionMessage;
+      try {
+        msg = JSON.parse(e.data);
+      } catch {
+        onNotice('Ignored a message from the companion that was not valid JSON');
+        return;
+      }
+      switch (msg.type) {
+        case 'hello':
+          file = msg.file;
+          parser.beginSource(file);
+          break;
+        case 'lines':
+          msg.lines.forEach(line => {
+            parser.pushLine(line);
+            lines.push(line);
+          });
+          // Trim in slices rather than per line; the first trim says the dashboard is now partial
+          if (lines.length > MAX_DASHBOARD_LINES * 1.1) {
+            if (!trimmed) onNotice(`Keeping only the latest ${MAX_DASHBOARD_LINES.toLocaleString()} lines for the dashboard`);
+            trimmed = true;
+            lines = lines.slice(-MAX_DASHBOARD_LINES);
+          }
+          publish();
+          break;
+        case 'rotated':
+        case 'truncated':
+          // Same timeline, new file: open checkouts carry over, the date continues until the next anchor
+          parser.beginSource(file);
+          onNotice(msg.type === 'rotated' ? `${file} was rotated — following the new file` : `${file} was truncated — following it from the start`);
+          break;
+        case 'caught-up':
+          onState(parser.current());
+          onCaughtUp();
+          break;
+        case 'error':
+          onNotice(msg.message);
+          break;
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus('reconnecting');
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  onStatus('connecting');
+  connect();
+
+  return {
+    file: () => file,
+    text: () => lines.join('\n'),
+    close: () => {
+      closed = true;
+      if (publishTimer) clearTimeout(publishTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      socket = null;
+      onStatus('closed');
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { lmstatSeatCounts, parseLmstat, reconcileLmstat } from './lmstat';
+import { parseLogFile } from './parser';
+
+const fixture = (name: string) => readFileSync(new URL(`../fixtures/${name}`, import.meta.url), 'utf8');
+
+test('reads servers, vendors, seat totals and holders from lmstat -a', () => {
+  const snapshot = parseLmstat(fixture('lmstat.sample.txt'));
+  assert.deepEqual(snapshot.takenAt, new Date(2026, 2, 2, 16, 5));
+  assert.deepEqual(snapshot.servers, [{ name: 'SNLSERVER01', status: 'UP', role: 'MASTER', version: '11.18.2' }]);
+  assert.deepEqual(snapshot.vendors, [{ name: 'SW_D', status: 'UP', version: '11.18.2' }]);
+  assert.deepEqual(snapshot.features.map(f => [f.feature, f.issued, f.inUse, f.holders.length]),
+    [['solidworks', 3, 3, 3], ['swpremium', 2, 0, 0], ['swsimulation', 1, 0, 0], ['swinspection_std', null, 0, 0]]);
+  assert.equal(snapshot.features[3].note, 'Error: 5 licenses, unsupported by licensed server');
+  assert.equal(snapshot.features[0].expiry, '31-dec-2026');
+  const [jchen, ekim] = snapshot.features[0].holders;
+  assert.deepEqual(
+    { user: jchen.user, host: jchen.host, version: jchen.version, server: jchen.server, handle: jchen.handle, start: jchen.start, licenses: jchen.licenses, linger: jchen.linger },
+    { user: 'jchen', host: 'ENG-WS01', version: '33.0', server: 'SNLSERVER01/25734', handle: '1201', start: new Date(2026, 2, 2, 13, 1), licenses: 1, linger: null },
+  );
+  assert.equal(ekim.linger, 604800);
+  assert.deepEqual(lmstatSeatCounts(snapshot), { solidworks: 3, swpremium: 2, swsimulation: 1 });
+});
+
+test('matches holders against the checkouts open at log end', () => {
+  const { rows, features } = reconcileLmstat(parseLmstat(fixture('lmstat.sample.txt')), parseLogFile(fixture('lmgrd.sample.log')));
+  assert.deepEqual(rows.map(r => [r.status, r.user, r.borrowed]),
+    [['both', 'ekim', true], ['both', 'jchen', false], ['log-only', 'kpatel', false], ['lmstat-only', 'mthompson', false]]);
+  assert.deepEqual(features.find(f => f.feature === 'solidworks'), { feature: 'solidworks', issued: 3, lmstatInUse: 3, logOpen: 3 });
+});
+
+test('a checkout holding several seats counts them on both sides', () => {
+  const snapshot = parseLmstat([
+    'Flexible License Manager status on Mon 3/2/2026 16:05',
+    'Users of swpremium:  (Total of 4 licenses issued;  Total of 3 licenses in use)',
+    '    jchen ENG-WS01 ENG-WS01 (v33.0) (SNLSERVER01/25734 1201), start Mon 3/2 13:01, 2 licenses',
+    '    kpatel ENG-WS03 ENG-WS03 (v33.0) (SNLSERVER01/25734 1202), start Mon 3/2 14:30',
+    '    1 RESERVATION for GROUP Designers (SNLSERVER01/25734)',
+  ].join('\n'));
+  const holders = snapshot.features[0].holders;
+  assert.deepEqual(holders.map(h => [h.user, h.licenses]), [['jchen', 2], ['kpatel', 1]]);
+  assert.deepEqual(snapshot.features[0].reservations, [{ count: 1, targetType: 'GROUP', target: 'Designers' }]);
+
+  const data = parseLogFile([
+    '13:01:00 (SW_D) OUT: "swpremium" jchen@ENG-WS01',
+    '14:30:00 (SW_D) OUT: "swpremium" kpatel@ENG-WS03',
+    '15:00:00 (SW_D) TIMESTAMP 3/2/2026',
+  ].join('\n'));
+  assert.deepEqual(reconcileLmstat(snapshot, data).features, [{ feature: 'swpremium', issued: 4, lmstatInUse: 3, logOpen: 3 }]);
+});
@@ -0,0 +1,202 @@
+import type { BorrowRecord, DashboardData, Session } from './types';
+
+// `lmutil lmstat -a -c 25734@server` output: who holds what at the moment it ran, and how many
+// seats each feature has. The log can only reconstruct holdings; this is the server's own view.
+
+export interface LmstatHolder {
+  user: string;
+  host: string;
+  display: string;
+  feature: string;
+  version: string;
+  server: string;   // the license server/port the checkout is on
+  handle: string;
+  start: Date | null;
+  licenses: number; // ", 2 licenses" — one checkout can hold several seats
+  linger: number | null; // seconds; set on borrowed (and lingering) checkouts
+}
+
+export interface LmstatReservation {
+  count: number;
+  targetType: string; // USER, HOST, GROUP, ...
+  target: string;
+}
+
+export interface LmstatFeature {
+  feature: string;
+  issued: number | null;  // null when uncounted or not served
+  inUse: number;
+  note?: string;          // "Uncounted, node-locked", "Error: 5 licenses, unsupported by licensed server"
+  version?: string;
+  vendor?: string;
+  expiry?: string;
+  holders: LmstatHolder[];
+  reservations: LmstatReservation[];
+}
+
+export interface LmstatSnapshot {
+  takenAt: Date | null;
+  servers: { name: string, status: string, role?: string, version?: string }[];
+  vendors: { name: string, status: string, version?: string }[];
+  features: LmstatFeature[];
+}
+
+const STATUS_ON = /Flexible License Manager status on \w{3}\s+(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})/;
+const SERVER_STATUS = /^\s*(\S+): license server (UP|DOWN|\S+)(?: \((\w+)\))?(?: v(\S+))?/;
+const VENDOR_STATUS = /^\s*(\S+): (UP|DOWN|The desired vendor daemon is down\.?)(?: v(\S+))?\s*$/;
+const USERS_OF = /^Users of (\S+?):\s*\((.*)\)\s*$/;
+const TOTALS = /Total of (\d+) licenses? issued;\s*Total of (\d+) licenses? in use/;
+const FEATURE_INFO = /^\s*"([^"]+)" v([^,]+), vendor: ([^,\s]+)(?:, expiry: (\S+))?/;
+// user host [display] (v33.0) (server/port handle), start Mon 3/2 7:02[, 2 licenses] [(linger: 604800)]
+const HOLDER = /^\s+(.+?)\s+(?:\(v([^)]*)\)\s+)?\(([^)/]+)\/(\d+)\s+(\d+)\),\s+start\s+(.+)$/;
+const START = /(?:\w{3}\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\s+(\d{1,2}):(\d{2})/;
+const RESERVATION = /^\s+(\d+)\s+RESERVATIONs? for (\w+) (\S+)/;
+
+// lmstat leaves the year out of start times; they fall on or before the snapshot
+const startDate = (text: string, takenAt: Date | null): Date | null => {
+  const m = text.match(START);
+  if (!m) return null;
+  const reference = takenAt || new Date();
+  const [, month, day, year, hours, minutes] = m.map(Number) as number[];
+  let fullYear = year ? (year < 100 ? 2000 + year : year) : reference.getFullYear();
+  let date = new Date(fullYear, month - 1, day, hours, minutes);
+  if (!year && date.getTime() > reference.getTime() + 86400000) date = new Date(--fullYear, month - 1, day, hours, minutes);
+  return date;
+};
+
+export const parseLmstat = (text: string): LmstatSnapshot => {
+  const snapshot: LmstatSnapshot = { takenAt: null, servers: [], vendors: [], features: [] };
+  let feature: LmstatFeature | null = null;
+  let inVendors = false;
+
+  text.split(/\r?\n/).forEach(line => {
+    const statusOn = line.match(STATUS_ON);
+    if (statusOn) {
+      const [, month, day, year, hours, minutes] = statusOn.map(Number) as number[];
+      snapshot.takenAt = new Date(year, month - 1, day, hours, minutes);
+      return;
+    }
+    if (/^Vendor daemon status/.test(line)) { inVendors = true; return; }
+    if (/^Feature usage info/.test(line)) { inVendors = false; return; }
+
+    const usersOf = line.match(USERS_OF);
+    if (usersOf) {
+      inVendors = false;
+      const totals = usersOf[2].match(TOTALS);
+      feature = {
+        feature: usersOf[1],
+        issued: totals ? Number(totals[1]) : null,
+        inUse: totals ? Number(totals[2]) : 0,
+        ...(!totals && { note: usersOf[2].trim() }),
+        holders: [],
+        reservations: [],
+      };
+      snapshot.features.push(feature);
+      return;
+    }
+
+    const server = !feature && line.match(SERVER_STATUS);
+    if (server) {
+      snapshot.servers.push({ name: server[1], status: server[2], ...(server[3] && { role: server[3] }), ...(server[4] && { version: server[4] }) });
+      return;
+    }
+    const vendor = inVendors && line.match(VENDOR_STATUS);
+    if (vendor) {
+      snapshot.vendors.push({ name: vendor[1], status: vendor[2] === 'UP' ? 'UP' : 'DOWN', ...(vendor[3] && { version: vendor[3] }) });
+      return;
+    }
+    if (!feature) return;
+
+    const info = line.match(FEATURE_INFO);
+    if (info) {
+      feature.version = info[2];
+      feature.vendor = info[3];
+      if (info[4]) feature.expiry = info[4];
+      return;
+    }
+    const reservation = line.match(RESERVATION);
+    if (reservation) {
+      feature.reservations.push({ count: Number(reservation[1]), targetType: reservation[2], target: reservation[3] });
+      return;
+    }
+    const holder = line.match(HOLDER);
+    if (holder) {
+      const [user, host = '', ...display] = holder[1].trim().split(/\s+/);
+      const rest = holder[6];
+      const licenses = rest.match(/,\s*(\d+)\s+licenses?/);
+      const linger = rest.match(/\(linger:\s*(\d+)\)/);
+      feature.holders.push({
+        user, host, display: display.join(' '),
+        feature: feature.feature,
+        version: holder[2] || '',
+        server: `${holder[3]}/${holder[4]}`,
+        handle: holder[5],
+        start: startDate(rest, snapshot.takenAt),
+        licenses: licenses ? Number(licenses[1]) : 1,
+        linger: linger ? Number(linger[1]) : null,
+      });
+    }
+  });
+  return snapshot;
+};
+
+// Issued seats per counted feature, for the workspace's seat counts
+export const lmstatSeatCounts = (snapshot: LmstatSnapshot): Record<string, number> =>
+  Object.fromEntries(snapshot.features.filter(f => f.issued !== null && f.issued > 0).map(f => [f.feature, f.issued!]));
+
+export type ReconcileStatus = 'both' | 'lmstat-only' | 'log-only';
+
+export interface ReconcileRow {
+  status: ReconcileStatus;
+  feature: string;
+  user: string;
+  host: string;
+  borrowed: boolean;
+  holder?: LmstatHolder;
+  logStart?: Date;
+}
+
+export interface LmstatReconciliation {
+  rows: ReconcileRow[];
+  logEnd: Date | null;
+  // Both sides in seats. The log can't tell how many seats a checkout holds, so one lmstat also lists
+  // counts its holder's licenses and any other counts one; open borrows count too, as lmstat does
+  features: { feature: string, issued: number | null, lmstatInUse: number, logOpen: number }[];
+}
+
+const sameHost = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Holdings lmstat reports against what the log says was still checked out when it ends.
+// Borrowed checkouts (linger) pair with open borrows rather than sessions.
+export const reconcileLmstat = (snapshot: LmstatSnapshot, data: DashboardData): LmstatReconciliation => {
+  // In a multi-server workspace only the snapshot's own server is comparable
+  const serverNames = snapshot.servers.map(s => s.name.toLowerCase());
+  const onServer = (item: { server?: string }) => !item.server || serverNames.length === 0 || serverNames.includes(item.server.toLowerCase());
+  const openSessions: Session[] = data.sessions.filter(s => s.endReason === 'active-at-log-end' && onServer(s));
+  const openBorrows: BorrowRecord[] = data.borrows.filter(b => b.status === 'out' && onServer(b));
+  const remainingSessions = [...openSessions], remainingBorrows = [...openBorrows];
+
+  const rows: ReconcileRow[] = [];
+  snapshot.features.forEach(f => f.holders.forEach(holder => {
+    const borrowed = holder.linger !== null;
+    const pool: (Session | BorrowRecord)[] = borrowed ? remainingBorrows : remainingSessions;
+    const index = pool.findIndex(s => s.feature === holder.feature && s.user === holder.user && sameHost(s.host, holder.host));
+    const match = index >= 0 ? pool.splice(index, 1)[0] : undefined;
+    rows.push({ status: match ? 'both' : 'lmstat-only', feature: holder.feature, user: holder.user, host: holder.host, borrowed, holder, ...(match && { logStart: match.start }) });
+  }));
+  remainingSessions.forEach(s => rows.push({ status: 'log-only', feature: s.feature, user: s.user, host: s.host, borrowed: false, logStart: s.start }));
+  remainingBorrows.forEach(b => rows.push({ status: 'log-only', feature: b.feature, user: b.user, host: b.host, borrowed: true, logStart: b.start }));
+
+  const logEnd = data.sessions.reduce<Date | null>((latest, s) => s.end && onServer(s) && (!latest || s.end > latest) ? s.end : latest, null);
+  const featureNames = Array.from(new Set([...snapshot.features.map(f => f.feature), ...openSessions.map(s => s.feature), ...openBorrows.map(b => b.feature)])).sort();
+  return {
+    rows: rows.sort((a, b) => a.feature.localeCompare(b.feature) || a.user.localeCompare(b.user)),
+    logEnd,
+    features: featureNames.map(feature => {
+      const f = snapshot.features.find(x => x.feature === feature);
+      const lmstatInUse = f && f.holders.length > 0 ? f.holders.reduce((sum, h) => sum + h.licenses, 0) : f?.inUse ?? 0;
+      const logOpen = rows.filter(r => r.feature === feature && r.status !== 'lmstat-only').reduce((sum, r) => sum + (r.holder?.licenses ?? 1), 0);
+      return { feature, issued: f?.issued ?? null, lmstatInUse, logOpen };
+    }),
+  };
+};
@@ -4,15 +4,42 @@ import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react'
 import { createRoot } from 'react-dom/client';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  AreaChart, Area, PieChart, Pie, Cell, Legend, LineChart, Line
+  AreaChart, Area, PieChart, Pie, Cell, Legend, LineChart, Line, ReferenceLine, Brush
 } from 'recharts';
 import { 
   FileText, Upload, Users, ShieldAlert, Clock, Activity, Download, 
   Moon, Sun, LayoutDashboard, Database, AlertTriangle, CheckCircle, Search, Filter,
-  ChevronRight, Printer, FileDown, Info, Server, Cpu, Menu, X, Settings, Copy, Plus, Trash2, HelpCircle, DollarSign, TrendingDown, TrendingUp
+  ChevronRight, Printer, FileDown, Info, Server, Cpu, Menu, X, Settings, Copy, Plus, Trash2, HelpCircle, DollarSign, TrendingDown, TrendingUp, Plane, ArrowLeftRight, Bell, RotateCcw, Radio, CalendarClock
 } from 'lucide-react';
-import { jsPDF } from "jspdf";
 import html2canvas from "html2canvas";
+import type { AlertRule, DashboardData, LiveState, NoLogEvent, OptionsExtras, OptionsFeatureTimeout, OptionsGroup, OptionsRule, WorkspaceConfig } from './types';
+import { saturationEpisodes, computeServerPooling, computeDenialEpisodes, summarizeDenialEpisodes, DEFAULT_EPISODE_GAP_MIN } from './analytics';
+import { parseLogFile } from './parser';
+import { filterDashboardData, hasFilters, presetRange, denialReasonLabel, toInputDate, loadFilterPresets, saveFilterPresets, DATE_PRESETS, EMPTY_FILTERS } from './filters';
+import type { DashboardFilters, DatePreset, FilterDimension, FilterPreset } from './filters';
+import { fromTransferable } from './serialize';
+import type { ParseProgress, ParseWorkerMessage } from './parser.worker';
+import { listWorkspaces, createWorkspace, loadWorkspaceData, renameWorkspace, saveWorkspaceConfig, deleteWorkspace } from './workspaceStore';
+import type { WorkspaceSummary } from './workspaceStore';
+import { exportBundle, importBundle, bundleFileName } from './bundle';
+import { compareDatasets, formatDelta, SUMMARY_METRICS } from './compare';
+import type { DeltaPolarity, MetricDelta } from './compare';
+import { evaluateAlerts, healthFromAlerts, strongestAlerts, formatMetricValue, describeWindow, alertRecommendation, newAlertRule, ALERT_METRICS, DEFAULT_ALERT_RULES } from './alerts';
+import type { HealthStatus, TriggeredAlert } from './alerts';
+import { simulateTimeouts, policyFromOptions } from './simulate';
+import { simulatePolicy } from './policy';
+import { lintOptionsFile, hasLintErrors } from './optionsLint';
+import { diffLines, diffHunks, diffOptions, optionsChangeSummary, CHANGE_SECTIONS } from './optionsDiff';
+import { parseOptionsFile, generateOptionsFile, ruleStatement, isAllFeaturesRule, EMPTY_OPTIONS_EXTRAS, NOLOG_EVENTS } from './optionsFile';
+import type { OptionsIssue } from './optionsLint';
+import { CSV_TABLES } from './exports';
+import { parseLicenseFile, licenseEntitlements, entitlementWarnings, isExpired, DEFAULT_EXPIRY_WARNING_DAYS } from './license';
+import type { LicenseIncrement } from './license';
+import { parseLmstat, lmstatSeatCounts, reconcileLmstat } from './lmstat';
+import { buildExecutivePdf, executivePdfFileName, formatDuration } from './report';
+import { connectCompanion, DEFAULT_COMPANION_URL } from './live';
+import type { LiveConnection, LiveStatus } from './live';
+import { DENIAL_CATEGORIES, FLEX_ERRORS, denialBreakdown, denialCategoryOf, denialCategoryLabel, formatFlexError, parseFlexError } from './flexErrors';
 
 // --- Color Palette (Branded) ---
 const COLORS = {
@@ -83,57 +110,6 @@ const SNL_FEATURES: Record<string, string> = {
   campro: 'CAM Professional',
 };
 
-// --- Types ---
-interface LogEntry {
-  time: string;
-  date?: string;
-  daemon: string;
-  type: 'OUT' | 'IN' | 'DENIED' | 'UNSUPPORTED' | 'TIMESTAMP' | 'SLOG' | 'ERROR' | 'INFO' | 'RESERVING' | 'REMOVING' | 'REREAD' | 'VERSION';
-  user?: string;
-  host?: string;
-  feature?: string;
-  reason?: string;
-  raw: string;
-}
-
-interface Session {
-  user: string;
-  host: string;
-  feature: string;
-  start: Date;
-  end?: Date;
-  duration?: number; // in minutes
-}
-
-interface DashboardData {
-  metadata: {
-    serverName: string;
-    flexVersion: string;
-    port: string;
-    vendorPort: string;
-    pid: string;
-    logPath: string;
-    startDate?: string;
-    endDate?: string;
-  };
-  entries: LogEntry[];
-  sessions: Session[];
-  denials: LogEntry[];
-  usageByFeature: Record<string, { checkouts: number, denials: number, totalDuration: number }>;
-  userStats: Record<string, { sessions: number, totalDuration: number, denials: number }>;
-  featureStats: Record<string, { checkouts: number, denials: number, totalDuration: number }>;
-  timeSeriesUsage: { time: string, count: number }[];
-  denialsByDay: { time: string, count: number }[];
-  errors: LogEntry[];
-  // New analytics
-  peakHours: { hour: number, count: number }[];
-  concurrentUsage: { time: string, concurrent: number }[];
-  durationDistribution: { bucket: string, count: number }[];
-  hostStats: Record<string, { sessions: number, totalDuration: number, users: Set<string> }>;
-  featureCoUsage: { pair: string, count: number }[];
-  denialRatioByFeature: { name: string, checkouts: number, denials: number, ratio: number }[];
-}
-
 // --- Demo Log Generator ---
 const generateDemoLog = (): string => {
   const features = ['solidworks', 'swpremium', 'swsimulation', 'swepdm_cadeditorandweb', 'swepdm_viewer', 'swinspection_std'];
@@ -143,6 +119,7 @@ const generateDemoLog = (): string => {
   const lines: string[] = [];
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - 30);
+  startDate.setHours(5, 30, 0, 0);
 
   const fmt = (d: Date) => `${(d.getMonth()+1).toString().padStart(2,'0')}/${d.getDate().toString().padStart(2,'0')}/${d.getFullYear()}`;
   const fmtTime = (d: Date) => `${d.getHours().toString().padStart(2,'0')}:${d.getMinutes().toString().padStart(2,'0')}:${d.getSeconds().toString().padStart(2,'0')}`;
@@ -178,11 +155,15 @@ const generateDemoLog = (): string => {
     const isWeekend = d.getDay() === 0 || d.getDay() === 6;
     const eventCount = isWeekend ? rng(1, 3) : rng(10, 20);
 
-    for (let ev = 0; ev < eventCount; ev++) {
-      const hour = isWeekend ? rng(9, 17) : rng(6, 20);
-      const min = rng(0, 59);
-      const sec = rng(0, 59);
-      const t = new Date(d); t.setHours(hour, min, sec);
+    // Events are written in chronological order, like the real log
+    const eventTimes = Array.from({ length: eventCount }, () => {
+      const t = new Date(d); t.setHours(isWeekend ? rng(9, 17) : rng(6, 20), rng(0, 59), rng(0, 59));
+      return t;
+    }).sort((a, b) => a.getTime() - b.getTime());
+    let lastEvent = new Date(d);
+
+    for (const t of eventTimes) {
+      lastEvent = t;
       const time = fmtTime(t);
       const user = pick(users);
       const host = pick(hosts);
@@ -211,314 +192,207 @@ const generateDemoLog = (): string => {
       }
     }
 
-    // End of day: check in most sessions
-    activeSessions.forEach((s, i) => {
-      if (Math.random() < 0.8) {
-        const t = new Date(d); t.setHours(rng(17, 22), rng(0, 59), rng(0, 59));
-        lines.push(`${fmtTime(t)} (SW_D) IN: "${s.feature}" ${s.user}@${s.host}`);
-        activeSessions.splice(i, 1);
-      }
+    // Some errors sprinkled in
+    if (day === 12) lines.push(`${fmtTime(lastEvent)} (SW_D) Error getting ethernet address: Cannot find an available ethernet adapter.`);
+    if (day === 20) lines.push(`${fmtTime(lastEvent)} (lmgrd) SW_D reported server error: -15,570`);
+
+    // A few seats borrowed for offline work
+    const due = new Date(d); due.setDate(due.getDate() + 14);
+    if (day === 5) lines.push(`${fmtTime(lastEvent)} (SW_D) OUT: "solidworks" ekim@REMOTE-01  (BORROW) (linger: 604800)`);
+    if (day === 9) lines.push(`${fmtTime(lastEvent)} (SW_D) IN: "solidworks" ekim@REMOTE-01  (BORROW)`);
+    if (day === 18) lines.push(`${fmtTime(lastEvent)} (SW_D) OUT: "swpremium" twright@REMOTE-02  [BORROW until ${fmt(due)} 17:00]`);
+    if (day === 22) lines.push(`${fmtTime(lastEvent)} (SW_D) OUT: "swsimulation" lnguyen@REMOTE-01  (BORROW) (linger: 1209600)`);
+    if (day === 25) lines.push(`${fmtTime(lastEvent)} (SW_D) EARLY RETURN: "swsimulation" lnguyen@REMOTE-01`);
+
+    // End of day: check in most sessions, after the day's last event
+    const eodStart = Math.max(lastEvent.getTime(), new Date(d).setHours(17, 0, 0));
+    const checkIns = activeSessions
+      .filter(() => Math.random() < 0.8)
+      .map(s => ({ s, t: new Date(eodStart + rng(1, 300) * 60000) }))
+      .sort((a, b) => a.t.getTime() - b.t.getTime());
+    checkIns.forEach(({ s, t }) => {
+      lines.push(`${fmtTime(t)} (SW_D) IN: "${s.feature}" ${s.user}@${s.host}`);
+      activeSessions.splice(activeSessions.indexOf(s), 1);
     });
   }
 
-  // Some errors sprinkled in
-  const errDate = new Date(startDate); errDate.setDate(errDate.getDate() + 12);
-  lines.push(`${fmtTime(errDate)} (SW_D) Error getting ethernet address: Cannot find an available ethernet adapter.`);
-  const errDate2 = new Date(startDate); errDate2.setDate(errDate2.getDate() + 20);
-  lines.push(`${fmtTime(errDate2)} (lmgrd) SW_D reported server error: -15,570`);
-
   return lines.join('\n');
 };
 
-// --- Utils ---
-const formatDuration = (mins: number) => {
-  if (isNaN(mins) || mins === 0) return '0m';
-  if (mins < 60) return `${Math.round(mins)}m`;
-  const hrs = Math.floor(mins / 60);
-  const m = Math.round(mins % 60);
-  return `${hrs}h ${m}m`;
-};
-
-// Reusable analytics computation — used by both initial parse and filtered views
-const computeAnalytics = (sessions: Session[], denials: LogEntry[]) => {
-  const userStats: Record<string, { sessions: number, totalDuration: number, denials: number }> = {};
-  const featureStats: Record<string, { checkouts: number, denials: number, totalDuration: number }> = {};
-  const timeSeries: Record<string, number> = {};
-  const denialsByDayMap: Record<string, number> = {};
-
-  sessions.forEach(s => {
-    if (!userStats[s.user]) userStats[s.user] = { sessions: 0, totalDuration: 0, denials: 0 };
-    userStats[s.user].sessions++;
-    userStats[s.user].totalDuration += s.duration || 0;
-
-    if (!featureStats[s.feature]) featureStats[s.feature] = { checkouts: 0, denials: 0, totalDuration: 0 };
-    featureStats[s.feature].checkouts++;
-    featureStats[s.feature].totalDuration += s.duration || 0;
+// --- Components ---
 
-    const timeKey = s.start.toISOString().split('T')[0];
-    timeSeries[timeKey] = (timeSeries[timeKey] || 0) + 1;
-  });
+const StatCard = ({ title, value, icon: Icon, color }: any) => (
+  <div className="relative bg-[#111827] border-l-2 pl-5 pr-4 py-4" style={{ borderColor: color }}>
+    <div className="flex items-center gap-2 mb-1">
+      <Icon size={14} style={{ color }} className="opacity-60" />
+      <span className="text-[11px] text-slate-500 uppercase tracking-wider font-medium">{title}</span>
+    </div>
+    <p className="text-2xl font-bold text-white font-mono-brand tabular-nums">{value}</p>
+  </div>
+);
 
-  denials.forEach(d => {
-    if (d.user && !userStats[d.user]) userStats[d.user] = { sessions: 0, totalDuration: 0, denials: 0 };
-    if (d.user) userStats[d.user].denials++;
-    if (d.feature && !featureStats[d.feature]) featureStats[d.feature] = { checkouts: 0, denials: 0, totalDuration: 0 };
-    if (d.feature) featureStats[d.feature].denials++;
-    const dateKey = d.date || 'Unknown';
-    denialsByDayMap[dateKey] = (denialsByDayMap[dateKey] || 0) + 1;
-  });
+// Change between two periods; green/red only where a direction is clearly better
+const DeltaBadge = ({ d, polarity, digits = 0 }: { d: MetricDelta, polarity: DeltaPolarity, digits?: number }) => {
+  const better = polarity === 'neutral' || d.delta === 0 ? null : (d.delta < 0) === (polarity === 'lower-better');
+  const color = better === null ? 'text-[#46b6e3]' : better ? 'text-emerald-400' : 'text-red-400';
+  const Icon = d.delta > 0 ? TrendingUp : d.delta < 0 ? TrendingDown : null;
+  return (
+    <span className={`inline-flex items-center gap-1 font-mono-brand text-[11px] ${d.delta === 0 ? 'text-slate-600' : color}`}>
+      {Icon && <Icon size={11} />} {formatDelta(d, digits)}
+    </span>
+  );
+};
 
-  // Peak Hours
-  const hourCounts: Record<number, number> = {};
-  sessions.forEach(s => { const h = s.start.getHours(); hourCounts[h] = (hourCounts[h] || 0) + 1; });
-  const peakHours = Array.from({ length: 24 }, (_, i) => ({ hour: i, count: hourCounts[i] || 0 }));
-
-  // Concurrent Usage
-  const concurrentMap: Record<string, number> = {};
-  const validSessions = sessions.filter(s => s.end && !isNaN(s.start.getTime()) && !isNaN(s.end.getTime()));
-  if (validSessions.length > 0) {
-    const events: { time: number, delta: number }[] = [];
-    validSessions.forEach(s => {
-      events.push({ time: s.start.getTime(), delta: 1 });
-      events.push({ time: s.end!.getTime(), delta: -1 });
-    });
-    events.sort((a, b) => a.time - b.time);
-    let concurrent = 0;
-    events.forEach(e => {
-      concurrent += e.delta;
-      const day = new Date(e.time).toISOString().split('T')[0];
-      concurrentMap[day] = Math.max(concurrentMap[day] || 0, concurrent);
-    });
-  }
-  const concurrentUsage = Object.entries(concurrentMap).map(([time, concurrent]) => ({ time, concurrent })).sort((a, b) => a.time.localeCompare(b.time));
-
-  // Duration Distribution
-  const durationBuckets: Record<string, number> = { '<15m': 0, '15m-1h': 0, '1-2h': 0, '2-4h': 0, '4-8h': 0, '8h+': 0 };
-  sessions.forEach(s => {
-    const d = s.duration || 0;
-    if (d < 15) durationBuckets['<15m']++;
-    else if (d < 60) durationBuckets['15m-1h']++;
-    else if (d < 120) durationBuckets['1-2h']++;
-    else if (d < 240) durationBuckets['2-4h']++;
-    else if (d < 480) durationBuckets['4-8h']++;
-    else durationBuckets['8h+']++;
-  });
-  const durationDistribution = Object.entries(durationBuckets).map(([bucket, count]) => ({ bucket, count }));
-
-  // Host Stats
-  const hostStats: Record<string, { sessions: number, totalDuration: number, users: Set<string> }> = {};
-  sessions.forEach(s => {
-    if (!hostStats[s.host]) hostStats[s.host] = { sessions: 0, totalDuration: 0, users: new Set() };
-    hostStats[s.host].sessions++;
-    hostStats[s.host].totalDuration += s.duration || 0;
-    hostStats[s.host].users.add(s.user);
-  });
+const HEALTH_STYLES: Record<HealthStatus, string> = {
+  'AT RISK': 'text-red-400 border-red-400/30 bg-red-400/5',
+  'WARNING': 'text-yellow-400 border-yellow-400/30 bg-yellow-400/5',
+  'HEALTHY': 'text-emerald-400 border-emerald-400/30 bg-emerald-400/5',
+};
 
-  // Feature Co-usage
-  const userFeatures: Record<string, Set<string>> = {};
-  sessions.forEach(s => {
-    if (!userFeatures[s.user]) userFeatures[s.user] = new Set();
-    userFeatures[s.user].add(s.feature);
-  });
-  const pairCounts: Record<string, number> = {};
-  Object.values(userFeatures).forEach(features => {
-    const arr = Array.from(features).sort();
-    for (let i = 0; i < arr.length; i++)
-      for (let j = i + 1; j < arr.length; j++)
-        pairCounts[`${arr[i]} + ${arr[j]}`] = (pairCounts[`${arr[i]} + ${arr[j]}`] || 0) + 1;
-  });
-  const featureCoUsage = Object.entries(pairCounts).map(([pair, count]) => ({ pair, count })).sort((a, b) => b.count - a.count).slice(0, 10);
-
-  // Denial Ratio
-  const denialRatioByFeature = Object.entries(featureStats)
-    .filter(([_, s]) => s.checkouts > 0 || s.denials > 0)
-    .map(([name, s]) => ({ name, checkouts: s.checkouts, denials: s.denials, ratio: (s.checkouts + s.denials) > 0 ? Math.round((s.denials / (s.checkouts + s.denials)) * 100) : 0 }))
-    .sort((a, b) => b.ratio - a.ratio);
-
-  return {
-    usageByFeature: featureStats,
-    userStats,
-    featureStats,
-    timeSeriesUsage: Object.entries(timeSeries).map(([time, count]) => ({ time, count })).sort((a, b) => a.time.localeCompare(b.time)),
-    denialsByDay: Object.entries(denialsByDayMap).map(([time, count]) => ({ time, count })).sort((a, b) => a.time.localeCompare(b.time)),
-    peakHours,
-    concurrentUsage,
-    durationDistribution,
-    hostStats,
-    featureCoUsage,
-    denialRatioByFeature,
-  };
+const SEVERITY_STYLES: Record<AlertRule['severity'], string> = {
+  critical: 'text-red-400',
+  warning: 'text-yellow-400',
+  info: 'text-amber-400',
 };
 
-const parseLogFile = (content: string): DashboardData => {
-  const lines = content.split(/\r?\n/);
-  const entries: LogEntry[] = [];
-  const sessions: Session[] = [];
-  const openSessions: Record<string, Session> = {};
-  
-  let currentYear = new Date().getFullYear();
-  let currentDate = '';
-  
-  // Metadata extraction
-  let serverName = 'Unknown';
-  let flexVersion = 'Unknown';
-  let port = 'Unknown';
-  let vendorPort = 'Unknown';
-  let pid = 'Unknown';
-  let logPath = 'Unknown';
-
-  lines.forEach(line => {
-    // FlexLM logs often have leading spaces. Regex adjusted to be more forgiving.
-    const timeMatch = line.match(/^\s*(\d{1,2}:\d{2}:\d{2})\s+\(([\w\s.-]+)\)\s+(.*)$/);
-    if (!timeMatch) return;
-
-    const [_, time, daemon, message] = timeMatch;
-    let entry: LogEntry = { time, daemon, type: 'INFO', raw: line };
-
-    // Update Date from TIMESTAMP or SLOG lines
-    if (message.includes('TIMESTAMP')) {
-      const dateMatch = message.match(/(\d{1,2}\/\d{1,2}\/\d{4})/);
-      if (dateMatch) currentDate = dateMatch[1];
-      entry.type = 'TIMESTAMP';
-    }
+// Linter findings for an options file, one row per line number
+const OptionsIssueList = ({ issues }: { issues: OptionsIssue[] }) => (
+  <div className="space-y-1">
+    {issues.map((issue, i) => (
+      <div key={i} className="flex items-start gap-2 text-[11px]">
+        <span className="font-mono-brand text-slate-600 w-12 shrink-0 text-right">line {issue.line}</span>
+        <span className={`font-bold shrink-0 ${issue.severity === 'error' ? SEVERITY_STYLES.critical : SEVERITY_STYLES.warning}`}>{issue.severity === 'error' ? 'Error' : 'Warning'}</span>
+        <span className="text-slate-400">{issue.message}</span>
+      </div>
+    ))}
+  </div>
+);
 
-    // Metadata extraction
-    if (message.includes('FLEXnet Licensing')) {
-      const vMatch = message.match(/v(\d+\.\d+\.\d+\.\d+)/);
-      if (vMatch) flexVersion = vMatch[1];
-      entry.type = 'VERSION';
-    }
-    if (daemon.toLowerCase() === 'lmgrd' && message.includes('on port')) {
-      const pMatch = message.match(/port (\d+)/);
-      if (pMatch) port = pMatch[1];
-    }
-    if (message.includes('serving licenses on port')) {
-      const vpMatch = message.match(/port (\d+)/);
-      if (vpMatch) vendorPort = vpMatch[1];
-    }
-    if (daemon.toLowerCase() === 'lmgrd' && (message.includes('Server\'s nodeid') || message.includes('Server nodeid'))) {
-      const hMatch = line.match(/^\s*[\d:]+\s+(\S+)\s+\(lmgrd\)/) || message.match(/^(\S+)'s Server nodeid/);
-      if (hMatch) serverName = hMatch[1];
-    }
-    if (serverName === 'Unknown' && message.includes('started on') && daemon.toLowerCase() === 'lmgrd') {
-      const sMatch = message.match(/started on (\S+)/);
-      if (sMatch) serverName = sMatch[1];
-    }
-    if (serverName === 'Unknown' && message.includes('Server started on')) {
-      const sMatch = message.match(/Server started on (\S+)/);
-      if (sMatch) serverName = sMatch[1];
-    }
-    if (message.includes('license file(s)')) {
-      const dMatch = message.match(/:(.*)/);
-      if (dMatch) logPath = dMatch[1].trim();
-    }
-    if (message.includes('pid')) {
-      const pidMatch = message.match(/pid (\d+)/);
-      if (pidMatch) pid = pidMatch[1];
-    }
+// Live mode: where the tailed log stands right now
+const LIVE_URL_KEY = 'snl-dashboard.live-url';
 
-    // Date might be present in some lines as a fallback
-    entry.date = currentDate;
-
-    // Event Types
-    if (message.includes('OUT:')) {
-      entry.type = 'OUT';
-      // Match features with or without quotes
-      const parts = message.match(/OUT:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)/);
-      if (parts) {
-        entry.feature = parts[1];
-        entry.user = parts[2];
-        entry.host = parts[3];
-        
-        // Track Session
-        const key = `${entry.user}@${entry.host}:${entry.feature}`;
-        const startTime = new Date(`${currentDate || '1/1/' + currentYear} ${time}`);
-        openSessions[key] = { user: entry.user, host: entry.host, feature: entry.feature, start: startTime };
-      }
-    } else if (message.includes('IN:')) {
-      entry.type = 'IN';
-      const parts = message.match(/IN:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)/);
-      if (parts) {
-        entry.feature = parts[1];
-        entry.user = parts[2];
-        entry.host = parts[3];
-
-        const key = `${entry.user}@${entry.host}:${entry.feature}`;
-        if (openSessions[key]) {
-          const endTime = new Date(`${currentDate || '1/1/' + currentYear} ${time}`);
-          const session = openSessions[key];
-          session.end = endTime;
-          session.duration = (endTime.getTime() - session.start.getTime()) / 60000;
-          if (session.duration >= 0) {
-            sessions.push({ ...session });
-          }
-          delete openSessions[key];
-        }
-      }
-    } else if (message.includes('DENIED:')) {
-      entry.type = 'DENIED';
-      const parts = message.match(/DENIED:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)\s+\((.*)\)/);
-      if (parts) {
-        entry.feature = parts[1];
-        entry.user = parts[2];
-        entry.host = parts[3];
-        entry.reason = parts[4];
-      }
-    } else if (message.includes('UNSUPPORTED')) {
-      entry.type = 'UNSUPPORTED';
-      const parts = message.match(/UNSUPPORTED:\s+"?([^"\s]+)"?/);
-      if (parts) entry.feature = parts[1];
-    } else if (message.includes('RESERVING')) {
-      entry.type = 'RESERVING';
-    } else if (message.toLowerCase().includes('error') || message.includes('EXITING')) {
-      entry.type = 'ERROR';
-    }
+const LIVE_STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: 'Connecting…',
+  open: 'Live',
+  reconnecting: 'Companion unreachable — retrying',
+  closed: 'Disconnected',
+};
 
-    entries.push(entry);
-  });
+const formatStamp = (d: Date) => `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+const LivePanel = ({ state, status, file, notice, licenseSeats, onLoad, onDisconnect }: {
+  state: LiveState | null, status: LiveStatus, file: string, notice: string, licenseSeats: Record<string, number>,
+  onLoad: () => void, onDisconnect: () => void,
+}) => {
+  const held = state?.held || [];
+  const features = Array.from(new Set([...held.map(s => s.feature), ...(state?.borrows || []).map(b => b.feature), ...Object.keys(licenseSeats)])).sort();
+  const inUse = (feature: string) => held.filter(s => s.feature === feature).length;
+  const borrowed = (feature: string) => (state?.borrows || []).filter(b => b.feature === feature).length;
+  const rows = features
+    .map(feature => ({ feature, inUse: inUse(feature), borrowed: borrowed(feature), seats: licenseSeats[feature] || 0 }))
+    .filter(r => r.inUse + r.borrowed > 0 || r.seats > 0)
+    .sort((a, b) => b.inUse - a.inUse || a.feature.localeCompare(b.feature));
 
-  const denials = entries.filter(e => e.type === 'DENIED');
-  const analytics = computeAnalytics(sessions, denials);
+  return (
+    <div className="border border-slate-800 bg-[#111827]">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 border-b border-slate-800 bg-[#0c1220]">
+        <span className="flex items-center gap-2 text-[11px] uppercase tracking-widest font-medium">
+          <span className={`w-2 h-2 rounded-full ${status === 'open' ? 'bg-emerald-400 animate-pulse' : status === 'closed' ? 'bg-slate-600' : 'bg-yellow-400'}`} />
+          <span className={status === 'open' ? 'text-emerald-400' : 'text-slate-500'}>{LIVE_STATUS_LABELS[status]}</span>
+          {file && <span className="font-mono-brand normal-case tracking-normal text-slate-500">{state?.serverName !== 'Unknown' ? `${state?.serverName} · ` : ''}{file}</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          {state?.lastEvent && <span className="text-[11px] text-slate-600 font-mono-brand">last event {formatStamp(state.lastEvent)}</span>}
+          <button onClick={onLoad} disabled={!state} className="px-3 py-1 text-[11px] text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 disabled:opacity-40 transition-colors" title="Re-parse everything received so far into the full dashboard">
+            Load into dashboard
+          </button>
+          <button onClick={onDisconnect} className="px-3 py-1 text-[11px] text-slate-500 hover:text-white border border-slate-800 hover:border-slate-600 transition-colors">
+            Disconnect
+          </button>
+        </div>
+      </div>
+      {notice && <p className="px-6 py-2 border-b border-slate-800 text-[11px] text-yellow-400/80">{notice}</p>}
 
-  return {
-    metadata: { serverName, flexVersion, port, vendorPort, pid, logPath, startDate: currentDate },
-    entries,
-    sessions,
-    denials,
-    errors: entries.filter(e => e.type === 'ERROR' || e.type === 'UNSUPPORTED'),
-    ...analytics
-  };
-};
+      <div className="grid grid-cols-1 lg:grid-cols-3 divide-y lg:divide-y-0 lg:divide-x divide-slate-800">
+        <div className="p-6">
+          <h3 className="text-[10px] text-slate-500 uppercase tracking-widest mb-3">Seats in use</h3>
+          {rows.length === 0 ? <p className="text-xs text-slate-600">Nothing checked out.</p> : (
+            <div className="space-y-3">
+              {rows.map(r => {
+                const full = r.seats > 0 && r.inUse + r.borrowed >= r.seats;
+                return (
+                  <div key={r.feature}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="text-slate-300 truncate">{r.feature}</span>
+                      <span className={`font-mono-brand tabular-nums ${full ? 'text-red-400' : 'text-slate-400'}`}>
+                        {r.inUse}{r.seats > 0 && ` / ${r.seats}`}{r.borrowed > 0 && <span className="text-slate-600"> +{r.borrowed} borrowed</span>}
+                      </span>
+                    </div>
+                    {r.seats > 0 && (
+                      <div className="h-1.5 bg-slate-800 overflow-hidden flex">
+                        <div className={full ? 'bg-red-400' : 'bg-[#1871bd]'} style={{ width: `${Math.min(100, (r.inUse / r.seats) * 100)}%` }} />
+                        <div className="bg-slate-600" style={{ width: `${Math.min(100, (r.borrowed / r.seats) * 100)}%` }} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
 
-// --- Components ---
+        <div className="p-6">
+          <h3 className="text-[10px] text-slate-500 uppercase tracking-widest mb-3">Who holds what ({held.length})</h3>
+          <div className="max-h-72 overflow-y-auto divide-y divide-slate-800/60">
+            {[...held].sort((a, b) => a.start.getTime() - b.start.getTime()).map(s => (
+              <div key={`${s.user}@${s.host}:${s.feature}`} className="flex items-center justify-between gap-3 py-1.5 text-xs">
+                <span className="min-w-0 truncate"><span className="text-slate-300">{s.user}</span><span className="text-slate-600">@{s.host}</span></span>
+                <span className="shrink-0 text-right">
+                  <span className="text-[#46b6e3]">{s.feature}</span>
+                  <span className="block text-[10px] text-slate-600 font-mono-brand">since {formatStamp(s.start)}</span>
+                </span>
+              </div>
+            ))}
+            {held.length === 0 && <p className="text-xs text-slate-600">No open checkouts.</p>}
+          </div>
+        </div>
 
-const StatCard = ({ title, value, icon: Icon, color }: any) => (
-  <div className="relative bg-[#111827] border-l-2 pl-5 pr-4 py-4" style={{ borderColor: color }}>
-    <div className="flex items-center gap-2 mb-1">
-      <Icon size={14} style={{ color }} className="opacity-60" />
-      <span className="text-[11px] text-slate-500 uppercase tracking-wider font-medium">{title}</span>
+        <div className="p-6">
+          <h3 className="text-[10px] text-slate-500 uppercase tracking-widest mb-3">Latest denials</h3>
+          <div className="max-h-72 overflow-y-auto divide-y divide-slate-800/60">
+            {(state?.recentDenials || []).map((e, i) => (
+              <div key={i} className="py-1.5 text-xs">
+                <div className="flex justify-between gap-3">
+                  <span className="min-w-0 truncate text-slate-300">{e.user}<span className="text-slate-600">@{e.host}</span></span>
+                  <span className="shrink-0 text-[10px] text-slate-600 font-mono-brand">{e.date} {e.time}</span>
+                </div>
+                <p className="text-[11px]"><span className="text-red-400">{e.feature}</span> <span className="text-slate-500">· {denialCategoryLabel(denialCategoryOf(e))}</span></p>
+              </div>
+            ))}
+            {(state?.recentDenials.length || 0) === 0 && <p className="text-xs text-slate-600">No denials in the log.</p>}
+          </div>
+        </div>
+      </div>
     </div>
-    <p className="text-2xl font-bold text-white font-mono-brand tabular-nums">{value}</p>
-  </div>
-);
+  );
+};
 
-const ExecutiveSummary = ({ data }: { data: DashboardData }) => {
+const ExecutiveSummary = ({ data, alerts, onShowAlerts }: { data: DashboardData, alerts: TriggeredAlert[], onShowAlerts: () => void }) => {
   const topApp = Object.entries(data.featureStats).sort((a,b) => b[1].checkouts - a[1].checkouts)[0];
-  const topDenied = Object.entries(data.featureStats).sort((a,b) => b[1].denials - a[1].denials)[0];
   const totalSessions = data.sessions.length;
   const totalDenials = data.denials.length;
   const totalCheckoutsAttempted = totalSessions + totalDenials;
   const denialRate = totalCheckoutsAttempted > 0 ? ((totalDenials / totalCheckoutsAttempted) * 100).toFixed(1) : '0';
 
-  const healthStatus = Number(denialRate) > 10 || data.errors.filter(e => e.type === 'ERROR').length > 5 ? 'AT RISK' : Number(denialRate) > 5 ? 'WARNING' : 'HEALTHY';
-  const healthColor = healthStatus === 'AT RISK' ? 'text-red-400 border-red-400/30 bg-red-400/5' : healthStatus === 'WARNING' ? 'text-yellow-400 border-yellow-400/30 bg-yellow-400/5' : 'text-emerald-400 border-emerald-400/30 bg-emerald-400/5';
+  const healthStatus = healthFromAlerts(alerts);
+  const shown = strongestAlerts(alerts);
 
   return (
     <div className="border border-slate-800 bg-[#111827]">
       {/* Top bar */}
       <div className="flex items-center justify-between px-6 py-3 border-b border-slate-800 bg-[#0c1220]">
         <span className="text-[11px] text-slate-500 uppercase tracking-widest font-medium">Executive Summary</span>
-        <div className={`px-3 py-1 border text-[10px] font-bold uppercase tracking-widest ${healthColor}`}>
+        <div className={`px-3 py-1 border text-[10px] font-bold uppercase tracking-widest ${HEALTH_STYLES[healthStatus]}`}>
           {healthStatus}
         </div>
       </div>
@@ -537,17 +411,14 @@ const ExecutiveSummary = ({ data }: { data: DashboardData }) => {
 
           {/* Alerts */}
           <div className="mt-4 space-y-2">
-            {totalDenials > 20 && (
-              <div className="flex items-start gap-2 text-xs text-slate-400">
-                <span className="text-red-400 font-bold mt-px">!</span>
-                <span><strong className="text-red-400">License Scarcity</strong> — Frequent denials for "{topDenied?.[0]}". Consider additional seats.</span>
-              </div>
-            )}
-            {data.errors.length > 5 && (
-              <div className="flex items-start gap-2 text-xs text-slate-400">
-                <span className="text-amber-400 font-bold mt-px">!</span>
-                <span><strong className="text-amber-400">System Events</strong> — {data.errors.length} errors/warnings detected. Review server health.</span>
+            {shown.slice(0, 4).map(a => (
+              <div key={`${a.rule.id}|${a.subject}`} className="flex items-start gap-2 text-xs text-slate-400">
+                <span className={`${SEVERITY_STYLES[a.rule.severity]} font-bold mt-px`}>!</span>
+                <span><strong className={SEVERITY_STYLES[a.rule.severity]}>{a.rule.name}</strong>{a.subject && <> · {a.subject}</>} — {a.evidence}.</span>
               </div>
+            ))}
+            {shown.length > 4 && (
+              <button onClick={onShowAlerts} className="text-[11px] text-[#46b6e3] hover:underline">+{shown.length - 4} more alerts</button>
             )}
           </div>
         </div>
@@ -584,22 +455,171 @@ export function App() {
   const [activeTab, setActiveTab] = useState('overview');
   const [isParsing, setIsParsing] = useState(false);
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
-  const [filterUsers, setFilterUsers] = useState<string[]>([]);
-  const [filterFeatures, setFilterFeatures] = useState<string[]>([]);
+  const [filters, setFilters] = useState<DashboardFilters>(EMPTY_FILTERS);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  const [hostPatternInput, setHostPatternInput] = useState('');
+  const [presetNameInput, setPresetNameInput] = useState<string | null>(null);
+  const [fiscalStartMonth, setFiscalStartMonth] = useState(1);
   
   // Options file builder state
   const [optTimeoutEnabled, setOptTimeoutEnabled] = useState(false);
   const [optTimeout, setOptTimeout] = useState(3600);
-  const [optFeatureTimeouts, setOptFeatureTimeouts] = useState<{ feature: string, seconds: number }[]>([]);
-  const [optGroups, setOptGroups] = useState<{ name: string, users: string[] }[]>([]);
-  const [optRules, setOptRules] = useState<{ type: 'MAX' | 'RESERVE' | 'INCLUDE' | 'EXCLUDE' | 'INCLUDE_BORROW' | 'EXCLUDE_BORROW', count: number, feature: string, groupOrUser: string, targetType: 'GROUP' | 'USER' | 'HOST' | 'INTERNET', versionFilter: string }[]>([]);
+  const [optFeatureTimeouts, setOptFeatureTimeouts] = useState<OptionsFeatureTimeout[]>([]);
+  const [optGroups, setOptGroups] = useState<OptionsGroup[]>([]);
+  const [optRules, setOptRules] = useState<OptionsRule[]>([]);
+  const [optExtras, setOptExtras] = useState<OptionsExtras>(EMPTY_OPTIONS_EXTRAS);
+  const [optBaseline, setOptBaseline] = useState<WorkspaceConfig['optBaseline']>(undefined);
+  const [optDiffView, setOptDiffView] = useState<'changes' | 'lines'>('changes');
   const [customUsers, setCustomUsers] = useState<string[]>([]);
   const [licenseCosts, setLicenseCosts] = useState<Record<string, number>>({});
   const [licenseSeats, setLicenseSeats] = useState<Record<string, number>>({});
+  const [serverSeats, setServerSeats] = useState<Record<string, Record<string, number>>>({});
+  const [lmstatImport, setLmstatImport] = useState<WorkspaceConfig['lmstat']>(undefined);
+  const [licenseFileImport, setLicenseFileImport] = useState<WorkspaceConfig['licenseFile']>(undefined);
+  const [expiryWarningDays, setExpiryWarningDays] = useState(DEFAULT_EXPIRY_WARNING_DAYS);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const [denialEpisodeGap, setDenialEpisodeGap] = useState(DEFAULT_EPISODE_GAP_MIN);
   const [optCopied, setOptCopied] = useState(false);
+  const [optImportReport, setOptImportReport] = useState<{ fileName: string, issues: OptionsIssue[] } | null>(null);
+  const [optLintOverride, setOptLintOverride] = useState(false);
+  const [concurrencyFeature, setConcurrencyFeature] = useState('');
+  const [concurrencyZoom, setConcurrencyZoom] = useState<{ startIndex: number, endIndex: number } | null>(null);
   const reportRef = useRef<HTMLDivElement>(null);
 
-  // All unique users and features for filter dropdowns
+  // Saved workspaces (IndexedDB): the open one autosaves its configuration
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [recentWorkspaces, setRecentWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [renamingWorkspace, setRenamingWorkspace] = useState<{ id: string, name: string } | null>(null);
+  const [workspaceNotice, setWorkspaceNotice] = useState('');
+  const workspaceConfig: WorkspaceConfig = useMemo(() => ({
+    licenseSeats, serverSeats, licenseCosts, fiscalStartMonth,
+    optTimeoutEnabled, optTimeout, optFeatureTimeouts, optGroups, optRules, optExtras, optBaseline, customUsers, alertRules, denialEpisodeGap, lmstat: lmstatImport,
+    licenseFile: licenseFileImport, expiryWarningDays,
+  }), [licenseSeats, serverSeats, licenseCosts, fiscalStartMonth, optTimeoutEnabled, optTimeout, optFeatureTimeouts, optGroups, optRules, optExtras, optBaseline, customUsers, alertRules, denialEpisodeGap, lmstatImport, licenseFileImport, expiryWarningDays]);
+  const workspaceConfigRef = useRef(workspaceConfig);
+  workspaceConfigRef.current = workspaceConfig;
+
+  const applyWorkspaceConfig = (config: WorkspaceConfig) => {
+    setLicenseSeats(config.licenseSeats);
+    setServerSeats(config.serverSeats ?? {});
+    setLicenseCosts(config.licenseCosts);
+    setFiscalStartMonth(config.fiscalStartMonth);
+    setOptTimeoutEnabled(config.optTimeoutEnabled);
+    setOptTimeout(config.optTimeout);
+    setOptFeatureTimeouts(config.optFeatureTimeouts);
+    setOptGroups(config.optGroups);
+    setOptRules(config.optRules);
+    setOptExtras(config.optExtras ?? EMPTY_OPTIONS_EXTRAS);
+    setOptBaseline(config.optBaseline);
+    setCustomUsers(config.customUsers);
+    setAlertRules(config.alertRules ?? DEFAULT_ALERT_RULES);
+    setDenialEpisodeGap(config.denialEpisodeGap ?? DEFAULT_EPISODE_GAP_MIN);
+    setLmstatImport(config.lmstat);
+    setLicenseFileImport(config.licenseFile);
+    setExpiryWarningDays(config.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS);
+  };
+
+  const storeUnavailable = (err: unknown) => setWorkspaceNotice(`Saved analyses are unavailable in this browser: ${(err as Error).message}`);
+  const saveFailed = (err: unknown) => setWorkspaceNotice(`Could not save this analysis: ${(err as Error).message}`);
+
+  const refreshWorkspaces = () => listWorkspaces().then(setRecentWorkspaces).catch(storeUnavailable);
+
+  // Enter and blur save the new name, Escape drops it; the ref stops a blur after either from acting twice
+  const renamingRef = useRef(renamingWorkspace);
+  renamingRef.current = renamingWorkspace;
+  const endRename = (save: boolean) => {
+    const target = renamingRef.current;
+    renamingRef.current = null;
+    setRenamingWorkspace(null);
+    const name = target?.name.trim();
+    if (!save || !name || name === recentWorkspaces.find(w => w.id === target.id)?.name) return;
+    renameWorkspace(target.id, name).then(refreshWorkspaces).catch(err => alert('Could not rename workspace: ' + (err as Error).message));
+  };
+
+  const removeWorkspace = (w: WorkspaceSummary) => {
+    if (!confirm(`Delete the saved analysis "${w.name}"? This can't be undone.`)) return;
+    deleteWorkspace(w.id).then(refreshWorkspaces).catch(err => alert('Could not delete workspace: ' + (err as Error).message));
+  };
+
+  // New analyses start from the most recently used seat counts, prices and rules; the imported
+  // options baseline, lmstat snapshot and license file belong to that dataset and stay with it
+  useEffect(() => {
+    listWorkspaces().then(list => {
+      setRecentWorkspaces(list);
+      if (list[0]) applyWorkspaceConfig({ ...list[0].config, optBaseline: undefined, lmstat: undefined, licenseFile: undefined });
+    }).catch(storeUnavailable);
+  }, []);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    const timer = setTimeout(() => saveWorkspaceConfig(workspaceId, workspaceConfig).then(() => setWorkspaceNotice('')).catch(saveFailed), 500);
+    return () => clearTimeout(timer);
+  }, [workspaceId, workspaceConfig]);
+
+  const storeNewWorkspace = async (parsed: DashboardData, name?: string, config = workspaceConfigRef.current) => {
+    const names = (parsed.metadata.sources || []).map(s => s.name);
+    name ??= names.length > 1 ? `${names[0]} (+${names.length - 1} more)` : names[0] || parsed.metadata.serverName;
+    try {
+      const summary = await createWorkspace(name, parsed, config);
+      setWorkspaceId(summary.id);
+      setWorkspaceNotice('');
+    } catch (err) {
+      saveFailed(err);
+    }
+  };
+
+  const openWorkspace = async (summary: WorkspaceSummary) => {
+    setIsParsing(true);
+    try {
+      const stored = await loadWorkspaceData(summary.id);
+      if (!stored) throw new Error('The saved dataset is missing.');
+      applyWorkspaceConfig(summary.config);
+      setFilters(EMPTY_FILTERS);
+      setData(stored);
+      setWorkspaceId(summary.id);
+    } catch (err) {
+      alert('Could not open workspace: ' + (err as Error).message);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const downloadBundle = () => {
+    if (!data) return;
+    const name = recentWorkspaces.find(w => w.id === workspaceId)?.name || data.metadata.serverName;
+    const imports = [workspaceConfig.optBaseline && 'options file', workspaceConfig.lmstat && 'lmstat output', workspaceConfig.licenseFile && 'license file'].filter(Boolean);
+    const includeImports = imports.length > 0 && confirm(`Include the imported ${imports.join(', ')} in the bundle? Their full text goes with it — license files carry their SIGN keys.`);
+    const blob = new Blob([exportBundle({ name, data, config: workspaceConfig, filters }, { includeImports })], { type: 'application/json' });
+    const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = bundleFileName(name); a.click();
+  };
+
+  const handleBundleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bundle = importBundle(await file.text());
+      applyWorkspaceConfig(bundle.config);
+      setFilters(bundle.filters);
+      setData(bundle.data);
+      storeNewWorkspace(bundle.data, bundle.name, bundle.config);
+    } catch (err) {
+      alert('Could not open workspace bundle: ' + (err as Error).message);
+    }
+  };
+
+  const closeWorkspace = () => {
+    liveDashboardRef.current = false;
+    setData(null);
+    setWorkspaceId(null);
+    // The next log is a different dataset: keep the settings, not this one's imports
+    setOptBaseline(undefined);
+    setLmstatImport(undefined);
+    setLicenseFileImport(undefined);
+    refreshWorkspaces();
+  };
+
+  // All unique users, features, hosts and denial reasons for filter dropdowns
   const allUsers = useMemo(() => {
     if (!data) return [];
     return Array.from(new Set(data.sessions.map(s => s.user))).sort();
@@ -610,313 +630,240 @@ export function App() {
     return Array.from(new Set(data.sessions.map(s => s.feature))).sort();
   }, [data]);
 
+  const allHosts = useMemo(() => {
+    if (!data) return [];
+    return Array.from(new Set([...data.sessions.map(s => s.host), ...data.denials.map(e => e.host).filter(Boolean) as string[]])).sort();
+  }, [data]);
+
+  const allReasons = useMemo(() => {
+    if (!data) return [];
+    return Array.from(new Set(data.denials.map(e => denialReasonLabel(e.reason)))).sort();
+  }, [data]);
+
   // Filtered data — recomputes all analytics when filters change
-  const filteredData = useMemo(() => {
+  const updateFilters = (patch: Partial<DashboardFilters>) => setFilters(f => ({ ...f, ...patch }));
+  const addFilterValue = (dimension: 'servers' | 'users' | 'features' | 'hosts' | 'hostPatterns' | 'reasons', value: string) => {
+    if (value && !filters[dimension].includes(value)) updateFilters({ [dimension]: [...filters[dimension], value] });
+  };
+  const removeFilterValue = (dimension: 'servers' | 'users' | 'features' | 'hosts' | 'hostPatterns' | 'reasons', value: string) =>
+    updateFilters({ [dimension]: filters[dimension].filter(x => x !== value) });
+  const toggleFilterMode = (dimension: FilterDimension) =>
+    updateFilters({ modes: { ...filters.modes, [dimension]: filters.modes[dimension] === 'include' ? 'exclude' : 'include' } });
+  const filtersActive = hasFilters(filters);
+
+  const filteredData = useMemo(() => data ? filterDashboardData(data, filters) : null, [data, filters]);
+
+  // Compare mode: two date windows of this log, or this log against another dataset
+  const [compareSource, setCompareSource] = useState<'windows' | 'dataset'>('windows');
+  const [compareWindows, setCompareWindows] = useState({ a: { from: '', to: '' }, b: { from: '', to: '' } });
+  const [compareBaseline, setCompareBaseline] = useState<{ label: string, data: DashboardData } | null>(null);
+
+  const comparison = useMemo(() => {
     if (!data) return null;
-    if (filterUsers.length === 0 && filterFeatures.length === 0) return data;
+    if (compareSource === 'windows') {
+      const { a, b } = compareWindows;
+      if (!(a.from || a.to) || !(b.from || b.to)) return null;
+      const setA = filterDashboardData(data, { ...filters, dateFrom: a.from, dateTo: a.to });
+      const setB = filterDashboardData(data, { ...filters, dateFrom: b.from, dateTo: b.to });
+      return { labelA: `${a.from || 'start'} to ${a.to || 'end'}`, labelB: `${b.from || 'start'} to ${b.to || 'end'}`, result: compareDatasets(setA, setB) };
+    }
+    if (!compareBaseline || !filteredData) return null;
+    // The date range picks the period on screen; it can't apply to the other dataset
+    const setA = filterDashboardData(compareBaseline.data, { ...filters, dateFrom: '', dateTo: '' });
+    return { labelA: compareBaseline.label, labelB: 'Current log', result: compareDatasets(setA, filteredData) };
+  }, [data, filteredData, filters, compareSource, compareWindows, compareBaseline]);
+
+  const applyDatePreset = (preset: DatePreset) => {
+    if (!data?.metadata.endDate) return;
+    updateFilters(presetRange(preset, new Date(data.metadata.endDate), fiscalStartMonth));
+  };
+  const clearFilters = () => setFilters(EMPTY_FILTERS);
 
-    const filteredSessions = data.sessions.filter(s => 
-      (filterUsers.length === 0 || filterUsers.includes(s.user)) && 
-      (filterFeatures.length === 0 || filterFeatures.includes(s.feature))
-    );
-    const filteredDenials = data.denials.filter(d => 
-      (filterUsers.length === 0 || (d.user && filterUsers.includes(d.user))) && 
-      (filterFeatures.length === 0 || (d.feature && filterFeatures.includes(d.feature)))
-    );
-    const filteredErrors = data.errors.filter(e =>
-      (filterFeatures.length === 0 || (e.feature && filterFeatures.includes(e.feature)))
-    );
-    const analytics = computeAnalytics(filteredSessions, filteredDenials);
-
-    return {
-      ...data,
-      sessions: filteredSessions,
-      denials: filteredDenials,
-      errors: filteredErrors,
-      ...analytics,
-    };
-  }, [data, filterUsers, filterFeatures]);
+  const saveFilterPreset = (name: string) => {
+    const presets = [...filterPresets.filter(p => p.name !== name), { name, filters }].sort((a, b) => a.name.localeCompare(b.name));
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
+  const activePreset = filterPresets.find(p => JSON.stringify(p.filters) === JSON.stringify(filters));
+  const deleteFilterPreset = (name: string) => {
+    const presets = filterPresets.filter(p => p.name !== name);
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
 
   // Use filteredData everywhere (aliased as 'd' for brevity in JSX)
   const d = filteredData;
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const denialEpisodes = useMemo(() => d ? computeDenialEpisodes(d.denials, d.sessions, denialEpisodeGap) : [], [d, denialEpisodeGap]);
+  const episodeSummary = useMemo(() => summarizeDenialEpisodes(denialEpisodes), [denialEpisodes]);
+
+  // Idle-timeout what-if for the options builder: the configured policy, plus plain TIMEOUTALL presets to compare
+  const timeoutSimulation = useMemo(() => d && activeTab === 'options' && (optTimeoutEnabled || optFeatureTimeouts.length > 0)
+    ? simulateTimeouts(d.sessions, d.denials, policyFromOptions(optTimeoutEnabled, optTimeout, optFeatureTimeouts), licenseSeats)
+    : null, [d, activeTab, optTimeoutEnabled, optTimeout, optFeatureTimeouts, licenseSeats]);
+  const timeoutPresetSimulations = useMemo(() => d && activeTab === 'options'
+    ? [1800, 3600, 7200, 14400].map(seconds => ({ seconds, result: simulateTimeouts(d.sessions, d.denials, { timeoutAll: seconds, featureTimeouts: [] }, licenseSeats) }))
+    : [], [d, licenseSeats, activeTab]);
+
+  // Options rules replayed over the history, before anyone deploys them
+  const policySimulation = useMemo(() => d && activeTab === 'options' && optRules.length > 0
+    ? simulatePolicy(d.sessions, d.denials, d.borrows, optRules, optGroups, licenseSeats, optExtras.hostGroups, optExtras.groupCaseInsensitive)
+    : null, [d, activeTab, optRules, optGroups, licenseSeats, optExtras.hostGroups, optExtras.groupCaseInsensitive]);
+
+  const serverPooling = useMemo(() => d && (data?.metadata.servers?.length || 0) > 1 ? computeServerPooling(d.sessions) : null, [d, data]);
+  // Highest peak over seats for any feature a server has seats entered for
+  const serverUtilization = (server: string) => {
+    const ratios = (serverPooling?.features || []).filter(f => serverSeats[server]?.[f.feature] > 0).map(f => f.peaks[server] / serverSeats[server][f.feature]);
+    return ratios.length > 0 ? ratios.reduce((a, b) => Math.max(a, b)) : null;
+  };
+  const alerts = useMemo(() => d ? evaluateAlerts(d, alertRules, licenseSeats) : [], [d, alertRules, licenseSeats]);
+
+  // lmstat snapshot against the checkouts still open at the end of the (unfiltered) log
+  const lmstatSnapshot = useMemo(() => lmstatImport ? parseLmstat(lmstatImport.text) : null, [lmstatImport]);
+  const lmstatReconciliation = useMemo(() => lmstatSnapshot && data ? reconcileLmstat(lmstatSnapshot, data) : null, [lmstatSnapshot, data]);
+
+  const importLmstat = (fileName: string, text: string) => {
+    const snapshot = parseLmstat(text);
+    if (snapshot.features.length === 0) {
+      alert(`${fileName} doesn't look like lmstat -a output (no "Users of" lines).`);
+      return;
+    }
+    setLmstatImport({ fileName, text, importedAt: new Date().toISOString() });
+    // Issued seats fill the seat counts, under the log's spelling of each feature
+    const known = Object.keys(data?.featureStats || {});
+    const seats = Object.fromEntries(Object.entries(lmstatSeatCounts(snapshot)).map(([f, n]) => [known.find(k => k.toLowerCase() === f.toLowerCase()) || f, n]));
+    setLicenseSeats(prev => ({ ...prev, ...seats }));
+  };
+
+  const licenseFile = useMemo(() => licenseFileImport ? parseLicenseFile(licenseFileImport.text) : null, [licenseFileImport]);
+
+  const importLicenseFile = (fileName: string, text: string) => {
+    const parsed = parseLicenseFile(text);
+    if (parsed.increments.length === 0) {
+      alert(`${fileName} has no FEATURE or INCREMENT lines.`);
+      return;
+    }
+    setLicenseFileImport({ fileName, text, importedAt: new Date().toISOString() });
+    // Seats valid today, summed over INCREMENTs, under the log's spelling of each feature
+    const known = Object.keys(data?.featureStats || {});
+    const seats = Object.fromEntries(licenseEntitlements(parsed).filter(e => e.seats > 0)
+      .map(e => [known.find(k => k.toLowerCase() === e.feature.toLowerCase()) || e.feature, e.seats]));
+    setLicenseSeats(prev => ({ ...prev, ...seats }));
+  };
+  const updateAlertRule = (id: string, patch: Partial<AlertRule>) => setAlertRules(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  // Parsing runs in a worker so large logs don't freeze the UI; cancelling terminates it
+  const parseWorkerRef = useRef<Worker | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+
+  const cancelParsing = () => {
+    parseWorkerRef.current?.terminate();
+    parseWorkerRef.current = null;
+    setParseProgress(null);
+    setIsParsing(false);
+  };
+
+  const runParseWorker = (files: File[], onDone: (parsed: DashboardData) => void) => {
+    if (files.length === 0) return;
+    parseWorkerRef.current?.terminate();
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+    parseWorkerRef.current = worker;
     setIsParsing(true);
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const content = event.target?.result as string;
-      const parsed = parseLogFile(content);
-      setData(parsed);
-      setIsParsing(false);
+    setParseProgress(null);
+    worker.onmessage = (e: MessageEvent<ParseWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        setParseProgress(msg.progress);
+        return;
+      }
+      if (msg.type === 'done') onDone(fromTransferable(msg.data));
+      else alert('Log parsing failed: ' + msg.message);
+      cancelParsing();
+    };
+    // The script failing to load, or throwing outside a message, would otherwise leave the overlay up
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      cancelParsing();
+      alert('Log parsing failed: ' + (e.message || 'the parser worker could not start'));
     };
-    reader.readAsText(file);
+    worker.onmessageerror = () => {
+      cancelParsing();
+      alert('Log parsing failed: the parser sent a result that could not be read');
+    };
+    worker.postMessage({ files });
+  };
+
+  const loadLogFiles = (files: File[]) => runParseWorker(files, parsed => {
+    setFilters(EMPTY_FILTERS);
+    setData(parsed);
+    storeNewWorkspace(parsed);
+  });
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    loadLogFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  // Live mode: lines streamed by the companion go through the same parser as an upload
+  const [liveUrl, setLiveUrl] = useState(() => localStorage.getItem(LIVE_URL_KEY) || DEFAULT_COMPANION_URL);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('closed');
+  const [liveState, setLiveState] = useState<LiveState | null>(null);
+  const [liveNotice, setLiveNotice] = useState('');
+  const liveRef = useRef<LiveConnection | null>(null);
+  // Only a dashboard opened from the live log is reloaded each time the companion catches up
+  const liveDashboardRef = useRef(false);
+
+  const loadLiveLog = () => {
+    const connection = liveRef.current;
+    if (!connection) return;
+    liveDashboardRef.current = true;
+    runParseWorker([new File([connection.text()], connection.file() || 'lmgrd.log')], parsed => {
+      setFilters(EMPTY_FILTERS);
+      setWorkspaceId(null);
+      setData(parsed);
+    });
+  };
+
+  const startLive = (openDashboard: boolean) => {
+    liveRef.current?.close();
+    localStorage.setItem(LIVE_URL_KEY, liveUrl);
+    liveDashboardRef.current = openDashboard;
+    setLiveState(null);
+    setLiveNotice('');
+    liveRef.current = connectCompanion(liveUrl, {
+      onStatus: setLiveStatus,
+      onState: setLiveState,
+      onNotice: setLiveNotice,
+      onCaughtUp: () => { if (liveDashboardRef.current) loadLiveLog(); },
+    });
+  };
+
+  const stopLive = () => {
+    liveRef.current?.close();
+    liveRef.current = null;
+    liveDashboardRef.current = false;
+    setLiveState(null);
+    setLiveNotice('');
+  };
+
+  useEffect(() => () => liveRef.current?.close(), []);
+
+  const [isDragging, setIsDragging] = useState(false);
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    loadLogFiles(Array.from(e.dataTransfer.files));
   };
 
   const [pdfGenerating, setPdfGenerating] = useState(false);
   const downloadMasterPDF = async () => {
+    // The report covers what's on screen, filters included
+    const data = filteredData;
     if (!data) return;
     setPdfGenerating(true);
     try {
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const W = pdf.internal.pageSize.getWidth();
-      const H = pdf.internal.pageSize.getHeight();
-      const margin = 15;
-      const cw = W - margin * 2; // content width
-      let y = 0;
-
-      const totalSessions = data.sessions.length;
-      const totalDenials = data.denials.length;
-      const denialRate = (totalSessions + totalDenials) > 0 ? ((totalDenials / (totalSessions + totalDenials)) * 100).toFixed(1) : '0';
-      const avgDuration = totalSessions > 0 ? data.sessions.reduce((a, s) => a + (s.duration || 0), 0) / totalSessions : 0;
-      const topFeatures = Object.entries(data.featureStats).sort((a, b) => b[1].checkouts - a[1].checkouts);
-      const topUsers = Object.entries(data.userStats).sort((a, b) => b[1].sessions - a[1].sessions);
-
-      const drawHeader = (title: string) => {
-        pdf.setFillColor(30, 41, 67); // brand dark
-        pdf.rect(0, 0, W, 18, 'F');
-        pdf.setTextColor(255, 255, 255);
-        pdf.setFontSize(9);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text('Ellison Technologies · SNL License Parser', margin, 7);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text(title, W - margin, 7, { align: 'right' });
-        // blue accent line
-        pdf.setFillColor(24, 113, 189);
-        pdf.rect(0, 18, W, 1, 'F');
-        return 26;
-      };
-
-      const drawFooter = (pageNum: number, totalPages: number) => {
-        pdf.setDrawColor(200, 200, 200);
-        pdf.line(margin, H - 12, W - margin, H - 12);
-        pdf.setFontSize(7);
-        pdf.setTextColor(150, 150, 150);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(`Generated ${new Date().toLocaleDateString()} · SNL License Parser · Ellison Technologies`, margin, H - 7);
-        pdf.text(`${data.metadata.serverName} · Page ${pageNum} of ${totalPages}`, W - margin, H - 7, { align: 'right' });
-      };
-
-      const drawSectionTitle = (title: string, yPos: number) => {
-        pdf.setFontSize(13);
-        pdf.setFont('helvetica', 'bold');
-        pdf.setTextColor(30, 41, 67);
-        pdf.text(title, margin, yPos);
-        pdf.setFillColor(24, 113, 189);
-        pdf.rect(margin, yPos + 1.5, 30, 0.8, 'F');
-        return yPos + 8;
-      };
-
-      const totalPages = totalDenials > 0 ? 4 : 3;
-
-      // === PAGE 1: Cover + Executive Summary ===
-      y = drawHeader('Executive Summary');
-
-      // Title block
-      pdf.setFontSize(22);
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(30, 41, 67);
-      pdf.text('SNL License Manager Report', W / 2, y + 8, { align: 'center' });
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.setTextColor(100, 116, 139);
-      pdf.text(`Server: ${data.metadata.serverName}  ·  FlexLM v${data.metadata.flexVersion}  ·  Port ${data.metadata.port}`, W / 2, y + 15, { align: 'center' });
-      pdf.text(`Report generated ${new Date().toLocaleDateString()}`, W / 2, y + 21, { align: 'center' });
-      y += 30;
-
-      // KPI boxes
-      const kpis = [
-        { label: 'Total Sessions', value: totalSessions.toLocaleString() },
-        { label: 'Unique Users', value: Object.keys(data.userStats).length.toString() },
-        { label: 'Denial Rate', value: `${denialRate}%` },
-        { label: 'Avg Duration', value: formatDuration(avgDuration) },
-      ];
-      const boxW = (cw - 9) / 4;
-      kpis.forEach((kpi, i) => {
-        const x = margin + i * (boxW + 3);
-        pdf.setFillColor(248, 250, 252);
-        pdf.setDrawColor(226, 232, 240);
-        pdf.roundedRect(x, y, boxW, 20, 2, 2, 'FD');
-        pdf.setFontSize(7);
-        pdf.setTextColor(100, 116, 139);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text(kpi.label.toUpperCase(), x + boxW / 2, y + 7, { align: 'center' });
-        pdf.setFontSize(16);
-        pdf.setTextColor(30, 41, 67);
-        pdf.text(kpi.value, x + boxW / 2, y + 16, { align: 'center' });
-      });
-      y += 28;
-
-      // Summary text
-      y = drawSectionTitle('Summary', y);
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'normal');
-      pdf.setTextColor(71, 85, 105);
-      const summaryText = `Analysis of license server "${data.metadata.serverName}" identified ${totalSessions.toLocaleString()} successful checkouts across ${Object.keys(data.featureStats).length} features and ${Object.keys(data.userStats).length} users.${totalDenials > 0 ? ` There were ${totalDenials} denied requests (${denialRate}% denial rate).` : ' No license denials were recorded.'}${data.errors.length > 0 ? ` ${data.errors.length} system events require attention.` : ''}`;
-      const lines = pdf.splitTextToSize(summaryText, cw);
-      pdf.text(lines, margin, y);
-      y += lines.length * 4 + 6;
-
-      // Top 10 features mini-table
-      y = drawSectionTitle('Top Features by Usage', y);
-      pdf.setFontSize(8);
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(100, 116, 139);
-      pdf.text('Feature', margin, y);
-      pdf.text('Checkouts', margin + 80, y);
-      pdf.text('Duration', margin + 105, y);
-      pdf.text('Denials', margin + 135, y);
-      y += 1;
-      pdf.setDrawColor(226, 232, 240);
-      pdf.line(margin, y, W - margin, y);
-      y += 4;
-      pdf.setFont('helvetica', 'normal');
-      pdf.setTextColor(30, 41, 67);
-      topFeatures.slice(0, 12).forEach(([name, stats]) => {
-        pdf.setTextColor(30, 41, 67);
-        pdf.text(name.length > 30 ? name.substring(0, 28) + '...' : name, margin, y);
-        pdf.text(stats.checkouts.toString(), margin + 80, y);
-        pdf.text(formatDuration(stats.totalDuration), margin + 105, y);
-        pdf.setTextColor(stats.denials > 0 ? 239 : 148, stats.denials > 0 ? 68 : 163, stats.denials > 0 ? 68 : 184);
-        pdf.text(stats.denials.toString(), margin + 135, y);
-        y += 5;
-      });
-
-      drawFooter(1, totalPages);
-
-      // === PAGE 2: Full License Inventory ===
-      pdf.addPage();
-      y = drawHeader('License Inventory');
-      y = drawSectionTitle('Feature Inventory & Health', y);
-
-      pdf.setFontSize(7);
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(100, 116, 139);
-      const cols = [margin, margin + 65, margin + 90, margin + 115, margin + 140];
-      pdf.text('LICENSE NAME', cols[0], y);
-      pdf.text('CHECKOUTS', cols[1], y);
-      pdf.text('USAGE TIME', cols[2], y);
-      pdf.text('DENIALS', cols[3], y);
-      pdf.text('STATUS', cols[4], y);
-      y += 1.5;
-      pdf.setDrawColor(226, 232, 240);
-      pdf.line(margin, y, W - margin, y);
-      y += 4;
-
-      pdf.setFont('helvetica', 'normal');
-      pdf.setFontSize(7);
-      topFeatures.forEach(([name, stats]) => {
-        if (y > H - 25) {
-          drawFooter(2, totalPages);
-          pdf.addPage();
-          y = drawHeader('License Inventory (cont.)');
-        }
-        pdf.setTextColor(30, 41, 67);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text(name.length > 25 ? name.substring(0, 23) + '...' : name, cols[0], y);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(stats.checkouts.toLocaleString(), cols[1], y);
-        pdf.text(formatDuration(stats.totalDuration), cols[2], y);
-        pdf.setTextColor(stats.denials > 0 ? 239 : 148, stats.denials > 0 ? 68 : 163, stats.denials > 0 ? 68 : 184);
-        pdf.text(stats.denials.toString(), cols[3], y);
-        // Status badge
-        const status = stats.denials > 5 ? 'UNDERSIZED' : stats.checkouts === 0 ? 'IDLE' : 'OK';
-        const statusColor = stats.denials > 5 ? [239, 68, 68] : stats.checkouts === 0 ? [148, 163, 184] : [16, 185, 129];
-        pdf.setTextColor(statusColor[0], statusColor[1], statusColor[2]);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text(status, cols[4], y);
-        pdf.setFont('helvetica', 'normal');
-        y += 5;
-      });
-
-      drawFooter(2, totalPages);
-
-      // === PAGE 3: User Analysis ===
-      pdf.addPage();
-      y = drawHeader('User Analysis');
-      y = drawSectionTitle(`Top Users (${topUsers.length} total)`, y);
-
-      pdf.setFontSize(7);
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(100, 116, 139);
-      const uCols = [margin, margin + 50, margin + 80, margin + 110, margin + 140];
-      pdf.text('USERNAME', uCols[0], y);
-      pdf.text('SESSIONS', uCols[1], y);
-      pdf.text('TOTAL DURATION', uCols[2], y);
-      pdf.text('AVG DURATION', uCols[3], y);
-      pdf.text('DENIALS', uCols[4], y);
-      y += 1.5;
-      pdf.line(margin, y, W - margin, y);
-      y += 4;
-
-      pdf.setFont('helvetica', 'normal');
-      pdf.setFontSize(7);
-      topUsers.slice(0, 40).forEach(([name, stats]) => {
-        if (y > H - 25) {
-          drawFooter(3, totalPages);
-          pdf.addPage();
-          y = drawHeader('User Analysis (cont.)');
-        }
-        pdf.setTextColor(30, 41, 67);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text(name.length > 20 ? name.substring(0, 18) + '...' : name, uCols[0], y);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(stats.sessions.toString(), uCols[1], y);
-        pdf.text(formatDuration(stats.totalDuration), uCols[2], y);
-        pdf.text(formatDuration(stats.totalDuration / (stats.sessions || 1)), uCols[3], y);
-        pdf.setTextColor(stats.denials > 0 ? 239 : 148, stats.denials > 0 ? 68 : 163, stats.denials > 0 ? 68 : 184);
-        pdf.text(stats.denials.toString(), uCols[4], y);
-        y += 5;
-      });
-
-      drawFooter(3, totalPages);
-
-      // === PAGE 4: Denial Log (conditional) ===
-      if (totalDenials > 0) {
-        pdf.addPage();
-        y = drawHeader('Denial Log');
-        y = drawSectionTitle(`Denial Events (${totalDenials} total)`, y);
-
-        pdf.setFontSize(7);
-        pdf.setFont('helvetica', 'bold');
-        pdf.setTextColor(100, 116, 139);
-        const dCols = [margin, margin + 22, margin + 52, margin + 82, margin + 115];
-        pdf.text('TIME', dCols[0], y);
-        pdf.text('USER', dCols[1], y);
-        pdf.text('HOST', dCols[2], y);
-        pdf.text('FEATURE', dCols[3], y);
-        pdf.text('REASON', dCols[4], y);
-        y += 1.5;
-        pdf.line(margin, y, W - margin, y);
-        y += 4;
-
-        pdf.setFont('helvetica', 'normal');
-        pdf.setFontSize(6.5);
-        data.denials.slice(0, 60).forEach((d) => {
-          if (y > H - 25) {
-            drawFooter(4, totalPages);
-            pdf.addPage();
-            y = drawHeader('Denial Log (cont.)');
-          }
-          pdf.setTextColor(148, 163, 184);
-          pdf.text(d.time || '', dCols[0], y);
-          pdf.setTextColor(30, 41, 67);
-          pdf.setFont('helvetica', 'bold');
-          pdf.text((d.user || '').substring(0, 12), dCols[1], y);
-          pdf.setFont('helvetica', 'normal');
-          pdf.text((d.host || '').substring(0, 12), dCols[2], y);
-          pdf.setTextColor(24, 113, 189);
-          pdf.text((d.feature || '').substring(0, 14), dCols[3], y);
-          pdf.setTextColor(239, 68, 68);
-          pdf.text((d.reason || '').substring(0, 25), dCols[4], y);
-          y += 4.5;
-        });
-
-        drawFooter(4, totalPages);
-      }
-
-      pdf.save(`SNL-Executive-Report-${data.metadata.serverName || 'Export'}.pdf`);
+      const pdf = buildExecutivePdf(data, { alerts, comparison });
+      pdf.save(executivePdfFileName(data));
     } catch (err) {
       console.error('PDF generation failed:', err);
       alert('PDF generation failed: ' + (err as Error).message);
@@ -979,29 +926,126 @@ export function App() {
 
             {/* Right: Upload */}
             <div>
-              <label className="group relative cursor-pointer block">
+              <label
+                className="group relative cursor-pointer block"
+                onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleFileDrop}
+              >
                 <div className={`
                   border border-dashed p-12 text-center transition-all duration-200
-                  ${isDarkMode ? 'border-slate-700 bg-[#111827] hover:border-[#1871bd] hover:bg-[#111827]/80' : 'border-slate-300 bg-white hover:border-[#1871bd]'}
+                  ${isDragging ? 'border-[#1871bd] bg-[#1871bd]/5' : isDarkMode ? 'border-slate-700 bg-[#111827] hover:border-[#1871bd] hover:bg-[#111827]/80' : 'border-slate-300 bg-white hover:border-[#1871bd]'}
                 `}>
                   <Upload size={28} className="text-[#1871bd] mx-auto mb-4 group-hover:translate-y-[-2px] transition-transform" />
-                  <span className="text-lg font-semibold block mb-1">Select License Log</span>
-                  <p className="text-sm text-slate-500">Drop your <span className="font-mono-brand text-xs text-slate-400">lmgrd.log</span> file here</p>
-                  <input type="file" className="hidden" onChange={handleFileUpload} accept=".log,.txt" />
+                  <span className="text-lg font-semibold block mb-1">Select License Logs</span>
+                  <p className="text-sm text-slate-500">Drop your <span className="font-mono-brand text-xs text-slate-400">lmgrd.log</span> files here</p>
+                  <p className="text-[11px] text-slate-600 mt-1">Rotated logs (<span className="font-mono-brand">.1</span>, <span className="font-mono-brand">.2</span>, …) are merged into one timeline</p>
+                  <input type="file" multiple className="hidden" onChange={handleFileUpload} accept=".log,.txt,.1,.2,.3,.4,.5,.6,.7,.8,.9" />
                 </div>
                 {isParsing && (
-                  <div className="absolute inset-0 bg-[#0c1220]/90 flex items-center justify-center flex-col gap-3">
+                  <div className="absolute inset-0 bg-[#0c1220]/90 flex items-center justify-center flex-col gap-3 px-8" onClick={e => e.preventDefault()}>
                     <div className="w-8 h-8 border-2 border-[#1871bd] border-t-transparent rounded-full animate-spin" />
                     <p className="text-sm font-medium text-slate-300">Parsing...</p>
+                    {parseProgress && (
+                      <>
+                        <div className="w-full h-1.5 bg-slate-800 overflow-hidden">
+                          <div className="h-full bg-[#1871bd] transition-all" style={{ width: `${(parseProgress.bytesRead / (parseProgress.totalBytes || 1)) * 100}%` }} />
+                        </div>
+                        <p className="text-[11px] text-slate-500 font-mono-brand text-center">
+                          {(parseProgress.bytesRead / 1048576).toFixed(1)} / {(parseProgress.totalBytes / 1048576).toFixed(1)} MB · {parseProgress.lines.toLocaleString()} lines · {parseProgress.sessions.toLocaleString()} sessions
+                        </p>
+                        <p className="text-[10px] text-slate-600 font-mono-brand truncate max-w-full">{parseProgress.file}</p>
+                      </>
+                    )}
+                    {parseWorkerRef.current && (
+                      <button onClick={e => { e.preventDefault(); cancelParsing(); }} className="text-[11px] text-slate-500 hover:text-white px-3 py-1 border border-slate-700 hover:border-slate-500 transition-colors">
+                        Cancel
+                      </button>
+                    )}
                   </div>
                 )}
               </label>
               <button
-                onClick={() => { setIsParsing(true); setTimeout(() => { setData(parseLogFile(generateDemoLog())); setLicenseSeats({ solidworks: 5, swpremium: 4, swsimulation: 2, swepdm_cadeditorandweb: 5, swepdm_viewer: 15, swinspection_std: 5 }); setLicenseCosts({ solidworks: 1800, swpremium: 2400, swsimulation: 3600, swepdm_cadeditorandweb: 1200, swepdm_viewer: 450, swinspection_std: 1500 }); setIsParsing(false); }, 300); }}
+                onClick={() => { setIsParsing(true); setTimeout(() => { setWorkspaceId(null); setData(parseLogFile(generateDemoLog())); setLicenseSeats({ solidworks: 5, swpremium: 4, swsimulation: 2, swepdm_cadeditorandweb: 5, swepdm_viewer: 15, swinspection_std: 5 }); setLicenseCosts({ solidworks: 1800, swpremium: 2400, swsimulation: 3600, swepdm_cadeditorandweb: 1200, swepdm_viewer: 450, swinspection_std: 1500 }); setIsParsing(false); }, 300); }}
                 className="mt-3 w-full py-2.5 border border-slate-700 text-xs text-slate-500 hover:text-[#46b6e3] hover:border-[#1871bd]/50 transition-colors"
               >
                 No log file handy? <span className="text-[#1871bd]">Try with sample data →</span>
               </button>
+
+              <label className="mt-2 w-full py-2.5 border border-slate-800 text-xs text-slate-500 hover:text-[#46b6e3] hover:border-[#1871bd]/50 transition-colors flex items-center justify-center gap-1.5 cursor-pointer">
+                <FileText size={12} /> Open a shared workspace bundle <span className="font-mono-brand text-slate-600">(.snl.json)</span>
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleBundleUpload} />
+              </label>
+
+              {/* Live mode: follow lmgrd.log through the companion running on the license server */}
+              <div className="mt-2 border border-slate-800 px-3 py-2.5">
+                <p className="text-xs text-slate-500 flex items-center gap-1.5 mb-2">
+                  <Radio size={12} /> Follow a live log <span className="text-slate-600">— run <span className="font-mono-brand">npm run companion -- --log lmgrd.log</span> on the server</span>
+                </p>
+                {liveStatus === 'closed' ? (
+                  <div className="flex gap-2">
+                    <input
+                      value={liveUrl}
+                      onChange={e => setLiveUrl(e.target.value)}
+                      className="flex-1 min-w-0 bg-[#0c1220] border border-slate-800 px-2 py-1.5 text-xs font-mono-brand text-slate-300 focus:outline-none focus:border-[#1871bd]"
+                    />
+                    <button onClick={() => startLive(true)} disabled={!liveUrl.trim()} className="px-3 py-1.5 bg-[#1871bd] hover:bg-[#1565a0] disabled:opacity-40 text-white text-xs font-medium transition-colors">
+                      Connect
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className={liveStatus === 'open' ? 'text-emerald-400' : 'text-yellow-400'}>
+                      {liveStatus === 'open' && !liveState ? 'Connected — replaying the log…' : LIVE_STATUS_LABELS[liveStatus]}
+                    </span>
+                    <span className="flex gap-2">
+                      {liveState && <button onClick={loadLiveLog} className="text-[#1871bd] hover:text-[#46b6e3]">Open dashboard</button>}
+                      <button onClick={stopLive} className="text-slate-500 hover:text-white">Disconnect</button>
+                    </span>
+                  </div>
+                )}
+                {liveNotice && <p className="mt-1.5 text-[11px] text-yellow-400/80">{liveNotice}</p>}
+              </div>
+
+              {/* Recent analyses, stored in this browser only */}
+              {recentWorkspaces.length > 0 && (
+                <div className="mt-8">
+                  <p className="text-[10px] text-slate-600 uppercase tracking-[0.2em] font-medium mb-2">Recent analyses</p>
+                  <div className="border border-slate-800 divide-y divide-slate-800">
+                    {recentWorkspaces.map(w => (
+                      <div key={w.id} className="flex items-center gap-3 px-4 py-2.5 bg-[#111827] hover:bg-[#1a2332] group">
+                        <Database size={14} className="text-slate-600 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          {renamingWorkspace?.id === w.id ? (
+                            <input
+                              autoFocus
+                              value={renamingWorkspace.name}
+                              onChange={e => setRenamingWorkspace({ id: w.id, name: e.target.value })}
+                              onKeyDown={e => {
+                                if (e.key === 'Enter') endRename(true);
+                                if (e.key === 'Escape') endRename(false);
+                              }}
+                              onBlur={() => endRename(true)}
+                              className="w-full bg-[#0c1220] border border-[#1871bd] text-sm text-white px-2 py-0.5 focus:outline-none"
+                            />
+                          ) : (
+                            <button onClick={() => openWorkspace(w)} className="block w-full text-left text-sm font-medium text-slate-200 hover:text-[#46b6e3] truncate">{w.name}</button>
+                          )}
+                          <p className="text-[11px] text-slate-600 truncate">
+                            {w.serverName} · {w.startDate}{w.endDate && w.endDate !== w.startDate ? ` – ${w.endDate}` : ''} · {w.sessions.toLocaleString()} sessions · saved {new Date(w.updatedAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <button onClick={() => setRenamingWorkspace({ id: w.id, name: w.name })} title="Rename" className="text-[11px] text-slate-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity">Rename</button>
+                        <button onClick={() => removeWorkspace(w)} title="Delete" className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <Trash2 size={13} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-600 mt-2">Kept in this browser's storage — never uploaded.</p>
+                </div>
+              )}
+              {workspaceNotice && <p className="mt-3 text-[11px] text-yellow-400/80">{workspaceNotice}</p>}
             </div>
           </div>
 
@@ -1046,8 +1090,12 @@ export function App() {
             {[
               { id: 'overview', icon: LayoutDashboard, label: 'Overview' },
               { id: 'licenses', icon: Activity, label: 'License Inventory' },
+              { id: 'entitlements', icon: CalendarClock, label: 'Entitlements' },
               { id: 'users', icon: Users, label: 'User Insights' },
               { id: 'denials', icon: ShieldAlert, label: 'Denial Logs' },
+              { id: 'borrowing', icon: Plane, label: 'Borrowing' },
+              { id: 'compare', icon: ArrowLeftRight, label: 'Compare' },
+              { id: 'alerts', icon: Bell, label: 'Alerts' },
               { id: 'errors', icon: AlertTriangle, label: 'System Errors' },
               { id: 'reports', icon: FileDown, label: 'Exports' },
             { id: 'cost', icon: DollarSign, label: 'Cost & Right-Sizing' },
@@ -1067,7 +1115,7 @@ export function App() {
               </button>
             ))}
             <div className="border-t border-slate-800 pt-2 mt-2 flex gap-2">
-              <button onClick={() => setData(null)} className="flex-1 px-3 py-2 bg-slate-800 text-xs font-medium text-slate-400">Change Log</button>
+              <button onClick={closeWorkspace} className="flex-1 px-3 py-2 bg-slate-800 text-xs font-medium text-slate-400">Change Log</button>
               <button onClick={() => { downloadMasterPDF(); setMobileNavOpen(false); }} className="flex-1 px-3 py-2 bg-[#1871bd] text-white text-xs font-medium">Export PDF</button>
             </div>
           </div>
@@ -1085,8 +1133,12 @@ export function App() {
           {[
             { id: 'overview', icon: LayoutDashboard, label: 'Overview' },
             { id: 'licenses', icon: Activity, label: 'Licenses' },
+            { id: 'entitlements', icon: CalendarClock, label: 'Entitlements' },
             { id: 'users', icon: Users, label: 'Users' },
             { id: 'denials', icon: ShieldAlert, label: 'Denials' },
+            { id: 'borrowing', icon: Plane, label: 'Borrowing' },
+            { id: 'compare', icon: ArrowLeftRight, label: 'Compare' },
+            { id: 'alerts', icon: Bell, label: 'Alerts' },
             { id: 'errors', icon: AlertTriangle, label: 'Errors' },
             { id: 'reports', icon: FileDown, label: 'Exports' },
             { id: 'cost', icon: DollarSign, label: 'Cost & Right-Sizing' },
@@ -1141,6 +1193,20 @@ export function App() {
               </div>
             </div>
           </div>
+
+          {data.metadata.sources && data.metadata.sources.length > 0 && (
+            <div className="border-t border-slate-800 pt-4">
+              <span className="text-[10px] text-slate-600 uppercase tracking-wider">Sources</span>
+              <div className="mt-2 space-y-2 max-h-40 overflow-y-auto font-mono-brand text-[10px]">
+                {data.metadata.sources.map(src => (
+                  <div key={src.name} title={src.duplicateLines > 0 ? `${src.duplicateLines} overlapping lines skipped` : undefined}>
+                    <p className="text-slate-400 truncate">{src.name}</p>
+                    <p className="text-slate-600">{src.startDate ? `${src.startDate} – ${src.endDate}` : 'no date anchor'}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </aside>
 
@@ -1152,20 +1218,34 @@ export function App() {
             <h1 className="text-2xl font-bold tracking-tight mb-1">
               {activeTab === 'overview' && 'Overview'}
               {activeTab === 'licenses' && 'License Inventory'}
+              {activeTab === 'entitlements' && 'License Entitlements'}
               {activeTab === 'users' && 'User Analytics'}
               {activeTab === 'denials' && 'Denial Intelligence'}
+              {activeTab === 'borrowing' && 'Borrowed Licenses'}
+              {activeTab === 'compare' && 'Period Comparison'}
+              {activeTab === 'alerts' && 'Alerts'}
               {activeTab === 'errors' && 'System Events'}
               {activeTab === 'reports' && 'Reports & Exports'}
               {activeTab === 'cost' && 'Cost Analysis & Right-Sizing'}
               {activeTab === 'options' && 'Options File Builder'}
             </h1>
             <p className="text-xs text-slate-500 font-mono-brand">
-              {data.metadata.serverName} · {data.metadata.startDate || 'unknown date'} · {data.entries.length.toLocaleString()} lines parsed
+              {data.metadata.serverName} · {data.metadata.startDate ? (data.metadata.endDate && data.metadata.endDate !== data.metadata.startDate ? `${data.metadata.startDate} – ${data.metadata.endDate}` : data.metadata.startDate) : 'unknown date'} · {data.entries.length.toLocaleString()} lines parsed{(data.metadata.sources?.length || 0) > 1 && ` · ${data.metadata.sources!.length} files`}
             </p>
+            {workspaceNotice && <p className="mt-1 text-[11px] text-yellow-400/80">{workspaceNotice}</p>}
           </div>
           <div className="flex items-center gap-2">
+            {liveStatus === 'closed' && (
+              <button
+                onClick={() => { setActiveTab('overview'); startLive(false); }}
+                title={`Connect to the log-tail companion at ${liveUrl}`}
+                className="px-4 py-2 text-xs font-medium text-slate-500 hover:text-white border border-slate-800 hover:border-slate-600 transition-all flex items-center gap-2"
+              >
+                <Radio size={12} /> Go Live
+              </button>
+            )}
             <button 
-              onClick={() => setData(null)}
+              onClick={closeWorkspace}
               className="px-4 py-2 text-xs font-medium text-slate-500 hover:text-white border border-slate-800 hover:border-slate-600 transition-all"
             >
               Change Log
@@ -1183,52 +1263,215 @@ export function App() {
         <div className="mb-6 pb-4 border-b border-slate-800/50">
           <div className="flex flex-wrap items-center gap-3">
             <Filter size={14} className="text-slate-600 shrink-0" />
+            {(data.metadata.servers?.length || 0) > 1 && (
+              <div className="relative group">
+                <select
+                  value=""
+                  onChange={e => { addFilterValue('servers', e.target.value); e.target.value = ''; }}
+                  className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none min-w-[140px] cursor-pointer"
+                >
+                  <option value="">+ Add server</option>
+                  {data.metadata.servers!.map(srv => srv.name).filter(n => !filters.servers.includes(n)).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+            )}
             <div className="relative group">
               <select
                 value=""
-                onChange={e => { if (e.target.value && !filterUsers.includes(e.target.value)) setFilterUsers([...filterUsers, e.target.value]); e.target.value = ''; }}
+                onChange={e => { addFilterValue('users', e.target.value); e.target.value = ''; }}
                 className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none min-w-[140px] cursor-pointer"
               >
                 <option value="">+ Add user</option>
-                {allUsers.filter(u => !filterUsers.includes(u)).map(u => <option key={u} value={u}>{u}</option>)}
+                {allUsers.filter(u => !filters.users.includes(u)).map(u => <option key={u} value={u}>{u}</option>)}
               </select>
             </div>
             <div className="relative group">
               <select
                 value=""
-                onChange={e => { if (e.target.value && !filterFeatures.includes(e.target.value)) setFilterFeatures([...filterFeatures, e.target.value]); e.target.value = ''; }}
+                onChange={e => { addFilterValue('features', e.target.value); e.target.value = ''; }}
                 className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none min-w-[160px] cursor-pointer"
               >
                 <option value="">+ Add feature</option>
-                {allFeatures.filter(f => !filterFeatures.includes(f)).map(f => <option key={f} value={f}>{f}</option>)}
+                {allFeatures.filter(f => !filters.features.includes(f)).map(f => <option key={f} value={f}>{f}</option>)}
               </select>
             </div>
-            {(filterUsers.length > 0 || filterFeatures.length > 0) && (
+            <div className="relative group">
+              <select
+                value=""
+                onChange={e => { addFilterValue('hosts', e.target.value); e.target.value = ''; }}
+                className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none min-w-[140px] cursor-pointer"
+              >
+                <option value="">+ Add host</option>
+                {allHosts.filter(h => !filters.hosts.includes(h)).map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={hostPatternInput}
+              placeholder="Host pattern, e.g. REMOTE-*"
+              onChange={e => setHostPatternInput(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && hostPatternInput.trim()) { addFilterValue('hostPatterns', hostPatternInput.trim()); setHostPatternInput(''); } }}
+              className="bg-[#111827] border border-slate-800 text-xs text-slate-300 px-3 py-1.5 w-44 font-mono-brand focus:border-[#1871bd] focus:outline-none placeholder:text-slate-600 placeholder:font-sans"
+            />
+            {allReasons.length > 0 && (
+              <div className="relative group">
+                <select
+                  value=""
+                  onChange={e => { addFilterValue('reasons', e.target.value); e.target.value = ''; }}
+                  className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none max-w-[200px] cursor-pointer"
+                >
+                  <option value="">+ Add denial reason</option>
+                  {allReasons.filter(r => !filters.reasons.includes(r)).map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="flex items-center gap-1.5">
+              <input type="date" value={filters.dateFrom} max={filters.dateTo || undefined} onChange={e => updateFilters({ dateFrom: e.target.value })}
+                className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-2 py-1 focus:border-[#1871bd] focus:outline-none [color-scheme:dark]" />
+              <span className="text-[11px] text-slate-600">to</span>
+              <input type="date" value={filters.dateTo} min={filters.dateFrom || undefined} onChange={e => updateFilters({ dateTo: e.target.value })}
+                className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-2 py-1 focus:border-[#1871bd] focus:outline-none [color-scheme:dark]" />
+            </div>
+            <select
+              value=""
+              onChange={e => { if (e.target.value) applyDatePreset(e.target.value as DatePreset); }}
+              className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none cursor-pointer"
+            >
+              <option value="">Date preset…</option>
+              {DATE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <select
+              value={fiscalStartMonth}
+              onChange={e => setFiscalStartMonth(Number(e.target.value))}
+              title="Fiscal year start month (for quarter presets)"
+              className="bg-[#111827] border border-slate-800 text-xs text-slate-500 px-2 py-1.5 focus:border-[#1871bd] focus:outline-none cursor-pointer"
+            >
+              {['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'].map((m, i) => <option key={m} value={i + 1}>FY {m}</option>)}
+            </select>
+            <button
+              onClick={() => updateFilters({ weekdaysOnly: !filters.weekdaysOnly })}
+              className={`text-[11px] px-2 py-1 border transition-all ${filters.weekdaysOnly ? 'border-[#1871bd] text-[#46b6e3] bg-[#1871bd]/10' : 'border-slate-800 text-slate-500 hover:border-slate-600'}`}
+            >
+              Weekdays only
+            </button>
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => updateFilters({ hours: filters.hours ? null : { from: 8, to: 18 } })}
+                className={`text-[11px] px-2 py-1 border transition-all ${filters.hours ? 'border-[#1871bd] text-[#46b6e3] bg-[#1871bd]/10' : 'border-slate-800 text-slate-500 hover:border-slate-600'}`}
+              >
+                Working hours
+              </button>
+              {filters.hours && (
+                <>
+                  <select value={filters.hours.from} onChange={e => updateFilters({ hours: { ...filters.hours!, from: Number(e.target.value) } })}
+                    className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-1 py-1 focus:border-[#1871bd] focus:outline-none">
+                    {Array.from({ length: 24 }, (_, h) => <option key={h} value={h} disabled={h >= filters.hours!.to}>{String(h).padStart(2, '0')}:00</option>)}
+                  </select>
+                  <span className="text-[11px] text-slate-600">–</span>
+                  <select value={filters.hours.to} onChange={e => updateFilters({ hours: { ...filters.hours!, to: Number(e.target.value) } })}
+                    className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-1 py-1 focus:border-[#1871bd] focus:outline-none">
+                    {Array.from({ length: 24 }, (_, h) => h + 1).map(h => <option key={h} value={h} disabled={h <= filters.hours!.from}>{String(h).padStart(2, '0')}:00</option>)}
+                  </select>
+                </>
+              )}
+            </div>
+            {/* Saved presets */}
+            <div className="flex items-center gap-1.5">
+              {filterPresets.length > 0 && (
+                <select
+                  value=""
+                  onChange={e => { const preset = filterPresets.find(p => p.name === e.target.value); if (preset) setFilters(preset.filters); e.target.value = ''; }}
+                  className="bg-[#111827] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none cursor-pointer"
+                >
+                  <option value="">Saved filters…</option>
+                  {filterPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+              )}
+              {activePreset && (
+                <button
+                  onClick={() => deleteFilterPreset(activePreset.name)}
+                  title={`Delete saved preset "${activePreset.name}"`}
+                  className="text-[11px] text-slate-500 hover:text-red-400 px-2 py-1 border border-slate-800 hover:border-red-500/40 transition-all flex items-center gap-1"
+                >
+                  <Trash2 size={12} /> {activePreset.name}
+                </button>
+              )}
+              {presetNameInput !== null ? (
+                <input
+                  autoFocus
+                  type="text"
+                  value={presetNameInput}
+                  placeholder="Preset name, Enter to save"
+                  onChange={e => setPresetNameInput(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && presetNameInput.trim()) { saveFilterPreset(presetNameInput.trim()); setPresetNameInput(null); }
+                    if (e.key === 'Escape') setPresetNameInput(null);
+                  }}
+                  onBlur={() => setPresetNameInput(null)}
+                  className="bg-[#111827] border border-[#1871bd] text-xs text-slate-300 px-3 py-1.5 w-48 focus:outline-none placeholder:text-slate-600"
+                />
+              ) : filtersActive && !activePreset && (
+                <button
+                  onClick={() => setPresetNameInput('')}
+                  className="text-[11px] text-slate-500 hover:text-white px-2 py-1 border border-slate-800 hover:border-slate-600 transition-all flex items-center gap-1"
+                >
+                  <Plus size={12} /> Save preset
+                </button>
+              )}
+            </div>
+            {filtersActive && (
               <button
-                onClick={() => { setFilterUsers([]); setFilterFeatures([]); }}
+                onClick={clearFilters}
                 className="text-[11px] text-slate-500 hover:text-white px-2 py-1 border border-slate-800 hover:border-slate-600 transition-all flex items-center gap-1"
               >
                 <X size={12} /> Clear all
               </button>
             )}
-            {(filterUsers.length > 0 || filterFeatures.length > 0) && d && (
+            {filtersActive && d && (
               <span className="text-[11px] text-slate-600 ml-auto">
                 {d.sessions.length.toLocaleString()} sessions · {d.denials.length} denials
               </span>
             )}
           </div>
-          {/* Active filter chips */}
-          {(filterUsers.length > 0 || filterFeatures.length > 0) && (
-            <div className="flex flex-wrap gap-1.5 mt-2 ml-7">
-              {filterUsers.map(u => (
-                <button key={u} onClick={() => setFilterUsers(filterUsers.filter(x => x !== u))} className="flex items-center gap-1 px-2 py-0.5 bg-[#1871bd]/10 border border-[#1871bd]/30 text-[#46b6e3] text-[11px] hover:bg-[#1871bd]/20 transition-colors">
-                  <Users size={10} /> {u} <X size={10} className="opacity-50 hover:opacity-100" />
+          {/* Active filter chips; the mode toggle in front of each group flips only/except */}
+          {filtersActive && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-2 ml-7">
+              {(filters.dateFrom || filters.dateTo) && (
+                <button onClick={() => updateFilters({ dateFrom: '', dateTo: '' })} className="flex items-center gap-1 px-2 py-0.5 bg-amber-500/10 border border-amber-500/30 text-amber-400 text-[11px] hover:bg-amber-500/20 transition-colors">
+                  <Clock size={10} /> {filters.dateFrom || '…'} → {filters.dateTo || '…'} <X size={10} className="opacity-50 hover:opacity-100" />
                 </button>
-              ))}
-              {filterFeatures.map(f => (
-                <button key={f} onClick={() => setFilterFeatures(filterFeatures.filter(x => x !== f))} className="flex items-center gap-1 px-2 py-0.5 bg-emerald-500/10 border border-emerald-500/30 text-emerald-400 text-[11px] hover:bg-emerald-500/20 transition-colors">
-                  <Activity size={10} /> {f} <X size={10} className="opacity-50 hover:opacity-100" />
+              )}
+              {filters.weekdaysOnly && (
+                <button onClick={() => updateFilters({ weekdaysOnly: false })} className="flex items-center gap-1 px-2 py-0.5 bg-amber-500/10 border border-amber-500/30 text-amber-400 text-[11px] hover:bg-amber-500/20 transition-colors">
+                  <Clock size={10} /> Mon–Fri <X size={10} className="opacity-50 hover:opacity-100" />
+                </button>
+              )}
+              {filters.hours && (
+                <button onClick={() => updateFilters({ hours: null })} className="flex items-center gap-1 px-2 py-0.5 bg-amber-500/10 border border-amber-500/30 text-amber-400 text-[11px] hover:bg-amber-500/20 transition-colors">
+                  <Clock size={10} /> {String(filters.hours.from).padStart(2, '0')}:00–{String(filters.hours.to).padStart(2, '0')}:00 <X size={10} className="opacity-50 hover:opacity-100" />
                 </button>
+              )}
+              {([
+                { dimension: 'servers', values: [{ key: 'servers', list: filters.servers }], icon: Cpu, style: 'bg-sky-500/10 border-sky-500/30 text-sky-400 hover:bg-sky-500/20' },
+                { dimension: 'users', values: [{ key: 'users', list: filters.users }], icon: Users, style: 'bg-[#1871bd]/10 border-[#1871bd]/30 text-[#46b6e3] hover:bg-[#1871bd]/20' },
+                { dimension: 'features', values: [{ key: 'features', list: filters.features }], icon: Activity, style: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/20' },
+                { dimension: 'hosts', values: [{ key: 'hosts', list: filters.hosts }, { key: 'hostPatterns', list: filters.hostPatterns }], icon: Server, style: 'bg-violet-500/10 border-violet-500/30 text-violet-400 hover:bg-violet-500/20' },
+                { dimension: 'reasons', values: [{ key: 'reasons', list: filters.reasons }], icon: ShieldAlert, style: 'bg-red-500/10 border-red-500/30 text-red-400 hover:bg-red-500/20' },
+              ] as const).filter(g => g.values.some(v => v.list.length > 0)).map(g => (
+                <React.Fragment key={g.dimension}>
+                  <button
+                    onClick={() => toggleFilterMode(g.dimension)}
+                    title="Switch between including and excluding these"
+                    className={`px-1.5 py-0.5 text-[10px] uppercase tracking-wider font-semibold border ${filters.modes[g.dimension] === 'exclude' ? 'border-red-500/40 text-red-400' : 'border-slate-700 text-slate-500'} hover:text-white transition-colors`}
+                  >
+                    {filters.modes[g.dimension] === 'exclude' ? 'Except' : 'Only'}
+                  </button>
+                  {g.values.flatMap(v => v.list.map(value => (
+                    <button key={`${v.key}:${value}`} onClick={() => removeFilterValue(v.key, value)} className={`flex items-center gap-1 px-2 py-0.5 border text-[11px] transition-colors ${g.style} ${filters.modes[g.dimension] === 'exclude' ? 'line-through decoration-1' : ''}`}>
+                      <g.icon size={10} /> <span className={v.key === 'hostPatterns' ? 'font-mono-brand' : ''}>{value}</span> <X size={10} className="opacity-50 hover:opacity-100" />
+                    </button>
+                  )))}
+                </React.Fragment>
               ))}
             </div>
           )}
@@ -1237,6 +1480,13 @@ export function App() {
         <div id="capture-area" ref={reportRef} className="pb-20 space-y-8">
           {activeTab === 'overview' && (
             <>
+              {liveStatus !== 'closed' && (
+                <LivePanel
+                  state={liveState} status={liveStatus} file={liveRef.current?.file() || ''} notice={liveNotice}
+                  licenseSeats={licenseSeats} onLoad={loadLiveLog} onDisconnect={stopLive}
+                />
+              )}
+
               <div className="grid grid-cols-2 lg:grid-cols-4 gap-px bg-slate-800">
                 <StatCard title="Sessions" value={d!.sessions.length.toLocaleString()} icon={Clock} color={COLORS.brandMid} />
                 <StatCard title="Users" value={Object.keys(d!.userStats).length} icon={Users} color={COLORS.brandBlue} />
@@ -1244,7 +1494,7 @@ export function App() {
                 <StatCard title="Avg Duration" value={formatDuration(d!.sessions.reduce((acc, s) => acc + (s.duration || 0), 0) / (d!.sessions.length || 1))} icon={Activity} color={COLORS.success} />
               </div>
 
-              <ExecutiveSummary data={d!} />
+              <ExecutiveSummary data={d!} alerts={alerts} onShowAlerts={() => setActiveTab('alerts')} />
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-px bg-slate-800">
                 <div className="bg-[#111827] p-6">
@@ -1350,6 +1600,150 @@ export function App() {
                   </ResponsiveContainer>
                 </div>
               </div>
+
+              {/* Per-server breakdown and pooling, for multi-server workspaces */}
+              {serverPooling && (() => {
+                const pooling = serverPooling;
+                const totalSaving = pooling.features.reduce((sum, f) => sum + f.saving, 0);
+                return (
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-px bg-slate-800">
+                    <div className="bg-[#111827]">
+                      <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                        <h3 className="text-sm font-semibold text-slate-300">Servers</h3>
+                        <p className="text-[11px] text-slate-500">Activity per license server in this workspace</p>
+                      </div>
+                      <table className="w-full text-left">
+                        <thead className="bg-[#0c1220]">
+                          <tr>
+                            {['Server', 'Sessions', 'Users', 'Denials', 'Seat Hours', 'Peak Util.'].map(h => (
+                              <th key={h} className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800/50">
+                          {data.metadata.servers!.map(srv => {
+                            const serverSessions = d!.sessions.filter(s => s.server === srv.name);
+                            const serverDenials = d!.denials.filter(e => e.server === srv.name).length;
+                            const rate = serverSessions.length + serverDenials > 0 ? (serverDenials / (serverSessions.length + serverDenials)) * 100 : 0;
+                            const utilization = serverUtilization(srv.name);
+                            return (
+                              <tr key={srv.name} className="hover:bg-[#1a2332]">
+                                <td className="px-5 py-3">
+                                  <p className="text-sm font-semibold">{srv.name}</p>
+                                  <p className="text-[10px] text-slate-600 font-mono-brand">v{srv.flexVersion} · {srv.startDate} – {srv.endDate}</p>
+                                </td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{serverSessions.length.toLocaleString()}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{new Set(serverSessions.map(s => s.user)).size}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">
+                                  <span className={serverDenials > 0 ? 'text-red-400' : 'text-slate-500'}>{serverDenials}</span>
+                                  <span className="text-[10px] text-slate-600"> ({rate.toFixed(1)}%)</span>
+                                </td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{(serverSessions.reduce((sum, s) => sum + (s.duration || 0), 0) / 60).toFixed(0)}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">
+                                  {utilization === null ? <span className="text-slate-600">—</span> : <span className={utilization >= 1 ? 'text-red-400' : utilization >= 0.8 ? 'text-yellow-400' : 'text-emerald-400'}>{Math.round(utilization * 100)}%</span>}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    <div className="bg-[#111827]">
+                      <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220] flex items-start justify-between gap-4">
+                        <div>
+                          <h3 className="text-sm font-semibold text-slate-300">Pooled vs Per-Server Peaks</h3>
+                          <p className="text-[11px] text-slate-500">Peak on each server against the seats it serves (enter them per server), vs one shared pool</p>
+                        </div>
+                        {totalSaving > 0 && <span className="text-[11px] text-emerald-400 shrink-0">Consolidating frees <span className="font-mono-brand font-bold">{totalSaving}</span> seat{totalSaving === 1 ? '' : 's'}</span>}
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                          <thead className="bg-[#0c1220]">
+                            <tr>
+                              <th className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Feature</th>
+                              {pooling.servers.map(srv => <th key={srv} className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{srv}</th>)}
+                              <th className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Sum</th>
+                              <th className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Pooled</th>
+                              <th className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Seats</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50">
+                            {pooling.features.map(f => (
+                              <tr key={f.feature} className="hover:bg-[#1a2332]">
+                                <td className="px-4 py-2.5 text-xs font-mono-brand text-[#46b6e3]">{f.feature}</td>
+                                {pooling.servers.map(srv => {
+                                  const seats = serverSeats[srv]?.[f.feature] || 0;
+                                  return (
+                                    <td key={srv} className="px-4 py-2.5 text-xs font-mono-brand whitespace-nowrap">
+                                      {f.peaks[srv]} <span className="text-slate-600">/</span>{' '}
+                                      <input type="number" min={0} value={seats || ''} placeholder="?"
+                                        onChange={e => setServerSeats(prev => ({ ...prev, [srv]: { ...prev[srv], [f.feature]: Number(e.target.value) } }))}
+                                        className="w-12 bg-[#0c1220] border border-slate-800 text-white text-[11px] px-1.5 py-0.5 font-mono-brand focus:border-[#1871bd] focus:outline-none placeholder:text-slate-700" />
+                                      {seats > 0 && <span className={`ml-1.5 ${f.peaks[srv] >= seats ? 'text-red-400' : 'text-slate-500'}`}>{Math.round((f.peaks[srv] / seats) * 100)}%</span>}
+                                    </td>
+                                  );
+                                })}
+                                <td className="px-4 py-2.5 text-xs font-mono-brand">{f.sumOfPeaks}</td>
+                                <td className="px-4 py-2.5 text-xs font-mono-brand">
+                                  {f.pooledPeak}{f.saving > 0 && <span className="text-emerald-400"> (−{f.saving})</span>}
+                                </td>
+                                <td className="px-4 py-2.5 text-xs font-mono-brand text-slate-400">
+                                  {licenseSeats[f.feature] ? <>{licenseSeats[f.feature]} <span className="text-slate-600">· {Math.round((f.pooledPeak / licenseSeats[f.feature]) * 100)}% pooled</span></> : '—'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {/* Seats still held when the log ends */}
+              {(() => {
+                const active = d!.sessions.filter(s => s.endReason === 'active-at-log-end').sort((a, b) => a.start.getTime() - b.start.getTime());
+                return (
+                  <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                    <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220] flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-300">Active at Log End</h3>
+                        <p className="text-[11px] text-slate-500">Checkouts with no check-in before the log ends — who holds seats right now</p>
+                      </div>
+                      <span className="text-lg font-bold font-mono-brand text-white">{active.length}</span>
+                    </div>
+                    {active.length > 0 ? (
+                      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                        <table className="w-full text-left">
+                          <thead className="bg-[#0c1220]">
+                            <tr>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">User</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Host</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Feature</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Checked Out</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Held For</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50">
+                            {active.map((s, i) => (
+                              <tr key={i} className="hover:bg-[#1a2332]">
+                                <td className="px-5 py-3 text-sm font-semibold">{s.user}</td>
+                                <td className="px-5 py-3 text-xs font-mono-brand text-slate-400">{s.host}</td>
+                                <td className="px-5 py-3 text-xs font-mono-brand text-[#46b6e3]">{s.feature}</td>
+                                <td className="px-5 py-3 text-xs text-slate-400">{s.start.toLocaleString()}</td>
+                                <td className="px-5 py-3 text-xs font-mono-brand">{formatDuration(s.duration || 0)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <p className="px-5 py-4 text-xs text-slate-500">Every checkout in the log was returned.</p>
+                    )}
+                  </div>
+                );
+              })()}
             </>
           )}
 
@@ -1393,6 +1787,218 @@ export function App() {
                 </div>
               </div>
 
+              {/* Current holders from an lmstat -a snapshot, reconciled with the log */}
+              {(() => {
+                const importButton = (
+                  <label className="shrink-0 cursor-pointer px-3 py-2 border border-dashed border-[#1871bd]/50 text-[11px] text-[#1871bd] hover:text-[#46b6e3] hover:border-[#46b6e3]/50 transition-colors flex items-center gap-1.5">
+                    <Upload size={14} /> {lmstatImport ? 'Replace snapshot' : 'Import lmstat -a'}
+                    <input type="file" accept="*/*" className="hidden" onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (!file) return;
+                      const reader = new FileReader();
+                      reader.onload = () => importLmstat(file.name, reader.result as string);
+                      reader.readAsText(file);
+                      e.target.value = '';
+                    }} />
+                  </label>
+                );
+                const header = (
+                  <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220] flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-300">Current Holders (lmstat)</h3>
+                      <p className="text-[11px] text-slate-500">Who the license server says holds what, against the checkouts still open where the log ends</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {lmstatImport && (
+                        <button onClick={() => setLmstatImport(undefined)} className="px-3 py-2 text-[11px] text-slate-500 hover:text-red-400 flex items-center gap-1.5">
+                          <Trash2 size={13} /> Remove
+                        </button>
+                      )}
+                      {importButton}
+                    </div>
+                  </div>
+                );
+                if (!lmstatSnapshot || !lmstatReconciliation) return (
+                  <div className="bg-[#111827] border border-slate-800">
+                    {header}
+                    <div className="px-6 py-5 text-xs text-slate-500">
+                      Save <span className="font-mono-brand text-slate-400">lmutil lmstat -a -c 25734@{data?.metadata.serverName || 'server'} &gt; lmstat.txt</span> on the license server and import it. Issued seats fill in the seat counts.
+                    </div>
+                  </div>
+                );
+                const { rows, logEnd, features } = lmstatReconciliation;
+                const takenAt = lmstatSnapshot.takenAt;
+                const gapHours = takenAt && logEnd ? Math.abs(takenAt.getTime() - logEnd.getTime()) / 3600000 : 0;
+                const statusStyle: Record<string, string> = {
+                  both: 'bg-green-500/10 text-green-500',
+                  'lmstat-only': 'bg-amber-500/10 text-amber-500',
+                  'log-only': 'bg-red-500/10 text-red-400',
+                };
+                const statusLabel: Record<string, string> = { both: 'In both', 'lmstat-only': 'lmstat only', 'log-only': 'Log only' };
+                const fmtStart = (date?: Date | null) => date ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '—';
+                const errors = lmstatSnapshot.features.filter(f => f.issued === null && f.note);
+                return (
+                  <div className="bg-[#111827] border border-slate-800">
+                    {header}
+                    <div className="p-6 space-y-5">
+                      <div className="flex flex-wrap gap-6 text-[11px] text-slate-500">
+                        <span>Snapshot <span className="font-mono-brand text-white">{takenAt ? takenAt.toLocaleString() : 'time unknown'}</span></span>
+                        {lmstatSnapshot.servers.map(s => (
+                          <span key={s.name}>{s.name} <span className={`font-mono-brand ${s.status === 'UP' ? 'text-green-500' : 'text-red-400'}`}>{s.status}</span>{s.version && <span className="font-mono-brand text-slate-600"> v{s.version}</span>}</span>
+                        ))}
+                        {lmstatSnapshot.vendors.map(v => (
+                          <span key={v.name}>{v.name} <span className={`font-mono-brand ${v.status === 'UP' ? 'text-green-500' : 'text-red-400'}`}>{v.status}</span></span>
+                        ))}
+                        <span className="font-mono-brand text-slate-600">{lmstatImport!.fileName}</span>
+                      </div>
+                      {gapHours > 1 && (
+                        <p className="text-[11px] text-amber-500/80 flex items-center gap-1.5">
+                          <AlertTriangle size={12} /> The log ends {logEnd!.toLocaleString()}, {Math.round(gapHours)}h {takenAt! > logEnd! ? 'before' : 'after'} the snapshot — checkouts in between show up as mismatches.
+                        </p>
+                      )}
+
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                          <thead className="bg-[#0c1220]">
+                            <tr>
+                              <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Feature</th>
+                              <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500 text-right">Issued</th>
+                              <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500 text-right">In Use (lmstat)</th>
+                              <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500 text-right">Open in Log</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50">
+                            {features.map(f => (
+                              <tr key={f.feature} className="hover:bg-[#1a2332]">
+                                <td className="px-4 py-2 text-sm font-bold">{f.feature}</td>
+                                <td className="px-4 py-2 text-sm font-mono-brand text-right text-slate-400">{f.issued ?? '—'}</td>
+                                <td className={`px-4 py-2 text-sm font-mono-brand text-right ${f.issued !== null && f.lmstatInUse >= f.issued && f.issued > 0 ? 'text-red-400' : 'text-white'}`}>{f.lmstatInUse}</td>
+                                <td className={`px-4 py-2 text-sm font-mono-brand text-right ${f.logOpen !== f.lmstatInUse ? 'text-amber-500' : 'text-slate-400'}`}>{f.logOpen}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {errors.length > 0 && (
+                        <div className="space-y-1">
+                          {errors.map(f => <p key={f.feature} className="text-[11px] text-slate-500"><span className="font-mono-brand text-slate-400">{f.feature}</span>: {f.note}</p>)}
+                        </div>
+                      )}
+
+                      {rows.length === 0 ? (
+                        <p className="text-xs text-slate-500">Nothing checked out, in lmstat or at the end of the log.</p>
+                      ) : (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-left">
+                            <thead className="bg-[#0c1220]">
+                              <tr>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">User</th>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Host</th>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Feature</th>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Version</th>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Since</th>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500 text-right">Seats</th>
+                                <th className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500">Match</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800/50">
+                              {rows.map((r, i) => (
+                                <tr key={i} className="hover:bg-[#1a2332]">
+                                  <td className="px-4 py-2 text-sm font-bold">{r.user}</td>
+                                  <td className="px-4 py-2 text-xs font-mono-brand text-slate-400">{r.host}</td>
+                                  <td className="px-4 py-2 text-xs text-slate-300">
+                                    {r.feature}
+                                    {r.borrowed && <span className="ml-2 inline-flex items-center gap-1 text-[10px] text-[#46b6e3]"><Plane size={10} /> borrowed</span>}
+                                  </td>
+                                  <td className="px-4 py-2 text-xs font-mono-brand text-slate-500">{r.holder?.version || '—'}</td>
+                                  <td className="px-4 py-2 text-xs text-slate-400" title={r.logStart && r.holder ? `Log: ${r.logStart.toLocaleString()}` : undefined}>{fmtStart(r.holder ? r.holder.start : r.logStart)}</td>
+                                  <td className="px-4 py-2 text-xs font-mono-brand text-right text-slate-400">{r.holder?.licenses ?? 1}</td>
+                                  <td className="px-4 py-2">
+                                    <span className={`px-2 py-1 text-[10px] font-semibold uppercase tracking-wider ${statusStyle[r.status]}`}>{statusLabel[r.status]}</span>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                      <p className="text-[10px] text-slate-600">
+                        "lmstat only": held on the server but not open in the log — the checkout predates the log or the log is behind. "Log only": open in the log but released by the time lmstat ran, or its IN line was lost.
+                      </p>
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {/* Concurrent seats over time vs seat count */}
+              {(() => {
+                const features = Object.keys(d!.featureConcurrency).sort();
+                if (features.length === 0) return null;
+                const feature = features.includes(concurrencyFeature) ? concurrencyFeature : features[0];
+                const { series, peak, p90 } = d!.featureConcurrency[feature];
+                const seats = licenseSeats[feature] || 0;
+                const episodes = saturationEpisodes(series, seats);
+                const fmtTick = (t: number) => new Date(t).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+                // Zoom the brush onto an episode, with a little context either side
+                const zoomTo = (start: number, end: number) => {
+                  const pad = Math.max(3600000, (end - start) / 2);
+                  const startIndex = Math.max(0, series.findIndex(p => p.t >= start - pad));
+                  const after = series.findIndex(p => p.t > end + pad);
+                  setConcurrencyZoom({ startIndex, endIndex: after === -1 ? series.length - 1 : after });
+                };
+                return (
+                  <div className="bg-[#111827] border border-slate-800">
+                    <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220] flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-300">Concurrent Seats Over Time</h3>
+                        <p className="text-[11px] text-slate-500">Minute-resolution checkouts in use{seats > 0 ? ` against ${seats} licensed seats` : ' — set seat counts in Cost & Right-Sizing to draw capacity'}</p>
+                      </div>
+                      <select value={feature} onChange={e => { setConcurrencyFeature(e.target.value); setConcurrencyZoom(null); }}
+                        className="bg-[#0c1220] border border-slate-700 text-xs text-slate-300 px-3 py-1.5 font-mono-brand focus:border-[#1871bd] focus:outline-none">
+                        {features.map(f => <option key={f} value={f}>{SNL_FEATURES[f.toLowerCase()] || f}</option>)}
+                      </select>
+                    </div>
+                    <div className="p-6">
+                      <div className="flex flex-wrap gap-6 mb-4 text-[11px] text-slate-500">
+                        <span>Peak <span className="font-mono-brand text-white">{peak}</span></span>
+                        <span>P90 <span className="font-mono-brand text-white">{p90}</span></span>
+                        {seats > 0 && <span>Saturation episodes <span className={`font-mono-brand ${episodes.length > 0 ? 'text-red-400' : 'text-white'}`}>{episodes.length}</span></span>}
+                        {concurrencyZoom && <button onClick={() => setConcurrencyZoom(null)} className="text-[#46b6e3] hover:text-white">Reset zoom</button>}
+                      </div>
+                      <div className="h-72 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <AreaChart data={series}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                            <XAxis dataKey="t" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={fmtTick} stroke="#475569" fontSize={10} tickLine={false} axisLine={false} />
+                            <YAxis allowDecimals={false} domain={[0, (max: number) => Math.max(max, seats) + 1]} stroke="#475569" fontSize={10} tickLine={false} axisLine={false} />
+                            <Tooltip contentStyle={{ backgroundColor: '#1e2943', border: '1px solid #334155', borderRadius: '4px', fontSize: '12px' }} labelFormatter={(t: number) => new Date(t).toLocaleString()} formatter={(v: number) => [v, 'Seats in use']} />
+                            <Area type="stepAfter" dataKey="count" stroke="#46b6e3" fill="#1871bd" fillOpacity={0.25} strokeWidth={1.5} isAnimationActive={false} />
+                            {seats > 0 && <ReferenceLine y={seats} stroke="#ef4444" strokeDasharray="6 3" label={{ value: `${seats} seats`, position: 'insideTopRight', fill: '#ef4444', fontSize: 10 }} />}
+                            <Brush dataKey="t" height={24} stroke="#1871bd" fill="#0c1220" tickFormatter={fmtTick}
+                              startIndex={concurrencyZoom ? Math.min(concurrencyZoom.startIndex, series.length - 1) : undefined}
+                              endIndex={concurrencyZoom ? Math.min(concurrencyZoom.endIndex, series.length - 1) : undefined}
+                              onChange={({ startIndex, endIndex }: { startIndex?: number, endIndex?: number }) => setConcurrencyZoom({ startIndex: startIndex ?? 0, endIndex: endIndex ?? series.length - 1 })} />
+                          </AreaChart>
+                        </ResponsiveContainer>
+                      </div>
+                      {episodes.length > 0 && (
+                        <div className="mt-5 border-t border-slate-800 pt-4">
+                          <p className="text-[11px] text-slate-500 uppercase tracking-wider mb-2">Saturation Episodes</p>
+                          <div className="max-h-48 overflow-y-auto divide-y divide-slate-800/50">
+                            {episodes.map((e, i) => (
+                              <button key={i} onClick={() => zoomTo(e.start, e.end)} className="w-full flex items-center justify-between py-1.5 text-left text-xs hover:bg-[#1a2332] px-2">
+                                <span className="text-slate-300">{new Date(e.start).toLocaleString()}</span>
+                                <span className="font-mono-brand text-slate-500">{formatDuration((e.end - e.start) / 60000)} · peak <span className="text-red-400">{e.peak}</span></span>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })()}
+
               {/* Denial Ratio + Feature Co-usage */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-px bg-slate-800">
                 <div className="bg-[#111827] p-6">
@@ -1430,8 +2036,244 @@ export function App() {
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            </div>
+          )}
+
+          {activeTab === 'entitlements' && d && (() => {
+            const importButton = (
+              <label className="shrink-0 cursor-pointer px-3 py-2 border border-dashed border-[#1871bd]/50 text-[11px] text-[#1871bd] hover:text-[#46b6e3] hover:border-[#46b6e3]/50 transition-colors flex items-center gap-1.5">
+                <Upload size={14} /> {licenseFileImport ? 'Replace sw_d.lic' : 'Import sw_d.lic'}
+                <input type="file" accept="*/*" className="hidden" onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (!file) return;
+                  const reader = new FileReader();
+                  reader.onload = () => importLicenseFile(file.name, reader.result as string);
+                  reader.readAsText(file);
+                  e.target.value = '';
+                }} />
+              </label>
+            );
+            if (!licenseFile) return (
+              <div className="bg-[#111827] border border-slate-800 py-16 text-center">
+                <CalendarClock size={28} className="text-slate-600 mx-auto mb-3" />
+                <p className="text-sm font-semibold text-slate-300">No license file imported</p>
+                <p className="text-xs text-slate-500 mt-1 mb-5">Import sw_d.lic from the license server to see seats, expiry dates and what the log uses that the file doesn't grant.</p>
+                <div className="inline-flex">{importButton}</div>
+              </div>
+            );
+
+            // Expiry is about the calendar, not the log: everything here is relative to today
+            const today = new Date();
+            const entitlements = licenseEntitlements(licenseFile, today);
+            const checkouts = Object.fromEntries(Object.entries(d.featureStats).map(([f, s]) => [f, s.checkouts]));
+            const warnings = entitlementWarnings(licenseFile, checkouts, expiryWarningDays, today);
+            const logFeature = (feature: string) => Object.keys(d.featureStats).find(f => f.toLowerCase() === feature.toLowerCase());
+            const fmtDate = (date: Date) => date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+            const incrementStatus = (inc: LicenseIncrement) =>
+              inc.superseded ? 'Superseded' : isExpired(inc, today) ? 'Expired' : inc.start && inc.start > today ? 'Not started' : 'Active';
+            const statusStyle: Record<string, string> = {
+              'Active': 'text-emerald-400', 'Expired': 'text-red-400', 'Not started': 'text-[#46b6e3]', 'Superseded': 'text-slate-500',
+            };
+
+            // Expiry calendar: the next twelve months, then anything further out
+            const upcoming = licenseFile.increments.filter(inc => !inc.superseded && inc.expiry && !isExpired(inc, today));
+            const months = Array.from({ length: 12 }, (_, i) => new Date(today.getFullYear(), today.getMonth() + i, 1));
+            const horizon = new Date(today.getFullYear(), today.getMonth() + 12, 1);
+            const warnUntil = today.getTime() + expiryWarningDays * 86400000;
+            const later = upcoming.filter(inc => inc.expiry! >= horizon);
+            const totalSeats = entitlements.reduce((sum, e) => sum + e.seats, 0);
+            const permanentSeats = entitlements.reduce((sum, e) => sum + e.permanentSeats, 0);
+            const expiringSeats = warnings.filter(w => w.kind === 'expiring').reduce((sum, w) => sum + (w.seats || 0), 0);
+            const missing = warnings.filter(w => w.kind === 'not-licensed');
+
+            return (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatCard title="Licensed Features" value={entitlements.length} icon={FileText} color="#1871bd" />
+                  <StatCard title="Seats Valid Today" value={totalSeats} icon={Users} color="#46b6e3" />
+                  <StatCard title={`Expiring in ${expiryWarningDays}d`} value={expiringSeats} icon={CalendarClock} color="#f59e0b" />
+                  <StatCard title="In Log, Not Licensed" value={missing.length} icon={AlertTriangle} color="#ef4444" />
+                </div>
+
+                {/* License file header */}
+                <div className="bg-[#111827] border border-slate-800">
+                  <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220] flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-300">{licenseFileImport!.fileName}</h3>
+                      <p className="text-[11px] text-slate-500">Imported {new Date(licenseFileImport!.importedAt).toLocaleString()} · {licenseFile.increments.length} FEATURE/INCREMENT lines{permanentSeats > 0 ? ` · ${permanentSeats} permanent seats` : ''}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => setLicenseFileImport(undefined)} className="px-3 py-2 text-[11px] text-slate-500 hover:text-red-400 flex items-center gap-1.5">
+                        <Trash2 size={13} /> Remove
+                      </button>
+                      {importButton}
+                    </div>
+                  </div>
+                  <div className="px-6 py-4 flex flex-wrap gap-6 text-[11px] text-slate-500">
+                    {licenseFile.servers.map(s => (
+                      <span key={s.host}>SERVER <span className="font-mono-brand text-white">{s.host}</span> <span className="font-mono-brand text-slate-600">{s.hostid}{s.port ? ` :${s.port}` : ''}</span></span>
+                    ))}
+                    {licenseFile.vendors.map(v => (
+                      <span key={v.name}>VENDOR <span className="font-mono-brand text-white">{v.name}</span>{v.port ? <span className="font-mono-brand text-slate-600"> :{v.port}</span> : null}{v.options && <span className="font-mono-brand text-slate-600"> options {v.options}</span>}</span>
+                    ))}
+                    {licenseFile.useServer && <span className="font-mono-brand text-slate-400">USE_SERVER</span>}
+                    {licenseFile.servers.length === 0 && <span>No SERVER line — node-locked or uncounted file</span>}
+                  </div>
+                  {licenseFile.issues.length > 0 && (
+                    <div className="px-6 pb-4 space-y-1">
+                      {licenseFile.issues.map((issue, i) => (
+                        <p key={i} className="text-[11px] text-amber-500/80">Line {issue.line}: {issue.message}</p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Warnings */}
+                <div className="bg-[#111827] border border-slate-800">
+                  <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220] flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-300">Entitlement Warnings</h3>
+                      <p className="text-[11px] text-slate-500">Features the log shows in use that are about to lapse, have lapsed, or aren't in the license file</p>
+                    </div>
+                    <label className="flex items-center gap-2 text-[11px] text-slate-500 shrink-0">
+                      Warn within
+                      <input
+                        type="number" min={1} max={3650} value={expiryWarningDays}
+                        onChange={e => setExpiryWarningDays(Math.max(1, Number(e.target.value) || DEFAULT_EXPIRY_WARNING_DAYS))}
+                        className="w-16 bg-[#0c1220] border border-slate-800 text-xs text-slate-300 px-2 py-1 font-mono-brand focus:border-[#1871bd] focus:outline-none"
+                      />
+                      days
+                    </label>
+                  </div>
+                  {warnings.length === 0 ? (
+                    <div className="py-10 text-center text-sm text-slate-500">
+                      <CheckCircle size={24} className="text-emerald-400 mx-auto mb-2" />
+                      Every feature in the log is licensed, and none of it lapses in the next {expiryWarningDays} days.
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-slate-800/50">
+                      {warnings.map((w, i) => (
+                        <div key={i} className="px-6 py-3 flex items-start gap-3 text-xs">
+                          <AlertTriangle size={14} className={`shrink-0 mt-0.5 ${w.kind === 'expiring' ? 'text-amber-500' : 'text-red-400'}`} />
+                          <span className="text-slate-300">
+                            {w.kind === 'expiring' && <><span className="font-bold">{w.feature}</span>: {w.seats} seat{w.seats === 1 ? '' : 's'} expire {fmtDate(w.expiry!)}, in {w.daysLeft} day{w.daysLeft === 1 ? '' : 's'}</>}
+                            {w.kind === 'expired' && <><span className="font-bold">{w.feature}</span>: every line in the license file has expired{w.expiry ? `, the last on ${fmtDate(w.expiry)}` : ''}</>}
+                            {w.kind === 'not-licensed' && <><span className="font-bold">{w.feature}</span> is in the log but not in {licenseFileImport!.fileName}</>}
+                            <span className="text-slate-500"> · {w.checkouts.toLocaleString()} checkouts{d.featureStats[w.feature]?.denials ? `, ${d.featureStats[w.feature].denials} denials` : ''} in the log</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Expiry calendar */}
+                <div className="bg-[#111827] border border-slate-800">
+                  <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220]">
+                    <h3 className="text-sm font-semibold text-slate-300">Expiry Calendar</h3>
+                    <p className="text-[11px] text-slate-500">Seats that lapse in each of the next twelve months</p>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-px bg-slate-800">
+                    {months.map(month => {
+                      const lapsing = upcoming.filter(inc => inc.expiry!.getFullYear() === month.getFullYear() && inc.expiry!.getMonth() === month.getMonth());
+                      const warned = lapsing.some(inc => inc.expiry!.getTime() <= warnUntil);
+                      return (
+                        <div key={month.getTime()} className={`bg-[#111827] p-3 min-h-[88px] ${warned ? 'border-t-2 border-amber-500' : 'border-t-2 border-transparent'}`}>
+                          <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-2">{month.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}</p>
+                          {lapsing.map(inc => (
+                            <p key={inc.line} className="text-[11px] text-slate-300 truncate" title={`Line ${inc.line}: ${inc.feature} expires ${fmtDate(inc.expiry!)}`}>
+                              <span className="font-mono-brand text-slate-500">{inc.expiry!.getDate()}</span> {inc.feature} <span className="font-mono-brand text-amber-500">{inc.uncounted ? 'uncounted' : `−${inc.count}`}</span>
+                            </p>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {later.length > 0 && (
+                    <p className="px-6 py-3 text-[11px] text-slate-500 border-t border-slate-800">
+                      Later: {later.map(inc => `${inc.feature} (${inc.count}) ${fmtDate(inc.expiry!)}`).join(' · ')}
+                    </p>
+                  )}
+                </div>
+
+                {/* Entitlements per feature */}
+                <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220]">
+                    <h3 className="text-sm font-semibold text-slate-300">Entitlements</h3>
+                    <p className="text-[11px] text-slate-500">INCREMENT lines for one feature add up; only the first FEATURE line counts</p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead className="bg-[#0c1220]">
+                        <tr>
+                          {['Feature', 'Seats', 'Permanent', 'Next Expiry', 'Peak in Log', 'Checkouts'].map(h => (
+                            <th key={h} className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50">
+                        {entitlements.map(e => {
+                          const inLog = logFeature(e.feature);
+                          const peak = inLog ? d.featureConcurrency[inLog]?.peak ?? 0 : 0;
+                          return (
+                            <tr key={e.feature} className="hover:bg-[#1a2332]">
+                              <td className="px-5 py-3">
+                                <p className="text-sm font-bold">{e.feature}</p>
+                                {SNL_FEATURES[e.feature.toLowerCase()] && <p className="text-[10px] text-slate-500">{SNL_FEATURES[e.feature.toLowerCase()]}</p>}
+                              </td>
+                              <td className="px-5 py-3 text-sm font-mono-brand">{e.uncounted ? 'uncounted' : e.seats}</td>
+                              <td className="px-5 py-3 text-sm font-mono-brand text-slate-400">{e.permanentSeats || '—'}</td>
+                              <td className={`px-5 py-3 text-xs ${e.nextExpiry && e.nextExpiry.getTime() <= warnUntil ? 'text-amber-500' : 'text-slate-400'}`}>{e.nextExpiry ? fmtDate(e.nextExpiry) : e.seats > 0 || e.uncounted ? 'Permanent' : 'Expired'}</td>
+                              <td className={`px-5 py-3 text-sm font-mono-brand ${!e.uncounted && peak >= e.seats && peak > 0 ? 'text-red-400' : 'text-slate-300'}`}>{inLog ? peak : '—'}</td>
+                              <td className="px-5 py-3 text-sm font-mono-brand text-slate-400">{inLog ? d.featureStats[inLog].checkouts.toLocaleString() : 'Unused'}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Every FEATURE/INCREMENT line */}
+                <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-800 bg-[#0c1220]">
+                    <h3 className="text-sm font-semibold text-slate-300">License Lines</h3>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead className="bg-[#0c1220]">
+                        <tr>
+                          {['Line', 'Feature', 'Version', 'Count', 'Expiry', 'Issued', 'Start', 'DUP_GROUP', 'Serial', 'Vendor String', 'Status'].map(h => (
+                            <th key={h} className="px-4 py-2 text-[10px] font-semibold uppercase tracking-wider text-slate-500 whitespace-nowrap">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50">
+                        {licenseFile.increments.map(inc => {
+                          const status = incrementStatus(inc);
+                          return (
+                            <tr key={inc.line} className="hover:bg-[#1a2332] text-xs">
+                              <td className="px-4 py-2 font-mono-brand text-slate-600">{inc.line}</td>
+                              <td className="px-4 py-2 text-slate-300 whitespace-nowrap"><span className="text-[10px] text-slate-600 mr-1.5">{inc.keyword}</span>{inc.feature}</td>
+                              <td className="px-4 py-2 font-mono-brand text-slate-400">{inc.version}</td>
+                              <td className="px-4 py-2 font-mono-brand text-white">{inc.uncounted ? 'uncounted' : inc.count}</td>
+                              <td className="px-4 py-2 text-slate-400 whitespace-nowrap">{inc.expiry ? fmtDate(inc.expiry) : 'Permanent'}</td>
+                              <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{inc.issued ? fmtDate(inc.issued) : '—'}</td>
+                              <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{inc.start ? fmtDate(inc.start) : '—'}</td>
+                              <td className="px-4 py-2 font-mono-brand text-slate-500">{inc.dupGroup || '—'}</td>
+                              <td className="px-4 py-2 font-mono-brand text-slate-500">{inc.serial || '—'}</td>
+                              <td className="px-4 py-2 text-slate-500 max-w-[200px] truncate" title={inc.vendorString}>{inc.vendorString || '—'}</td>
+                              <td className={`px-4 py-2 text-[10px] font-semibold uppercase tracking-wider ${statusStyle[status]}`}>{status}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            );
+          })()}
 
           {activeTab === 'users' && (
             <div className="space-y-10">
@@ -1562,9 +2404,9 @@ export function App() {
                       .map(([name]) => name);
                     
                     // Find time range
-                    const allTimes = d!.sessions.filter(s => s.end).map(s => [s.start.getTime(), s.end!.getTime()]).flat();
-                    if (allTimes.length === 0) return <p className="text-xs text-slate-500">No session data available</p>;
-                    const maxTime = Math.max(...allTimes);
+                    const ended = d!.sessions.filter(s => s.end);
+                    if (ended.length === 0) return <p className="text-xs text-slate-500">No session data available</p>;
+                    const maxTime = ended.reduce((max, s) => Math.max(max, s.start.getTime(), s.end!.getTime()), -Infinity);
                     const minTime = maxTime - 7 * 24 * 60 * 60 * 1000; // last 7 days
                     const range = maxTime - minTime;
 
@@ -1602,6 +2444,67 @@ export function App() {
 
           {activeTab === 'denials' && (
             <div className="space-y-12">
+              {/* Retries collapsed: what engineers actually waited for */}
+              <div className="bg-[#111827] border border-slate-800">
+                <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220] flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-300">Denial Episodes</h3>
+                    <p className="text-[11px] text-slate-500">Repeated denials of one feature to one user count as one blocked request until a checkout succeeds or they stop retrying</p>
+                  </div>
+                  <label className="flex items-center gap-2 text-[11px] text-slate-500 shrink-0">
+                    Retries within
+                    <input
+                      type="number" min={1} max={1440} value={denialEpisodeGap}
+                      onChange={e => setDenialEpisodeGap(Math.max(1, Number(e.target.value) || DEFAULT_EPISODE_GAP_MIN))}
+                      className="w-16 bg-[#0c1220] border border-slate-800 text-xs text-slate-300 px-2 py-1 font-mono-brand focus:border-[#1871bd] focus:outline-none"
+                    />
+                    min are one episode
+                  </label>
+                </div>
+                <div className="grid grid-cols-2 lg:grid-cols-5 gap-px bg-slate-800">
+                  {[
+                    { label: 'Blocked Requests', value: episodeSummary.episodes.toLocaleString(), sub: `from ${d!.denials.length.toLocaleString()} denials` },
+                    { label: 'Retry Noise', value: episodeSummary.retries.toLocaleString(), sub: 'extra denials from retrying' },
+                    { label: 'Granted After Wait', value: episodeSummary.granted.toLocaleString(), sub: episodeSummary.granted > 0 ? `median wait ${formatDuration(episodeSummary.medianWaitMinutes)}` : 'none' },
+                    { label: 'Abandoned', value: episodeSummary.abandoned.toLocaleString(), sub: 'no checkout followed', alert: episodeSummary.abandoned > 0 },
+                    { label: 'Engineer Wait', value: `${(episodeSummary.waitMinutes / 60).toFixed(1)}h`, sub: 'first denial to seat or last retry' },
+                  ].map(k => (
+                    <div key={k.label} className="bg-[#111827] p-5">
+                      <p className="text-[11px] text-slate-500 uppercase tracking-wider mb-1">{k.label}</p>
+                      <p className={`text-2xl font-bold font-mono-brand ${k.alert ? 'text-red-400' : 'text-white'}`}>{k.value}</p>
+                      <p className="text-[10px] text-slate-600 mt-1">{k.sub}</p>
+                    </div>
+                  ))}
+                </div>
+                {denialEpisodes.length > 0 && (
+                  <div className="overflow-x-auto max-h-[360px] overflow-y-auto border-t border-slate-800">
+                    <table className="w-full text-left">
+                      <thead className="bg-[#0c1220] sticky top-0">
+                        <tr>
+                          {['Started', 'User', 'Feature', 'Attempts', 'Outcome', 'Wait'].map(h => (
+                            <th key={h} className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50">
+                        {[...denialEpisodes].sort((a, b) => b.waitMinutes - a.waitMinutes || b.attempts - a.attempts).slice(0, 50).map((e, i) => (
+                          <tr key={i} className="hover:bg-[#1a2332]">
+                            <td className="px-5 py-2.5 text-xs font-mono text-slate-400">{e.start.toLocaleString()}</td>
+                            <td className="px-5 py-2.5 text-sm font-semibold">{e.user}</td>
+                            <td className="px-5 py-2.5 text-xs font-mono-brand text-[#46b6e3]">{e.feature}</td>
+                            <td className="px-5 py-2.5 text-xs font-mono-brand">{e.attempts}</td>
+                            <td className="px-5 py-2.5">
+                              <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 border ${e.outcome === 'granted' ? 'border-emerald-500/30 text-emerald-400' : 'border-red-500/30 text-red-400'}`}>{e.outcome}</span>
+                            </td>
+                            <td className="px-5 py-2.5 text-xs font-mono-brand">{formatDuration(e.waitMinutes)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
                 <div className="bg-[#111827] p-10 border border-slate-800">
                   <h3 className="text-sm font-semibold mb-8 flex items-center gap-3">
@@ -1620,16 +2523,21 @@ export function App() {
                   </div>
                 </div>
                 <div className="bg-[#111827] p-10 border border-slate-800">
-                  <h3 className="text-sm font-semibold mb-8">Most Common Denial Reasons</h3>
+                  <h3 className="text-sm font-semibold mb-8">Denial Root Causes</h3>
                   <div className="space-y-6">
-                    {Array.from(new Set(d!.denials.map(d => d.reason))).slice(0, 5).map(reason => {
-                      const count = d!.denials.filter(d => d.reason === reason).length;
-                      const percentage = Math.round((count / (d!.denials.length || 1)) * 100);
+                    {DENIAL_CATEGORIES.map(category => {
+                      const inCategory = d!.denials.filter(e => denialCategoryOf(e) === category.id);
+                      if (inCategory.length === 0) return null;
+                      const percentage = Math.round((inCategory.length / (d!.denials.length || 1)) * 100);
+                      // Which FlexNet codes ended up here, most frequent first
+                      const codeCounts: Record<number, number> = {};
+                      inCategory.forEach(e => { const code = e.flexError ?? parseFlexError(e.reason); if (code) codeCounts[code.major] = (codeCounts[code.major] || 0) + 1; });
+                      const codes = Object.entries(codeCounts).sort((a, b) => b[1] - a[1]);
                       return (
-                        <div key={reason} className="group">
+                        <div key={category.id} className="group">
                           <div className="flex justify-between items-center mb-2">
-                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{reason}</p>
-                            <span className="text-xs font-black text-red-500">{count} Events</span>
+                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{category.label}</p>
+                            <span className="text-xs font-black text-red-500">{inCategory.length} Events · {percentage}%</span>
                           </div>
                           <div className="w-full h-3 bg-slate-800 overflow-hidden">
                             <div 
@@ -1637,13 +2545,58 @@ export function App() {
                               style={{ width: `${percentage}%` }}
                             />
                           </div>
+                          <p className="text-[11px] text-slate-500 mt-2 leading-relaxed">{category.remediation}</p>
+                          {codes.length > 0 && (
+                            <p className="text-[10px] text-slate-600 mt-1 font-mono-brand">
+                              {codes.map(([major, count]) => `${major}${FLEX_ERRORS[Number(major)] ? ` ${FLEX_ERRORS[Number(major)].message}` : ''} (${count})`).join(' · ')}
+                            </p>
+                          )}
                         </div>
                       );
                     })}
+                    {d!.denials.length === 0 && <p className="text-sm text-slate-500">No denials in this view.</p>}
                   </div>
                 </div>
               </div>
 
+              {d!.denials.length > 0 && (
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-px bg-slate-800 border border-slate-800">
+                  {([['feature', 'Root Cause by Feature'], ['user', 'Root Cause by User']] as const).map(([key, title]) => {
+                    const rows = denialBreakdown(d!.denials, key);
+                    const present = DENIAL_CATEGORIES.filter(c => rows.some(r => r.byCategory[c.id]));
+                    return (
+                      <div key={key} className="bg-[#111827]">
+                        <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                          <h3 className="text-sm font-semibold text-slate-300">{title}</h3>
+                        </div>
+                        <div className="overflow-x-auto max-h-[420px] overflow-y-auto">
+                          <table className="w-full text-left">
+                            <thead className="bg-[#0c1220] sticky top-0">
+                              <tr>
+                                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{key === 'feature' ? 'Feature' : 'User'}</th>
+                                {present.map(c => <th key={c.id} className="px-4 py-3 text-[10px] font-semibold uppercase tracking-wider text-slate-500" title={c.remediation}>{c.label}</th>)}
+                                <th className="px-4 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Total</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800/50">
+                              {rows.slice(0, 25).map(row => (
+                                <tr key={row.name} className="hover:bg-[#1a2332]">
+                                  <td className={`px-4 py-2.5 text-xs font-mono-brand ${key === 'feature' ? 'text-[#46b6e3]' : 'font-semibold'}`}>{row.name}</td>
+                                  {present.map(c => (
+                                    <td key={c.id} className={`px-4 py-2.5 text-xs font-mono-brand ${row.byCategory[c.id] ? 'text-red-400' : 'text-slate-700'}`}>{row.byCategory[c.id] || '·'}</td>
+                                  ))}
+                                  <td className="px-4 py-2.5 text-xs font-mono-brand font-bold">{row.total}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <div className="bg-[#111827] border border-slate-800 overflow-hidden">
                 <div className="p-8 border-b border-slate-800">
                   <h3 className="text-lg font-bold">Denial Audit Trail</h3>
@@ -1664,7 +2617,10 @@ export function App() {
                           <td className="px-5 py-3 text-xs font-medium text-slate-400 font-mono">{d.time}</td>
                           <td className="px-5 py-3 text-sm font-bold">{d.user}</td>
                           <td className="px-5 py-3 text-sm font-medium text-blue-500">{d.feature}</td>
-                          <td className="px-5 py-3 text-sm text-red-500 font-bold">{d.reason}</td>
+                          <td className="px-5 py-3 text-sm">
+                            <p className="text-red-500 font-bold">{denialCategoryLabel(denialCategoryOf(d))}{(d.flexError ?? parseFlexError(d.reason)) && <span className="ml-2 text-[10px] font-mono-brand text-slate-500">{formatFlexError(d.flexError ?? parseFlexError(d.reason))}</span>}</p>
+                            <p className="text-[11px] text-slate-500">{d.reason}</p>
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -1674,6 +2630,407 @@ export function App() {
             </div>
           )}
 
+          {activeTab === 'borrowing' && d && (() => {
+            const borrows = [...d.borrows].sort((a, b) => b.start.getTime() - a.start.getTime());
+            const outNow = borrows.filter(b => b.status === 'out');
+            const totalHours = borrows.reduce((sum, b) => sum + (b.duration || 0), 0) / 60;
+            // Log window in hours, for the share of pool capacity spent offline
+            const spanStart = d.metadata.startDate ? new Date(d.metadata.startDate).getTime() : NaN;
+            const spanEnd = d.metadata.endDate ? new Date(d.metadata.endDate).getTime() + 86400000 : NaN;
+            const spanHours = spanEnd > spanStart ? (spanEnd - spanStart) / 3600000 : 0;
+            const byFeature: Record<string, { borrows: number, out: number, hours: number }> = {};
+            borrows.forEach(b => {
+              if (!byFeature[b.feature]) byFeature[b.feature] = { borrows: 0, out: 0, hours: 0 };
+              byFeature[b.feature].borrows++;
+              if (b.status === 'out') byFeature[b.feature].out++;
+              byFeature[b.feature].hours += (b.duration || 0) / 60;
+            });
+            const statusStyle: Record<string, string> = {
+              'out': 'text-[#46b6e3] bg-[#1871bd]/10 border-[#1871bd]/30',
+              'returned': 'text-emerald-400 bg-emerald-400/5 border-emerald-400/30',
+              'early-return': 'text-emerald-400 bg-emerald-400/5 border-emerald-400/30',
+              'expired': 'text-slate-400 bg-slate-400/5 border-slate-600',
+            };
+            const statusLabel: Record<string, string> = { 'out': 'Offline', 'returned': 'Returned', 'early-return': 'Early Return', 'expired': 'Lapsed' };
+
+            return (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatCard title="Currently Borrowed" value={outNow.length} icon={Plane} color="#46b6e3" />
+                  <StatCard title="Total Borrows" value={borrows.length} icon={Activity} color="#1871bd" />
+                  <StatCard title="Offline Seat-Hours" value={Math.round(totalHours).toLocaleString()} icon={Clock} color="#f59e0b" />
+                  <StatCard title="Early Returns" value={borrows.filter(b => b.status === 'early-return').length} icon={CheckCircle} color="#10b981" />
+                </div>
+
+                {borrows.length === 0 ? (
+                  <div className="bg-[#111827] border border-slate-800 py-16 text-center">
+                    <Plane size={28} className="text-slate-600 mx-auto mb-3" />
+                    <p className="text-sm font-semibold text-slate-300">No borrowed licenses in this log</p>
+                    <p className="text-xs text-slate-500 mt-1">Borrowed checkouts show up here once users run lmborrow or SolidNetWork borrowing is enabled.</p>
+                  </div>
+                ) : (
+                  <>
+                    {/* Capacity taken out of the pool per feature */}
+                    <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                      <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                        <h3 className="text-sm font-semibold text-slate-300">Pool Capacity Lost to Borrowing</h3>
+                        <p className="text-[11px] text-slate-500">Borrowed seat-hours as a share of the feature's seats over the log window{Object.keys(licenseSeats).length === 0 ? ' — set seat counts in Cost & Right-Sizing' : ''}</p>
+                      </div>
+                      <table className="w-full text-left">
+                        <thead className="bg-[#0c1220]">
+                          <tr>
+                            <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Feature</th>
+                            <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Borrows</th>
+                            <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Offline Now</th>
+                            <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Seat-Hours</th>
+                            <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Capacity Lost</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800/50">
+                          {Object.entries(byFeature).sort((a, b) => b[1].hours - a[1].hours).map(([feature, f]) => {
+                            const seats = licenseSeats[feature] || 0;
+                            const lost = seats > 0 && spanHours > 0 ? (f.hours / (seats * spanHours)) * 100 : null;
+                            return (
+                              <tr key={feature} className="hover:bg-[#1a2332]">
+                                <td className="px-5 py-3 text-xs font-mono-brand text-[#46b6e3]">{feature}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{f.borrows}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{f.out}{seats > 0 && <span className="text-slate-500"> / {seats}</span>}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{f.hours.toFixed(1)}</td>
+                                <td className="px-5 py-3 text-sm font-mono-brand">{lost !== null ? <span className={lost > 10 ? 'text-amber-400' : 'text-slate-300'}>{lost.toFixed(1)}%</span> : <span className="text-slate-600">—</span>}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {/* Every borrow, newest first */}
+                    <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                      <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                        <h3 className="text-sm font-semibold text-slate-300">Borrow History</h3>
+                        <p className="text-[11px] text-slate-500">Who has seats offline, since when, and when they are due back</p>
+                      </div>
+                      <div className="overflow-x-auto max-h-[500px] overflow-y-auto">
+                        <table className="w-full text-left">
+                          <thead className="bg-[#0c1220]">
+                            <tr>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">User</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Host</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Feature</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Borrowed</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Due Back</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Offline For</th>
+                              <th className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">Status</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50">
+                            {borrows.map((b, i) => (
+                              <tr key={i} className="hover:bg-[#1a2332]">
+                                <td className="px-5 py-3 text-sm font-semibold">{b.user}</td>
+                                <td className="px-5 py-3 text-xs font-mono-brand text-slate-400">{b.host}</td>
+                                <td className="px-5 py-3 text-xs font-mono-brand text-[#46b6e3]">{b.feature}</td>
+                                <td className="px-5 py-3 text-xs text-slate-400">{b.start.toLocaleString()}</td>
+                                <td className="px-5 py-3 text-xs text-slate-400">{b.expectedReturn ? b.expectedReturn.toLocaleString() : <span className="text-slate-600">Unknown</span>}</td>
+                                <td className="px-5 py-3 text-xs font-mono-brand">{formatDuration(b.duration || 0)}</td>
+                                <td className="px-5 py-3"><span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 border ${statusStyle[b.status]}`}>{statusLabel[b.status]}</span></td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })()}
+
+          {activeTab === 'compare' && d && (() => {
+            const splitHalves = () => {
+              if (!data?.metadata.startDate || !data.metadata.endDate) return;
+              const start = new Date(data.metadata.startDate);
+              const end = new Date(data.metadata.endDate);
+              const mid = new Date(start.getTime() + (end.getTime() - start.getTime()) / 2);
+              const afterMid = new Date(mid); afterMid.setDate(afterMid.getDate() + 1);
+              setCompareWindows({ a: { from: toInputDate(start), to: toInputDate(mid) }, b: { from: toInputDate(afterMid), to: toInputDate(end) } });
+            };
+            const otherWorkspaces = recentWorkspaces.filter(w => w.id !== workspaceId);
+            const fmtValue = (v: number, unit?: string) => unit === '%' ? `${v.toFixed(1)}%` : unit === 'min' ? formatDuration(v) : unit === 'h' ? `${v.toFixed(1)}h` : Math.round(v).toLocaleString();
+            const windowInputs = (key: 'a' | 'b', label: string) => (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-[11px] text-slate-500 w-20">{label}</span>
+                <input type="date" value={compareWindows[key].from} onChange={e => setCompareWindows({ ...compareWindows, [key]: { ...compareWindows[key], from: e.target.value } })}
+                  className="bg-[#0c1220] border border-slate-800 text-xs text-slate-400 px-2 py-1 focus:border-[#1871bd] focus:outline-none [color-scheme:dark]" />
+                <span className="text-[11px] text-slate-600">to</span>
+                <input type="date" value={compareWindows[key].to} onChange={e => setCompareWindows({ ...compareWindows, [key]: { ...compareWindows[key], to: e.target.value } })}
+                  className="bg-[#0c1220] border border-slate-800 text-xs text-slate-400 px-2 py-1 focus:border-[#1871bd] focus:outline-none [color-scheme:dark]" />
+              </div>
+            );
+
+            return (
+              <div className="space-y-6">
+                {/* What to compare */}
+                <div className="bg-[#111827] border border-slate-800 p-5 space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {([['windows', 'Two date windows of this log'], ['dataset', 'This log vs another dataset']] as const).map(([id, label]) => (
+                      <button key={id} onClick={() => setCompareSource(id)}
+                        className={`text-xs px-3 py-1.5 border transition-all ${compareSource === id ? 'border-[#1871bd] text-[#46b6e3] bg-[#1871bd]/10' : 'border-slate-800 text-slate-500 hover:border-slate-600'}`}>
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {compareSource === 'windows' ? (
+                    <div className="space-y-2">
+                      {windowInputs('a', 'Before (A)')}
+                      {windowInputs('b', 'After (B)')}
+                      <button onClick={splitHalves} className="text-[11px] text-[#1871bd] hover:text-[#46b6e3]">Split the log into first half vs second half</button>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="text-[11px] text-slate-500">Baseline (A):</span>
+                      {compareBaseline ? (
+                        <button onClick={() => setCompareBaseline(null)} className="flex items-center gap-1 px-2 py-0.5 bg-[#1871bd]/10 border border-[#1871bd]/30 text-[#46b6e3] text-[11px]">
+                          <Database size={10} /> {compareBaseline.label} <X size={10} className="opacity-50 hover:opacity-100" />
+                        </button>
+                      ) : (
+                        <>
+                          {otherWorkspaces.length > 0 && (
+                            <select value="" onChange={async e => {
+                              const w = otherWorkspaces.find(x => x.id === e.target.value);
+                              if (!w) return;
+                              const stored = await loadWorkspaceData(w.id).catch(() => undefined);
+                              if (stored) setCompareBaseline({ label: w.name, data: stored });
+                              else alert('Could not load the saved dataset.');
+                            }} className="bg-[#0c1220] border border-slate-800 text-xs text-slate-400 px-3 py-1.5 focus:border-[#1871bd] focus:outline-none cursor-pointer">
+                              <option value="">Saved analysis…</option>
+                              {otherWorkspaces.map(w => <option key={w.id} value={w.id}>{w.name} ({w.startDate} – {w.endDate})</option>)}
+                            </select>
+                          )}
+                          <label className="cursor-pointer px-3 py-1.5 border border-dashed border-[#1871bd]/50 text-[11px] text-[#1871bd] hover:text-[#46b6e3] transition-colors flex items-center gap-1.5">
+                            <Upload size={12} /> Load log file(s)
+                            <input type="file" multiple className="hidden" accept=".log,.txt,.1,.2,.3,.4,.5,.6,.7,.8,.9" onChange={e => {
+                              const files = Array.from(e.target.files || []);
+                              e.target.value = '';
+                              runParseWorker(files, parsed => setCompareBaseline({ label: files.map(f => f.name).join(', '), data: parsed }));
+                            }} />
+                          </label>
+                          {parseProgress && <span className="text-[11px] text-slate-500 font-mono-brand">Parsing… {Math.round((parseProgress.bytesRead / (parseProgress.totalBytes || 1)) * 100)}%</span>}
+                        </>
+                      )}
+                    </div>
+                  )}
+                  <p className="text-[10px] text-slate-600">User, feature, host and time-of-day filters apply to both sides.</p>
+                </div>
+
+                {!comparison ? (
+                  <div className="bg-[#111827] border border-slate-800 py-16 text-center">
+                    <ArrowLeftRight size={28} className="text-slate-600 mx-auto mb-3" />
+                    <p className="text-sm font-semibold text-slate-300">Pick two periods to compare</p>
+                    <p className="text-xs text-slate-500 mt-1">e.g. the month before and after a TIMEOUTALL change went live.</p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-px bg-slate-800">
+                      {SUMMARY_METRICS.map(m => {
+                        const delta = comparison.result.summary[m.key];
+                        return (
+                          <div key={m.key} className="bg-[#111827] px-5 py-4">
+                            <p className="text-[11px] text-slate-500 uppercase tracking-wider font-medium mb-1">{m.label}</p>
+                            <p className="text-xl font-bold text-white font-mono-brand tabular-nums">
+                              <span className="text-slate-500 text-sm">{fmtValue(delta.a, m.unit)} →</span> {fmtValue(delta.b, m.unit)}
+                            </p>
+                            <DeltaBadge d={delta} polarity={m.polarity} digits={m.unit === '%' || m.unit === 'h' ? 1 : 0} />
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="text-[11px] text-slate-600">A: {comparison.labelA} · B: {comparison.labelB}</p>
+
+                    <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                      <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                        <h3 className="text-sm font-semibold text-slate-300">By Feature</h3>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                          <thead className="bg-[#0c1220]">
+                            <tr>
+                              {['Feature', 'Checkouts', 'Denials', 'Denial Rate', 'Peak Seats', 'Seat Hours'].map(h => (
+                                <th key={h} className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50">
+                            {comparison.result.features.map(f => (
+                              <tr key={f.feature} className="hover:bg-[#1a2332]">
+                                <td className="px-5 py-3 text-xs font-mono-brand text-[#46b6e3]">{f.feature}</td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{f.checkouts.a} → {f.checkouts.b}</span><br /><DeltaBadge d={f.checkouts} polarity="neutral" /></td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{f.denials.a} → {f.denials.b}</span><br /><DeltaBadge d={f.denials} polarity="lower-better" /></td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{f.denialRate.a.toFixed(1)}% → {f.denialRate.b.toFixed(1)}%</span><br /><DeltaBadge d={f.denialRate} polarity="lower-better" digits={1} /></td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{f.peak.a} → {f.peak.b}</span><br /><DeltaBadge d={f.peak} polarity="neutral" /></td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{f.hours.a.toFixed(1)} → {f.hours.b.toFixed(1)}</span><br /><DeltaBadge d={f.hours} polarity="neutral" digits={1} /></td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+
+                    <div className="bg-[#111827] border border-slate-800 overflow-hidden">
+                      <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                        <h3 className="text-sm font-semibold text-slate-300">By User</h3>
+                        <p className="text-[11px] text-slate-500">Largest changes in sessions first</p>
+                      </div>
+                      <div className="overflow-x-auto max-h-[500px] overflow-y-auto">
+                        <table className="w-full text-left">
+                          <thead className="bg-[#0c1220]">
+                            <tr>
+                              {['User', 'Sessions', 'Hours', 'Denials'].map(h => (
+                                <th key={h} className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-800/50">
+                            {comparison.result.users.map(u => (
+                              <tr key={u.user} className="hover:bg-[#1a2332]">
+                                <td className="px-5 py-3 text-sm font-semibold">{u.user}</td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{u.sessions.a} → {u.sessions.b}</span> <DeltaBadge d={u.sessions} polarity="neutral" /></td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{u.hours.a.toFixed(1)} → {u.hours.b.toFixed(1)}</span> <DeltaBadge d={u.hours} polarity="neutral" digits={1} /></td>
+                                <td className="px-5 py-3 text-xs"><span className="font-mono-brand">{u.denials.a} → {u.denials.b}</span> <DeltaBadge d={u.denials} polarity="lower-better" /></td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })()}
+
+          {activeTab === 'alerts' && d && (() => {
+            const health = healthFromAlerts(alerts);
+            const counts = { critical: 0, warning: 0, info: 0 };
+            alerts.forEach(a => { counts[a.rule.severity]++; });
+            const inputClass = 'bg-[#0c1220] border border-slate-800 text-xs text-slate-300 px-2 py-1.5 focus:border-[#1871bd] focus:outline-none';
+            return (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-px bg-slate-800 border border-slate-800">
+                  <div className="bg-[#111827] p-5">
+                    <p className="text-[11px] text-slate-500 uppercase tracking-wider mb-2">Health</p>
+                    <span className={`inline-block px-3 py-1 border text-[10px] font-bold uppercase tracking-widest ${HEALTH_STYLES[health]}`}>{health}</span>
+                  </div>
+                  {(['critical', 'warning', 'info'] as const).map(sev => (
+                    <div key={sev} className="bg-[#111827] p-5">
+                      <p className="text-[11px] text-slate-500 uppercase tracking-wider mb-1">{sev}</p>
+                      <p className={`text-2xl font-bold font-mono-brand ${counts[sev] > 0 ? SEVERITY_STYLES[sev] : 'text-slate-600'}`}>{counts[sev]}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="bg-[#111827] border border-slate-800">
+                  <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                    <h3 className="text-sm font-semibold text-slate-300">Triggered Alerts</h3>
+                    <p className="text-[11px] text-slate-500">Every enabled rule that fires on the current view{filtersActive ? ' (filters applied)' : ''}</p>
+                  </div>
+                  {alerts.length === 0 ? (
+                    <div className="py-12 text-center text-sm text-slate-500">
+                      <CheckCircle size={28} className="text-emerald-400 mx-auto mb-3" />
+                      No rule is triggered.
+                    </div>
+                  ) : (
+                    <table className="w-full text-left">
+                      <thead className="bg-[#0c1220]">
+                        <tr>
+                          {['Severity', 'Rule', 'Applies To', 'Value', 'Condition', 'Evidence'].map(h => (
+                            <th key={h} className="px-5 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50">
+                        {alerts.map(a => (
+                          <tr key={`${a.rule.id}|${a.subject}`} className="hover:bg-[#1a2332] align-top">
+                            <td className={`px-5 py-3 text-[10px] font-bold uppercase tracking-widest ${SEVERITY_STYLES[a.rule.severity]}`}>{a.rule.severity}</td>
+                            <td className="px-5 py-3 text-sm font-semibold">{a.rule.name}</td>
+                            <td className="px-5 py-3 text-xs font-mono-brand text-[#46b6e3]">{a.subject || 'All'}</td>
+                            <td className="px-5 py-3 text-sm font-mono-brand">{formatMetricValue(a.rule.metric, a.value)}</td>
+                            <td className="px-5 py-3 text-xs text-slate-500 whitespace-nowrap">{a.rule.comparator} {formatMetricValue(a.rule.metric, a.rule.threshold)} · {describeWindow(a.rule)}</td>
+                            <td className="px-5 py-3 text-xs text-slate-400 break-all">{a.evidence}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+
+                <div className="bg-[#111827] border border-slate-800">
+                  <div className="px-5 py-3 border-b border-slate-800 bg-[#0c1220] flex items-center justify-between gap-4">
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-300">Rules</h3>
+                      <p className="text-[11px] text-slate-500">Leave "applies to" empty to check every feature, user or host separately. Saved with the workspace.</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button onClick={() => setAlertRules(DEFAULT_ALERT_RULES)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-[11px] text-slate-400 flex items-center gap-1.5">
+                        <RotateCcw size={12} /> Defaults
+                      </button>
+                      <button onClick={() => setAlertRules(prev => [...prev, newAlertRule()])} className="px-3 py-1.5 bg-[#1871bd] hover:bg-blue-700 text-[11px] text-white flex items-center gap-1.5">
+                        <Plus size={12} /> Add Rule
+                      </button>
+                    </div>
+                  </div>
+                  <div className="divide-y divide-slate-800/50">
+                    {alertRules.map(rule => {
+                      const featureOnly = ALERT_METRICS.find(m => m.id === rule.metric)?.featureOnly;
+                      const targets = rule.scope === 'feature' ? allFeatures : rule.scope === 'user' ? allUsers : rule.scope === 'host' ? allHosts : [];
+                      return (
+                        <div key={rule.id} className={`px-5 py-3 flex flex-wrap items-center gap-2 ${rule.enabled ? '' : 'opacity-50'}`}>
+                          <input type="checkbox" checked={rule.enabled} onChange={e => updateAlertRule(rule.id, { enabled: e.target.checked })} className="accent-[#1871bd]" />
+                          <input value={rule.name} onChange={e => updateAlertRule(rule.id, { name: e.target.value })} className={`${inputClass} w-44`} />
+                          <select value={rule.metric} onChange={e => {
+                            const metric = e.target.value as AlertRule['metric'];
+                            updateAlertRule(rule.id, ALERT_METRICS.find(m => m.id === metric)?.featureOnly ? { metric, scope: 'feature' } : { metric });
+                          }} className={inputClass}>
+                            {ALERT_METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                          </select>
+                          <select value={rule.scope} onChange={e => updateAlertRule(rule.id, { scope: e.target.value as AlertRule['scope'], target: '' })} className={inputClass}>
+                            {!featureOnly && <option value="all">whole log</option>}
+                            <option value="feature">per feature</option>
+                            {!featureOnly && <option value="user">per user</option>}
+                            {!featureOnly && <option value="host">per host</option>}
+                          </select>
+                          {rule.scope !== 'all' && (
+                            <select value={rule.target} onChange={e => updateAlertRule(rule.id, { target: e.target.value })} className={`${inputClass} max-w-[160px]`}>
+                              <option value="">each {rule.scope}</option>
+                              {rule.target && !targets.includes(rule.target) && <option value={rule.target}>{rule.target}</option>}
+                              {targets.map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                          )}
+                          <select value={rule.comparator} onChange={e => updateAlertRule(rule.id, { comparator: e.target.value as AlertRule['comparator'] })} className={inputClass}>
+                            {['>', '>=', '<', '<='].map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                          <input type="number" min={0} step="any" value={rule.threshold} onChange={e => updateAlertRule(rule.id, { threshold: Number(e.target.value) || 0 })} className={`${inputClass} w-20 font-mono-brand`} />
+                          <select value={rule.windowDays ?? ''} onChange={e => updateAlertRule(rule.id, { windowDays: e.target.value ? Number(e.target.value) : null })} className={inputClass}>
+                            <option value="">whole log</option>
+                            {[1, 7, 14, 30, 90].map(n => <option key={n} value={n}>last {n} day{n === 1 ? '' : 's'}</option>)}
+                          </select>
+                          <select value={rule.severity} onChange={e => updateAlertRule(rule.id, { severity: e.target.value as AlertRule['severity'] })} className={`${inputClass} ${SEVERITY_STYLES[rule.severity]}`}>
+                            <option value="critical">critical</option>
+                            <option value="warning">warning</option>
+                            <option value="info">info</option>
+                          </select>
+                          <button onClick={() => setAlertRules(prev => prev.filter(r => r.id !== rule.id))} className="ml-auto p-1.5 text-slate-600 hover:text-red-400" title="Delete rule">
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
+                      );
+                    })}
+                    {alertRules.length === 0 && <p className="px-5 py-6 text-xs text-slate-500">No rules — the dashboard will always report HEALTHY.</p>}
+                  </div>
+                </div>
+              </div>
+            );
+          })()}
+
           {activeTab === 'errors' && (
             <div className="space-y-10">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
@@ -1701,7 +3058,7 @@ export function App() {
                     <div key={i} className="py-2.5 px-6 flex gap-6 hover:bg-[#1a2332] rounded-lg group transition-all">
                       <span className="text-slate-400 whitespace-nowrap">{err.time}</span>
                       <span className={`font-black ${err.type === 'ERROR' ? 'text-red-500' : 'text-amber-500'}`}>[{err.type}]</span>
-                      <span className="text-slate-600 dark:text-slate-300 break-all">{err.raw}</span>
+                      <span className="text-slate-600 dark:text-slate-300 break-all">{err.raw || <span className="italic text-slate-500">line text not included in this bundle</span>}</span>
                     </div>
                   ))}
                   {d!.errors.length === 0 && (
@@ -1745,44 +3102,34 @@ export function App() {
                     Need further custom analysis? Export the structured dataset for PowerBI, Excel, or internal auditing tools.
                   </p>
                   <div className="grid grid-cols-2 gap-4 mt-auto">
-                    <button onClick={() => {
-                      if (!d) return;
-                      const rows = [['User','Host','Feature','Start','End','Duration (min)'].join(','),
-                        ...d.sessions.map(s => [s.user, s.host, s.feature, s.start.toISOString(), s.end?.toISOString() || '', Math.round(s.duration || 0)].join(','))];
-                      const blob = new Blob([rows.join('\n')], { type: 'text/csv' });
-                      const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = 'sessions.csv'; a.click();
-                    }} className="py-4 bg-slate-800 hover:bg-slate-700 font-black text-xs rounded-lg transition-all tracking-widest uppercase">
-                      Session Table
-                    </button>
-                    <button onClick={() => {
-                      if (!d) return;
-                      const rows = [['User','Sessions','Total Hours','Avg Session (min)','Denials'].join(','),
-                        ...Object.entries(d.userStats).map(([u, s]) => [u, s.sessions, (s.totalDuration / 60).toFixed(1), s.sessions > 0 ? Math.round(s.totalDuration / s.sessions) : 0, s.denials].join(','))];
-                      const blob = new Blob([rows.join('\n')], { type: 'text/csv' });
-                      const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = 'user-statistics.csv'; a.click();
-                    }} className="py-4 bg-slate-800 hover:bg-slate-700 font-black text-xs rounded-lg transition-all tracking-widest uppercase">
-                      User Statistics
-                    </button>
-                    <button onClick={() => {
-                      if (!d) return;
-                      const rows = [['Feature','Checkouts','Denials','Denial Rate %','Total Hours'].join(','),
-                        ...Object.entries(d.featureStats).map(([f, s]) => [f, s.checkouts, s.denials, s.checkouts > 0 ? ((s.denials / (s.checkouts + s.denials)) * 100).toFixed(1) : '0', (s.totalDuration / 60).toFixed(1)].join(','))];
-                      const blob = new Blob([rows.join('\n')], { type: 'text/csv' });
-                      const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = 'feature-statistics.csv'; a.click();
-                    }} className="py-4 bg-slate-800 hover:bg-slate-700 font-black text-xs rounded-lg transition-all tracking-widest uppercase">
-                      Feature Stats
-                    </button>
-                    <button onClick={() => {
-                      if (!d) return;
-                      const rows = [['Timestamp','Feature','User','Host','Reason'].join(','),
-                        ...d.denials.map(e => [e.time, e.feature || '', e.user || '', e.host || '', (e.reason || '').replace(/,/g, ';')].join(','))];
-                      const blob = new Blob([rows.join('\n')], { type: 'text/csv' });
-                      const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = 'denials.csv'; a.click();
-                    }} className="py-4 bg-slate-800 hover:bg-slate-700 font-black text-xs rounded-lg transition-all tracking-widest uppercase">
-                      Denial Log
-                    </button>
+                    {CSV_TABLES.map(table => (
+                      <button key={table.id} onClick={() => {
+                        if (!d) return;
+                        const blob = new Blob([table.build(d)], { type: 'text/csv' });
+                        const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = table.fileName; a.click();
+                      }} className="py-4 bg-slate-800 hover:bg-slate-700 font-black text-xs rounded-lg transition-all tracking-widest uppercase">
+                        {table.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-[#111827] p-6 border border-slate-800 flex flex-wrap items-center justify-between gap-6">
+                <div className="flex items-start gap-4">
+                  <div className="p-3 bg-[#1871bd]/10">
+                    <Database size={24} className="text-[#46b6e3]" />
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-bold mb-1">Workspace Bundle</h3>
+                    <p className="text-xs text-slate-500 max-w-xl leading-relaxed">
+                      Hand this analysis to a colleague or a customer's IT team: one JSON file with the parsed data, seat counts, costs, options-file rules and the current filters. They open it from the start screen — no log file needed.
+                    </p>
                   </div>
                 </div>
+                <button onClick={downloadBundle} className="px-5 py-3 bg-slate-800 hover:bg-slate-700 font-black text-xs transition-all tracking-widest uppercase flex items-center gap-2">
+                  <Download size={14} /> Export Bundle
+                </button>
               </div>
 
               <div className="bg-[#1e2943] border border-slate-800 p-6 relative overflow-hidden">
@@ -1797,12 +3144,9 @@ export function App() {
                     <h4 className="text-lg font-bold text-white mb-2 tracking-tight">Optimization Recommendation</h4>
                     <p className="text-blue-100/70 max-w-2xl leading-relaxed font-medium">
                       {(() => {
-                        const dr = data ? ((d!.denials.length / ((d!.sessions.length + d!.denials.length) || 1)) * 100) : 0;
-                        const longSessions = data ? d!.sessions.filter(s => (s.duration || 0) > 480).length : 0;
-                        const longPct = data ? Math.round((longSessions / (d!.sessions.length || 1)) * 100) : 0;
-                        if (dr > 10) return <>Your denial rate is <strong>{dr.toFixed(1)}%</strong> — consider adding seats for your most-denied features to reduce engineer downtime.</>;
-                        if (dr > 5) return <>Denial rate of <strong>{dr.toFixed(1)}%</strong> detected. Review seat counts for frequently denied features and consider implementing timeout policies for idle sessions.</>;
-                        if (longPct > 20) return <><strong>{longPct}%</strong> of sessions exceed 8 hours. Consider implementing idle timeout rules to free licenses for other users.</>;
+                        // Advice from the most severe alert rule that has some
+                        const advised = alerts.find(a => a.rule.recommendation);
+                        if (advised) return alertRecommendation(advised);
                         return <>License utilization appears healthy. Continue monitoring for seasonal trends and review seat counts at renewal time.</>;
                       })()}
                     </p>
@@ -1814,7 +3158,10 @@ export function App() {
 
           {activeTab === 'cost' && d && (() => {
             const features = Object.keys(d.featureStats);
-            const logDays = d.sessions.length > 0 ? Math.max(1, Math.round((new Date(d.sessions[d.sessions.length - 1]?.start).getTime() - new Date(d.sessions[0]?.start).getTime()) / 86400000)) : 1;
+            // reduce rather than spreading: Math.max(...) overflows the stack on very large logs
+            const firstStart = d.sessions.reduce((min, s) => Math.min(min, s.start.getTime()), Infinity);
+            const lastStart = d.sessions.reduce((max, s) => Math.max(max, s.start.getTime()), -Infinity);
+            const logDays = d.sessions.length > 0 ? Math.max(1, Math.round((lastStart - firstStart) / 86400000)) : 1;
 
             return (
               <div className="space-y-6 overflow-x-hidden">
@@ -1831,21 +3178,7 @@ export function App() {
                         const file = e.target.files?.[0];
                         if (!file) return;
                         const reader = new FileReader();
-                        reader.onload = () => {
-                          const text = reader.result as string;
-                          // Parse INCREMENT lines for seat counts: INCREMENT feature SW_D ... count ...
-                          const lines = text.split('\n');
-                          const seats: Record<string, number> = {};
-                          lines.forEach(line => {
-                            const m = line.match(/^INCREMENT\s+(\S+)\s+\S+\s+\S+\s+\S+\s+(\d+)/i);
-                            if (m) seats[m[1].toLowerCase()] = parseInt(m[2]);
-                          });
-                          if (Object.keys(seats).length > 0) {
-                            const mapped: Record<string, number> = {};
-                            features.forEach(f => { if (seats[f.toLowerCase()]) mapped[f] = seats[f.toLowerCase()]; });
-                            setLicenseSeats(prev => ({ ...prev, ...mapped }));
-                          }
-                        };
+                        reader.onload = () => importLicenseFile(file.name, reader.result as string);
                         reader.readAsText(file);
                         e.target.value = '';
                       }} />
@@ -1887,20 +3220,8 @@ export function App() {
                   <div className="space-y-3">
                     {features.map(f => {
                       const stats = d.featureStats[f];
-                      const peakConcurrent = d.concurrentUsage.reduce((max, c) => {
-                        // We approximate per-feature peak from sessions
-                        return max;
-                      }, 0);
-                      // Calculate actual per-feature peak concurrent from sessions
                       const featureSessions = d.sessions.filter(s => s.feature === f);
-                      const events: { time: number, delta: number }[] = [];
-                      featureSessions.forEach(s => {
-                        events.push({ time: s.start.getTime(), delta: 1 });
-                        if (s.end) events.push({ time: s.end.getTime(), delta: -1 });
-                      });
-                      events.sort((a, b) => a.time - b.time);
-                      let concurrent = 0, featurePeak = 0;
-                      events.forEach(e => { concurrent += e.delta; featurePeak = Math.max(featurePeak, concurrent); });
+                      const { peak: featurePeak, p50, p90, p95 } = d.featureConcurrency[f] || { peak: 0, p50: 0, p90: 0, p95: 0 };
 
                       const totalSeats = licenseSeats[f] || 0;
                       const denials = stats.denials;
@@ -1912,21 +3233,15 @@ export function App() {
                       const unusedSeats = hasSeats ? totalSeats - featurePeak : 0;
                       const utilizationPct = hasSeats ? (featurePeak / totalSeats) * 100 : 0;
 
-                      // Calculate concurrent distribution for this feature
-                      // Sample concurrent usage at each event point, collect all values
-                      const concurrentSamples: number[] = [];
-                      let running = 0;
-                      events.forEach(e => { running += e.delta; concurrentSamples.push(running); });
-                      concurrentSamples.sort((a, b) => a - b);
-                      const p50 = concurrentSamples[Math.floor(concurrentSamples.length * 0.5)] || 0;
-                      const p90 = concurrentSamples[Math.floor(concurrentSamples.length * 0.9)] || 0;
-                      const p95 = concurrentSamples[Math.floor(concurrentSamples.length * 0.95)] || 0;
                       const peakVsTypicalGap = featurePeak > 0 ? ((featurePeak - p90) / featurePeak) * 100 : 0;
                       
                       // ROI pre-calc for categorization: if denials exist but adding seats costs more than the productivity loss, it's right-sized
+                      // Measured engineer wait from denial episodes, not a flat allowance per denial
                       const ENG_HOURLY_PRE = 40;
-                      const annualizedDenialsPre = logDays > 0 ? Math.round(denials * (365 / logDays)) : denials;
-                      const annualDenialCostPre = annualizedDenialsPre * 0.5 * ENG_HOURLY_PRE; // 30min @ $40/hr
+                      const featureEpisodes = denialEpisodes.filter(e => e.feature === f);
+                      const episodeStats = summarizeDenialEpisodes(featureEpisodes);
+                      const annualHoursLostPre = (episodeStats.waitMinutes / 60) * (logDays > 0 ? 365 / logDays : 1);
+                      const annualDenialCostPre = annualHoursLostPre * ENG_HOURLY_PRE;
                       const seatsNeededPre = hasSeats ? Math.max(1, featurePeak - totalSeats + 1) : 1;
                       const seatInvestmentPre = seatsNeededPre * cost;
                       const roiJustified = cost > 0 && annualDenialCostPre > seatInvestmentPre;
@@ -2012,35 +3327,9 @@ export function App() {
                                 </div>
                               )}
                               {isOverUtilized && (() => {
-                                // Measure actual wait times: for each denial, find same user's next checkout of same feature
-                                const featureDenials = d.denials.filter(den => den.feature === f);
-                                const waitTimesMin: number[] = [];
-                                featureDenials.forEach(den => {
-                                  if (!den.user || !den.date || !den.time) return;
-                                  const denialTime = new Date(`${den.date} ${den.time}`);
-                                  if (isNaN(denialTime.getTime())) return;
-                                  // Find next checkout by same user for same feature
-                                  const nextCheckout = featureSessions
-                                    .filter(s => s.user === den.user && s.start > denialTime)
-                                    .sort((a, b) => a.start.getTime() - b.start.getTime())[0];
-                                  if (nextCheckout) {
-                                    const waitMin = (nextCheckout.start.getTime() - denialTime.getTime()) / 60000;
-                                    // Filter out next-day returns (>4 hours = probably gave up and came back later)
-                                    if (waitMin > 0 && waitMin <= 240) waitTimesMin.push(waitMin);
-                                  }
-                                });
-                                
-                                // Conservative: 30 min lost per denial (waiting + context switch)
-                                const measuredWaits = waitTimesMin.length;
-                                const medianWaitMin = measuredWaits >= 3
-                                  ? waitTimesMin.sort((a, b) => a - b)[Math.floor(measuredWaits / 2)]
-                                  : 30;
-                                const effectiveWaitMin = Math.min(medianWaitMin, 30); // cap at 30 min to stay conservative
-                                
                                 const ENG_HOURLY = 40;
-                                const annualizedDenials = logDays > 0 ? Math.round(denials * (365 / logDays)) : denials;
-                                const annualHoursLost = annualizedDenials * (effectiveWaitMin / 60);
-                                const annualDenialCost = Math.round(annualHoursLost * ENG_HOURLY);
+                                const annualizedEpisodes = logDays > 0 ? Math.round(episodeStats.episodes * (365 / logDays)) : episodeStats.episodes;
+                                const annualDenialCost = Math.round(annualHoursLostPre * ENG_HOURLY);
                                 const seatsNeeded = hasSeats ? Math.max(1, featurePeak - totalSeats + 1) : Math.max(1, Math.ceil(denialRate / 10));
                                 const seatInvestment = seatsNeeded * cost;
                                 const roiPositive = cost > 0 && annualDenialCost > seatInvestment;
@@ -2049,11 +3338,9 @@ export function App() {
                                 return <div className={`${roiPositive ? 'bg-red-500/10 border-red-500/20' : 'bg-orange-500/10 border-orange-500/20'} border p-3 mb-2`}>
                                   <p className={`${roiPositive ? 'text-red-400' : 'text-orange-400'} text-xs font-semibold mb-1`}>⚠ Engineer downtime from denials</p>
                                   <p className="text-slate-400 text-[11px]">
-                                    <span className="font-mono-brand text-white">{denials}</span> denials over {logDays} days → <span className="font-mono-brand text-white">~{annualizedDenials.toLocaleString()}</span> projected/yr.
-                                    {measuredWaits >= 3
-                                      ? <> Median wait before retry: <span className="font-mono-brand text-white">{Math.round(medianWaitMin)} min</span> (measured from {measuredWaits} denial→checkout pairs).</>
-                                      : <> Estimated ~{Math.round(effectiveWaitMin)} min lost per denial (waiting, retrying, context-switching).</>
-                                    }
+                                    <span className="font-mono-brand text-white">{denials}</span> denials over {logDays} days are <span className="font-mono-brand text-white">{episodeStats.episodes}</span> blocked requests once retries are collapsed → <span className="font-mono-brand text-white">~{annualizedEpisodes.toLocaleString()}</span> projected/yr.
+                                    {episodeStats.granted > 0 && <> {episodeStats.granted} got a seat after a median wait of <span className="font-mono-brand text-white">{formatDuration(episodeStats.medianWaitMinutes)}</span>.</>}
+                                    {episodeStats.abandoned > 0 && <> <span className="font-mono-brand text-white">{episodeStats.abandoned}</span> were abandoned — that lost work isn't priced in.</>}
                                   </p>
                                   {hasSeats && cost > 0 && (
                                     <div className="mt-3 pt-2 border-t border-slate-700/50">
@@ -2128,12 +3415,14 @@ export function App() {
                       const checks: { status: 'ok' | 'warn' | 'error', label: string, detail: string }[] = [];
                       
                       // Check for log restart (multiple "started on" entries)
-                      const startEntries = d.entries.filter(e => e.raw.includes('FLEXnet Licensing') && e.raw.includes('started on'));
-                      if (startEntries.length > 1) {
-                        checks.push({ status: 'warn', label: 'Log contains multiple server starts', detail: `Found ${startEntries.length} restart events. Your log may be overwriting on restart instead of appending. Add a "+" prefix to your log path in the registry to preserve history.` });
+                      if (d.parseHealth.serverRestarts > 0) {
+                        checks.push({ status: 'warn', label: 'Log contains multiple server starts', detail: `Found ${d.parseHealth.serverRestarts + 1} start events. Your log may be overwriting on restart instead of appending. Add a "+" prefix to your log path in the registry to preserve history.` });
                       } else {
                         checks.push({ status: 'ok', label: 'Single server session detected', detail: 'Log appears continuous with no restarts.' });
                       }
+                      if (d.parseHealth.restartClosedSessions > 0) {
+                        checks.push({ status: 'warn', label: `${d.parseHealth.restartClosedSessions} checkout(s) cut off by server restarts`, detail: 'These sessions had no check-in before lmgrd or SW_D went down; they are counted up to the restart.' });
+                      }
 
                       // Check for time gaps > 24h (missing data)
                       const timestamps = d.sessions.map(s => s.start.getTime()).sort();
@@ -2148,6 +3437,19 @@ export function App() {
                         checks.push({ status: 'ok', label: 'No significant time gaps', detail: 'Data appears continuous throughout the log period.' });
                       }
 
+                      // Date repair (midnight rollovers without a TIMESTAMP, undated lines)
+                      const ph = d.parseHealth;
+                      if (ph.discardedSessions > 0) {
+                        checks.push({ status: 'warn', label: `${ph.discardedSessions} session(s) discarded`, detail: `Check-in appeared before its checkout even after date repair.${ph.repairedSessions > 0 ? ` ${ph.repairedSessions} other session(s) were repaired.` : ''}` });
+                      } else if (ph.repairedSessions > 0) {
+                        checks.push({ status: 'ok', label: `${ph.repairedSessions} session(s) repaired`, detail: `Re-dated across ${ph.inferredRollovers} midnight rollover(s) inferred from the clock going backwards between TIMESTAMP lines.` });
+                      } else {
+                        checks.push({ status: 'ok', label: 'Session dates consistent', detail: 'No sessions needed date repair.' });
+                      }
+                      if (ph.undatedLines > 0) {
+                        checks.push({ status: 'warn', label: `${ph.undatedLines.toLocaleString()} undated lines`, detail: `No TIMESTAMP or server start line found — these lines were assumed to start on January 1.` });
+                      }
+
                       // Check for errors
                       if (d.errors.length > 5) {
                         checks.push({ status: 'error', label: `${d.errors.length} errors detected`, detail: 'Review the System Errors tab for details.' });
@@ -2180,54 +3482,13 @@ export function App() {
           })()}
 
           {activeTab === 'options' && d && (() => {
-            // Generate options file text
-            const generateOptionsFile = () => {
-              const lines: string[] = [];
-              lines.push('# SolidNetWork License Options File (sw_d.opt)');
-              lines.push(`# Generated by SNL License Dashboard · ${new Date().toLocaleDateString()}`);
-              lines.push(`# Server: ${data.metadata.serverName}`);
-              lines.push('');
-              if (optTimeoutEnabled) {
-                lines.push(`# Return idle licenses after ${formatDuration(optTimeout / 60)} of inactivity`);
-                lines.push(`TIMEOUTALL ${optTimeout}`);
-              } else {
-                lines.push('# No global idle timeout configured');
-              }
-              if (optFeatureTimeouts.length > 0) {
-                lines.push('');
-                lines.push('# Per-feature idle timeouts (override global)');
-                optFeatureTimeouts.forEach(ft => {
-                  lines.push(`TIMEOUT ${ft.feature} ${ft.seconds}`);
-                });
-              }
-              lines.push('');
-
-              if (optGroups.length > 0) {
-                lines.push('# User Groups');
-                optGroups.forEach(g => {
-                  if (g.users.length > 0) {
-                    lines.push(`GROUP ${g.name} ${g.users.join(' ')}`);
-                  }
-                });
-                lines.push('');
-              }
-
-              if (optRules.length > 0) {
-                lines.push('# License Rules');
-                optRules.forEach(r => {
-                  const feat = r.versionFilter ? `${r.feature}:SWVERSION=${r.versionFilter}` : r.feature;
-                  if (r.type === 'MAX' || r.type === 'RESERVE') {
-                    lines.push(`${r.type} ${r.count} ${feat} ${r.targetType} ${r.groupOrUser}`);
-                  } else {
-                    lines.push(`${r.type} ${feat} ${r.targetType} ${r.groupOrUser}`);
-                  }
-                });
-              }
-
-              return lines.join('\n');
-            };
-
-            const optionsText = generateOptionsFile();
+            const optionsText = generateOptionsFile({
+              timeoutEnabled: optTimeoutEnabled, timeout: optTimeout, featureTimeouts: optFeatureTimeouts, groups: optGroups, rules: optRules, extras: optExtras,
+            }, data.metadata.serverName);
+            const optionsIssues = lintOptionsFile(optionsText, { sessions: d.sessions, licenseSeats });
+            const downloadBlocked = hasLintErrors(optionsIssues) && !optLintOverride;
+            const baselineChanges = optBaseline ? diffOptions(parseOptionsFile(optBaseline.text), parseOptionsFile(optionsText)) : [];
+            const baselineLines = optBaseline ? diffLines(optBaseline.text, optionsText) : [];
             const detectedFeatures = Object.keys(d.featureStats);
             const logUsers = Array.from(new Set(d.sessions.map(s => s.user))).sort();
             const detectedUsers = [...new Set([...logUsers, ...customUsers])].sort();
@@ -2243,6 +3504,8 @@ export function App() {
               'EXCLUDE': { label: 'Block completely', hint: 'Prevents this target from using this feature at all. They\'ll get a "license denied" error. Use to cut off specific users or machines.' },
               'INCLUDE_BORROW': { label: 'Allow borrowing for', hint: 'Only this target can borrow (take offline) this license. Borrowing lets users work away from the network for a set period.' },
               'EXCLUDE_BORROW': { label: 'Block borrowing for', hint: 'Prevents this target from taking this license offline. They can still use it while connected to the network.' },
+              'INCLUDEALL': { label: 'Restrict everything to', hint: 'Like "Restrict to only", but for every feature on the server at once. Anyone not on an INCLUDEALL line is denied everything.' },
+              'EXCLUDEALL': { label: 'Block everything for', hint: 'Like "Block completely", but for every feature on the server at once.' },
             };
 
             const targetLabels: Record<string, { label: string, hint: string }> = {
@@ -2250,66 +3513,47 @@ export function App() {
               'GROUP': { label: 'a group', hint: 'A named set of users defined above' },
               'HOST': { label: 'a machine', hint: 'A specific computer by its network hostname' },
               'INTERNET': { label: 'a subnet', hint: 'An IP address range — use * as wildcard (e.g. 192.168.1.*)' },
+              'HOST_GROUP': { label: 'a machine group', hint: 'A named set of hostnames defined in Step 2' },
+              'PROJECT': { label: 'a project', hint: 'The LM_PROJECT environment variable set on the client' },
             };
 
             const rulesEndRef = React.createRef<HTMLDivElement>();
             const scrollToRules = () => setTimeout(() => rulesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
             const addRuleAndScroll = (rule: typeof optRules[0]) => { setOptRules([...optRules, rule]); scrollToRules(); };
+            const patchExtras = (patch: Partial<OptionsExtras>) => setOptExtras({ ...optExtras, ...patch });
+            const logPathInput = (key: 'reportLog' | 'debugLog', label: string, hint: string) => {
+              const value = optExtras[key];
+              const append = value.startsWith('+');
+              const path = append ? value.slice(1) : value;
+              return (
+                <div className="mb-3">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className="text-slate-400 w-20 shrink-0">{label}</span>
+                    <input type="text" value={path} placeholder="not written" onChange={e => patchExtras({ [key]: e.target.value.trim() ? `${append ? '+' : ''}${e.target.value.trim()}` : '' })}
+                      className="bg-[#0c1220] border border-slate-800 text-[11px] text-white px-2 py-1 font-mono-brand flex-1 min-w-0 focus:border-[#1871bd] focus:outline-none placeholder:text-slate-700" />
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500 cursor-pointer">
+                      <input type="checkbox" checked={append} disabled={!path} onChange={e => patchExtras({ [key]: `${e.target.checked ? '+' : ''}${path}` })} className="accent-[#1871bd]" /> append
+                    </label>
+                  </div>
+                  <p className="text-[10px] text-slate-600 mt-0.5 ml-[5.5rem]">{hint}</p>
+                </div>
+              );
+            };
 
-            // Parse an existing sw_d.opt file
-            const importOptionsFile = (text: string) => {
-              const lines = text.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('#'));
-              const newGroups: typeof optGroups = [];
-              const newRules: typeof optRules = [];
-              let foundTimeout = false;
-              const newFeatureTimeouts: typeof optFeatureTimeouts = [];
-              const newCustomUsers: string[] = [];
-
-              for (const line of lines) {
-                const parts = line.split(/\s+/);
-                const cmd = parts[0]?.toUpperCase();
-
-                if (cmd === 'TIMEOUTALL' && parts[1]) {
-                  setOptTimeoutEnabled(true);
-                  setOptTimeout(parseInt(parts[1]) || 3600);
-                  foundTimeout = true;
-                } else if (cmd === 'TIMEOUT' && parts[1] && parts[2]) {
-                  newFeatureTimeouts.push({ feature: parts[1], seconds: parseInt(parts[2]) || 3600 });
-                } else if (cmd === 'GROUP' && parts[1]) {
-                  const users = parts.slice(2);
-                  newGroups.push({ name: parts[1], users });
-                  users.forEach(u => { if (!logUsers.includes(u) && !newCustomUsers.includes(u)) newCustomUsers.push(u); });
-                } else if (['MAX', 'RESERVE'].includes(cmd) && parts.length >= 5) {
-                  // MAX/RESERVE count feature TARGET target_name
-                  const feature = parts[2].split(':')[0];
-                  const versionMatch = parts[2].match(/:SWVERSION=(\d+)/i);
-                  newRules.push({
-                    type: cmd as any,
-                    count: parseInt(parts[1]) || 1,
-                    feature,
-                    targetType: (parts[3]?.toUpperCase() || 'USER') as any,
-                    groupOrUser: parts[4] || '',
-                    versionFilter: versionMatch?.[1] || '',
-                  });
-                } else if (['INCLUDE', 'EXCLUDE', 'INCLUDE_BORROW', 'EXCLUDE_BORROW'].includes(cmd) && parts.length >= 4) {
-                  // INCLUDE/EXCLUDE feature TARGET target_name
-                  const feature = parts[1].split(':')[0];
-                  const versionMatch = parts[1].match(/:SWVERSION=(\d+)/i);
-                  newRules.push({
-                    type: cmd as any,
-                    count: 1,
-                    feature,
-                    targetType: (parts[2]?.toUpperCase() || 'USER') as any,
-                    groupOrUser: parts[3] || '',
-                    versionFilter: versionMatch?.[1] || '',
-                  });
-                }
-              }
-
-              if (!foundTimeout) { setOptTimeoutEnabled(false); }
-              if (newFeatureTimeouts.length > 0) setOptFeatureTimeouts(newFeatureTimeouts);
-              if (newGroups.length > 0) setOptGroups(newGroups);
-              if (newRules.length > 0) setOptRules(newRules);
+            // Load an existing sw_d.opt, replacing the builder's current configuration
+            const importOptionsFile = (text: string, fileName: string) => {
+              // Report problems against the file as written, before it's turned into builder state
+              setOptImportReport({ fileName, issues: lintOptionsFile(text, { sessions: d.sessions, licenseSeats }) });
+              setOptLintOverride(false);
+              const imported = parseOptionsFile(text);
+              setOptTimeoutEnabled(imported.timeoutEnabled);
+              if (imported.timeoutEnabled) setOptTimeout(imported.timeout);
+              setOptFeatureTimeouts(imported.featureTimeouts);
+              setOptGroups(imported.groups);
+              setOptRules(imported.rules);
+              setOptExtras(imported.extras);
+              setOptBaseline({ fileName, text, importedAt: new Date().toISOString() });
+              const newCustomUsers = imported.groups.flatMap(g => g.users).filter(u => !logUsers.includes(u));
               if (newCustomUsers.length > 0) setCustomUsers(prev => [...new Set([...prev, ...newCustomUsers])]);
             };
 
@@ -2329,7 +3573,7 @@ export function App() {
                         const file = e.target.files?.[0];
                         if (file) {
                           const reader = new FileReader();
-                          reader.onload = () => { if (typeof reader.result === 'string') importOptionsFile(reader.result); };
+                          reader.onload = () => { if (typeof reader.result === 'string') importOptionsFile(reader.result, file.name); };
                           reader.readAsText(file);
                         }
                         e.target.value = '';
@@ -2338,6 +3582,22 @@ export function App() {
                   </div>
                 </div>
 
+                {/* What the linter made of the last imported file */}
+                {optImportReport && (
+                  <div className="border border-slate-800 bg-[#111827] p-5">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-xs font-semibold text-slate-400">
+                        Imported <span className="font-mono-brand text-[#46b6e3]">{optImportReport.fileName}</span>
+                        <span className="text-slate-600 font-normal"> — {optImportReport.issues.filter(i => i.severity === 'error').length} errors, {optImportReport.issues.filter(i => i.severity === 'warning').length} warnings</span>
+                      </h3>
+                      <button onClick={() => setOptImportReport(null)} className="text-slate-600 hover:text-white"><X size={12} /></button>
+                    </div>
+                    {optImportReport.issues.length > 0
+                      ? <OptionsIssueList issues={optImportReport.issues} />
+                      : <p className="text-[11px] text-emerald-400">No problems found — every line was carried over.</p>}
+                  </div>
+                )}
+
                 {/* Data-driven suggestions */}
                 <div className="border border-slate-800 bg-[#111827] p-5">
                   <h3 className="text-xs font-semibold text-slate-400 mb-3 flex items-center gap-2"><Info size={13} className="text-[#1871bd]" /> Recommendations from Your Log Data</h3>
@@ -2449,6 +3709,68 @@ export function App() {
                       </div>
                     </div>
 
+                    {/* What the timeout would have done, replayed over this log */}
+                    <div className="border border-slate-800 bg-[#111827] p-5">
+                      <h3 className="text-sm font-semibold text-slate-300 mb-1">Timeout What-If</h3>
+                      <p className="text-[11px] text-slate-500 mb-4">
+                        Replays this log under the timeouts above. The log has no keyboard activity, so a user counts as idle outside 07:00–19:00 on weekdays unless they check something out or in.
+                      </p>
+                      {timeoutSimulation ? (
+                        <>
+                          <div className="grid grid-cols-3 gap-px bg-slate-800 border border-slate-800 mb-4">
+                            {[
+                              { label: 'Sessions Reclaimed', value: timeoutSimulation.reclaimedSessions.toLocaleString() },
+                              { label: 'Seat Hours Freed', value: timeoutSimulation.reclaimedHours.toFixed(0) },
+                              { label: 'Denials Avoided', value: `${timeoutSimulation.denialsAvoided} / ${timeoutSimulation.capacityDenials}` },
+                            ].map(k => (
+                              <div key={k.label} className="bg-[#0c1220] p-3">
+                                <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">{k.label}</p>
+                                <p className="text-lg font-bold font-mono-brand text-white">{k.value}</p>
+                              </div>
+                            ))}
+                          </div>
+                          <table className="w-full text-left">
+                            <thead>
+                              <tr>
+                                {['Feature', 'Timeout', 'Peak', 'P90', 'Reclaimed', 'Avoided'].map(h => (
+                                  <th key={h} className="py-1.5 pr-3 text-[10px] font-semibold uppercase tracking-wider text-slate-500">{h}</th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800/50">
+                              {timeoutSimulation.features.filter(f => f.timeoutSeconds).map(f => (
+                                <tr key={f.feature}>
+                                  <td className="py-1.5 pr-3 text-[11px] font-mono-brand text-[#46b6e3]">{SNL_FEATURES[f.feature.toLowerCase()] || f.feature}</td>
+                                  <td className="py-1.5 pr-3 text-[11px] font-mono-brand text-slate-400">{formatDuration(f.timeoutSeconds! / 60)}</td>
+                                  <td className="py-1.5 pr-3 text-[11px] font-mono-brand">{f.peakBefore}{f.peakAfter !== f.peakBefore && <span className="text-emerald-400"> → {f.peakAfter}</span>}</td>
+                                  <td className="py-1.5 pr-3 text-[11px] font-mono-brand">{f.p90Before}{f.p90After !== f.p90Before && <span className="text-emerald-400"> → {f.p90After}</span>}</td>
+                                  <td className="py-1.5 pr-3 text-[11px] font-mono-brand">{f.reclaimedSessions} <span className="text-slate-600">({f.reclaimedHours.toFixed(0)}h)</span></td>
+                                  <td className="py-1.5 pr-3 text-[11px] font-mono-brand">{f.capacityDenials > 0 ? `${f.denialsAvoided} of ${f.capacityDenials}` : '—'}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </>
+                      ) : (
+                        <p className="text-[11px] text-slate-500 mb-3">Set a timeout above to see what it would have reclaimed.</p>
+                      )}
+                      {timeoutPresetSimulations.length > 0 && (
+                        <div className="mt-4 pt-3 border-t border-slate-800/50">
+                          <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-2">TIMEOUTALL alone, for comparison</p>
+                          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            {timeoutPresetSimulations.map(({ seconds, result }) => (
+                              <button key={seconds} onClick={() => { setOptTimeoutEnabled(true); setOptTimeout(seconds); }}
+                                className={`p-2 text-left border transition-colors ${optTimeoutEnabled && optTimeout === seconds ? 'border-[#1871bd] bg-[#1871bd]/10' : 'border-slate-800 hover:border-slate-600'}`}>
+                                <p className="text-xs font-mono-brand text-[#46b6e3]">{formatDuration(seconds / 60)}</p>
+                                <p className="text-[10px] text-slate-500">{result.reclaimedHours.toFixed(0)}h freed · {result.denialsAvoided} avoided</p>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <p className="text-[10px] text-slate-600 mt-3">Avoided counts only capacity denials that met a seat the timeout had freed. Reclaimed users are assumed to check out again when they're next active.</p>
+                    </div>
+
                     {/* Step 2: Groups */}
                     <div className="border border-slate-800 bg-[#111827] p-5">
                       <div className="flex items-center gap-2 mb-1">
@@ -2505,6 +3827,61 @@ export function App() {
                           <Plus size={14} /> Create a group
                         </button>
                       </div>
+
+                      {/* Machine groups: HOST_GROUP lines, for rules aimed at sets of workstations */}
+                      <div className="border-t border-slate-800/50 pt-3 mt-4 ml-7">
+                        <span className="text-[11px] text-slate-400">Machine groups</span>
+                        <p className="text-[10px] text-slate-600 mb-2">Group workstations by hostname — e.g. the lab PCs — and target them with "a machine group" in Step 3.</p>
+                        <div className="space-y-2">
+                          {optExtras.hostGroups.map((group, gi) => {
+                            const updateHostGroup = (hosts: string[], name = group.name) =>
+                              setOptExtras({ ...optExtras, hostGroups: optExtras.hostGroups.map((g, i) => i === gi ? { ...g, name, hosts } : g) });
+                            return (
+                              <div key={gi} className="bg-[#0c1220] border border-slate-800 p-3">
+                                <div className="flex items-center gap-2 mb-2">
+                                  <span className="text-[10px] text-slate-500">Group name:</span>
+                                  <input type="text" value={group.name} onChange={e => updateHostGroup(group.hosts, e.target.value.replace(/\s/g, '_'))}
+                                    className="bg-transparent border-b border-slate-700 text-white text-xs font-mono-brand px-1 py-0.5 w-32 focus:border-[#1871bd] focus:outline-none" />
+                                  <button onClick={() => setOptExtras({ ...optExtras, hostGroups: optExtras.hostGroups.filter((_, i) => i !== gi) })} className="ml-auto text-slate-600 hover:text-red-400"><Trash2 size={12} /></button>
+                                </div>
+                                <div className="flex flex-wrap gap-1 mb-2">
+                                  {group.hosts.map(h => (
+                                    <span key={h} className="flex items-center gap-1 px-1.5 py-0.5 bg-[#1871bd]/10 border border-[#1871bd]/30 text-[#46b6e3] text-[10px]">
+                                      {h}
+                                      <button onClick={() => updateHostGroup(group.hosts.filter(x => x !== h))}><X size={8} /></button>
+                                    </span>
+                                  ))}
+                                  {group.hosts.length === 0 && <span className="text-[10px] text-slate-600 italic">No machines yet</span>}
+                                </div>
+                                <div className="flex gap-1">
+                                  <select value="" onChange={e => { if (e.target.value) updateHostGroup([...group.hosts, e.target.value]); }}
+                                    className="bg-[#111827] border border-slate-800 text-[11px] text-slate-400 px-2 py-1 flex-1 focus:border-[#1871bd] focus:outline-none">
+                                    <option value="">+ Pick from log…</option>
+                                    {detectedHosts.filter(h => !group.hosts.includes(h)).map(h => <option key={h} value={h}>{h}</option>)}
+                                  </select>
+                                  <form className="flex gap-1" onSubmit={e => {
+                                    e.preventDefault();
+                                    const input = (e.target as HTMLFormElement).elements.namedItem('customHost') as HTMLInputElement;
+                                    const val = input.value.trim();
+                                    if (val && !group.hosts.includes(val)) { updateHostGroup([...group.hosts, val]); input.value = ''; }
+                                  }}>
+                                    <input name="customHost" type="text" placeholder="or type a hostname…" className="bg-[#111827] border border-slate-800 text-[11px] text-white px-2 py-1 w-32 focus:border-[#1871bd] focus:outline-none placeholder:text-slate-700" />
+                                    <button type="submit" className="text-[#1871bd] hover:text-[#46b6e3] px-1"><Plus size={12} /></button>
+                                  </form>
+                                </div>
+                              </div>
+                            );
+                          })}
+                          <button onClick={() => setOptExtras({ ...optExtras, hostGroups: [...optExtras.hostGroups, { name: `machines${optExtras.hostGroups.length + 1}`, hosts: [] }] })}
+                            className="w-full py-2 border border-dashed border-slate-700 text-xs text-slate-500 hover:text-[#46b6e3] hover:border-[#1871bd]/50 transition-colors flex items-center justify-center gap-1">
+                            <Plus size={14} /> Create a machine group
+                          </button>
+                        </div>
+                        <label className="flex items-center gap-2 mt-3 text-[11px] text-slate-500 cursor-pointer">
+                          <input type="checkbox" checked={optExtras.groupCaseInsensitive} onChange={e => setOptExtras({ ...optExtras, groupCaseInsensitive: e.target.checked })} className="accent-[#1871bd]" />
+                          Match group members regardless of case <span className="font-mono-brand text-slate-600">(GROUPCASEINSENSITIVE ON)</span>
+                        </label>
+                      </div>
                     </div>
 
                     {/* Step 3: Rules */}
@@ -2517,9 +3894,25 @@ export function App() {
                       <p className="text-[11px] text-slate-500 mb-2 ml-7">Control who can use which features. Each rule applies to one target — a single user, machine, or group.</p>
                       <p className="text-[10px] text-slate-600 mb-4 ml-7">💡 Need to apply the same rule to multiple users? Create a Group in Step 2 and target the group instead of individual users. Much cleaner than multiple rules.</p>
 
+                      {policySimulation && (
+                        <div className="ml-7 mb-4 p-3 bg-[#0c1220] border border-slate-800">
+                          <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-2">Replayed against this log</p>
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs">
+                            <span><span className={`font-mono-brand font-bold ${policySimulation.deniedCheckouts > 0 ? 'text-red-400' : 'text-white'}`}>{policySimulation.deniedCheckouts}</span> <span className="text-slate-500">checkouts would have been denied</span></span>
+                            <span><span className={`font-mono-brand font-bold ${policySimulation.preventedDenials > 0 ? 'text-emerald-400' : 'text-white'}`}>{policySimulation.preventedDenials}</span> <span className="text-slate-500">denials absorbed by reservations</span></span>
+                          </div>
+                          {policySimulation.lockedOutUsers.length > 0 && (
+                            <p className="text-[11px] text-red-400/80 mt-2">
+                              Locked out of a feature entirely: <span className="font-mono-brand">{policySimulation.lockedOutUsers.slice(0, 8).join(', ')}{policySimulation.lockedOutUsers.length > 8 ? ` +${policySimulation.lockedOutUsers.length - 8} more` : ''}</span>
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       <div className="space-y-3 ml-7">
                         {optRules.map((rule, ri) => {
                           const desc = ruleDescriptions[rule.type];
+                          const impact = policySimulation?.rules[ri];
                           return (
                             <div key={ri} className="bg-[#0c1220] border border-slate-800 p-3">
                               {/* Row 1: Action + count */}
@@ -2534,12 +3927,17 @@ export function App() {
                                     className="bg-[#111827] border border-slate-800 text-white text-[11px] px-2 py-1.5 w-14 font-mono-brand focus:outline-none" />
                                 )}
 
-                                <span className="text-slate-500 shrink-0">of</span>
-
-                                <select value={rule.feature} onChange={e => { const r = [...optRules]; r[ri].feature = e.target.value; setOptRules(r); }}
-                                  className="bg-[#111827] border border-slate-800 text-[11px] text-[#46b6e3] px-2 py-1.5 font-mono-brand focus:outline-none min-w-0 max-w-[180px]">
-                                  {detectedFeatures.map(f => <option key={f} value={f}>{SNL_FEATURES[f.toLowerCase()] || f}</option>)}
-                                </select>
+                                {isAllFeaturesRule(rule.type) ? (
+                                  <span className="text-slate-500 shrink-0">on every feature</span>
+                                ) : (
+                                  <>
+                                    <span className="text-slate-500 shrink-0">of</span>
+                                    <select value={rule.feature} onChange={e => { const r = [...optRules]; r[ri].feature = e.target.value; setOptRules(r); }}
+                                      className="bg-[#111827] border border-slate-800 text-[11px] text-[#46b6e3] px-2 py-1.5 font-mono-brand focus:outline-none min-w-0 max-w-[180px]">
+                                      {(detectedFeatures.includes(rule.feature) || !rule.feature ? detectedFeatures : [rule.feature, ...detectedFeatures]).map(f => <option key={f} value={f}>{SNL_FEATURES[f.toLowerCase()] || f}</option>)}
+                                    </select>
+                                  </>
+                                )}
 
                                 <div className="flex gap-1 ml-auto shrink-0">
                                   <button title="Duplicate rule" onClick={() => addRuleAndScroll({ ...rule })} className="text-slate-600 hover:text-[#46b6e3]"><Copy size={12} /></button>
@@ -2550,7 +3948,7 @@ export function App() {
                               {/* Row 2: Target */}
                               <div className="flex flex-wrap items-center gap-1.5 text-xs mb-2">
                                 <span className="text-slate-500 shrink-0">for</span>
-                                <select value={rule.targetType} onChange={e => { const r = [...optRules]; r[ri].targetType = e.target.value as any; if (e.target.value === 'HOST' || e.target.value === 'INTERNET') r[ri].groupOrUser = ''; setOptRules(r); }}
+                                <select value={rule.targetType} onChange={e => { const r = [...optRules]; r[ri].targetType = e.target.value as any; if (e.target.value !== 'USER' && e.target.value !== 'GROUP') r[ri].groupOrUser = ''; setOptRules(r); }}
                                   className="bg-[#111827] border border-slate-800 text-[11px] text-slate-400 px-2 py-1.5 focus:outline-none">
                                   {Object.entries(targetLabels).map(([k, v]) => <option key={k} value={k}>{v.label}</option>)}
                                 </select>
@@ -2587,9 +3985,15 @@ export function App() {
                                       placeholder="type a hostname"
                                       className="bg-[#111827] border border-slate-800 text-[11px] text-white px-2 py-1.5 font-mono-brand focus:outline-none w-28 placeholder:text-slate-700" />
                                   </div>
+                                ) : rule.targetType === 'HOST_GROUP' ? (
+                                  <select value={rule.groupOrUser} onChange={e => { const r = [...optRules]; r[ri].groupOrUser = e.target.value; setOptRules(r); }}
+                                    className="bg-[#111827] border border-slate-800 text-[11px] text-white px-2 py-1.5 focus:outline-none min-w-[80px]">
+                                    {!rule.groupOrUser && <option value="">Pick a machine group…</option>}
+                                    {optExtras.hostGroups.length > 0 ? optExtras.hostGroups.map(g => <option key={g.name} value={g.name}>{g.name}</option>) : <option value="">Create a machine group first ↑</option>}
+                                  </select>
                                 ) : (
                                   <input type="text" value={rule.groupOrUser} onChange={e => { const r = [...optRules]; r[ri].groupOrUser = e.target.value; setOptRules(r); }}
-                                    placeholder="192.168.1.*"
+                                    placeholder={rule.targetType === 'PROJECT' ? 'project name' : '192.168.1.*'}
                                     className="bg-[#111827] border border-slate-800 text-[11px] text-white px-2 py-1.5 font-mono-brand focus:outline-none w-32 placeholder:text-slate-700" />
                                 )}
                               </div>
@@ -2603,7 +4007,7 @@ export function App() {
                               })()}
 
                               {/* Version filter — admin control, not license type */}
-                              <details className="text-[10px] mb-2">
+                              {!isAllFeaturesRule(rule.type) && <details className="text-[10px] mb-2">
                                 <summary className="text-slate-600 cursor-pointer hover:text-slate-400">
                                   {rule.versionFilter ? <span className="text-purple-400">Version {rule.versionFilter} only</span> : 'Version restriction (optional)'}
                                 </summary>
@@ -2616,20 +4020,37 @@ export function App() {
                                     {rule.versionFilter && <button onClick={() => { const r = [...optRules]; r[ri].versionFilter = ''; setOptRules(r); }} className="text-slate-600 hover:text-red-400">Clear</button>}
                                   </div>
                                 </div>
-                              </details>
+                              </details>}
 
                               {/* Hint */}
                               <p className="text-[10px] text-slate-600 mb-2">{desc?.hint}</p>
 
+                              {/* Comment written above the rule — imported ones are kept */}
+                              <textarea value={rule.comment || ''} rows={Math.max(1, (rule.comment || '').split('\n').length)} placeholder="# Comment (optional)"
+                                onChange={e => { const r = [...optRules]; r[ri].comment = e.target.value || undefined; setOptRules(r); }}
+                                className="w-full mb-1 bg-transparent border border-slate-800/50 text-[10px] font-mono-brand text-slate-500 px-2 py-1 resize-none focus:border-[#1871bd] focus:outline-none placeholder:text-slate-700" />
+
                               {/* Generated syntax preview */}
                               <div className="px-2 py-1 bg-[#111827] border border-slate-800/50 text-[10px] font-mono-brand text-slate-500 overflow-x-auto">
-                                {(() => {
-                                  const feat = rule.versionFilter ? `${rule.feature}:SWVERSION=${rule.versionFilter}` : rule.feature;
-                                  return (rule.type === 'MAX' || rule.type === 'RESERVE')
-                                    ? `${rule.type} ${rule.count} ${feat} ${rule.targetType} ${rule.groupOrUser || '???'}`
-                                    : `${rule.type} ${feat} ${rule.targetType} ${rule.groupOrUser || '???'}`;
-                                })()}
+                                {ruleStatement(rule)}
                               </div>
+
+                              {/* What this rule would have done to the logged history */}
+                              {impact && (
+                                <div className="mt-2 text-[10px] space-y-0.5">
+                                  {impact.deniedCheckouts > 0 && (
+                                    <p className="text-red-400">
+                                      Would have denied {impact.deniedCheckouts} checkout{impact.deniedCheckouts === 1 ? '' : 's'}: <span className="font-mono-brand">{impact.deniedUsers.slice(0, 5).map(u => `${u.user} (${u.denied}/${u.total})`).join(', ')}{impact.deniedUsers.length > 5 ? ` +${impact.deniedUsers.length - 5} more` : ''}</span>
+                                    </p>
+                                  )}
+                                  {impact.lockedOutUsers.length > 0 && <p className="text-red-400/70">Locks out {impact.lockedOutUsers.length} user{impact.lockedOutUsers.length === 1 ? '' : 's'} completely.</p>}
+                                  {impact.preventedDenials > 0 && (
+                                    <p className="text-emerald-400">Would have absorbed {impact.preventedDenials} denial{impact.preventedDenials === 1 ? '' : 's'} for <span className="font-mono-brand">{impact.preventedUsers.join(', ')}</span></p>
+                                  )}
+                                  {impact.deniedCheckouts === 0 && impact.preventedDenials === 0 && impact.notes.length === 0 && <p className="text-slate-600">No effect on the logged history.</p>}
+                                  {impact.notes.map(n => <p key={n} className="text-amber-400/70">{n}</p>)}
+                                </div>
+                              )}
                             </div>
                           );
                         })}
@@ -2654,6 +4075,83 @@ export function App() {
                         </div>
                       </div>
                     </div>
+
+                    {/* Step 4: Borrowing & logging */}
+                    <div className="border border-slate-800 bg-[#111827] p-5">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="w-5 h-5 rounded-full bg-[#1871bd]/20 text-[#46b6e3] text-[10px] flex items-center justify-center font-bold">4</span>
+                        <h3 className="text-sm font-semibold text-slate-300">Borrowing & Logging</h3>
+                        <span className="text-[10px] text-slate-600 ml-1">(optional)</span>
+                      </div>
+                      <p className="text-[11px] text-slate-500 mb-4 ml-7">How long licenses can be taken offline, how many must stay on the network, and what the license server writes to its logs.</p>
+
+                      <div className="ml-7 space-y-4">
+                        {([
+                          { key: 'borrowHours', keyword: 'MAX_BORROW_HOURS', label: 'Borrow at most', unit: 'hours', fallback: 168 },
+                          { key: 'borrowLowWater', keyword: 'BORROW_LOWWATER', label: 'Never lend out the last', unit: 'seats', fallback: 1 },
+                        ] as const).map(({ key, keyword, label, unit, fallback }) => {
+                          type Row = { feature: string, value: number, comment?: string };
+                          const rows: Row[] = key === 'borrowHours'
+                            ? optExtras.borrowHours.map(b => ({ feature: b.feature, value: b.hours, comment: b.comment }))
+                            : optExtras.borrowLowWater.map(b => ({ feature: b.feature, value: b.count, comment: b.comment }));
+                          const save = (next: Row[]) => patchExtras(key === 'borrowHours'
+                            ? { borrowHours: next.map(({ feature, value, comment }) => ({ feature, hours: value, comment })) }
+                            : { borrowLowWater: next.map(({ feature, value, comment }) => ({ feature, count: value, comment })) });
+                          return (
+                            <div key={key}>
+                              <div className="flex items-center justify-between mb-2">
+                                <span className="text-[11px] text-slate-400">{label} <span className="font-mono-brand text-slate-600">({keyword})</span></span>
+                                <button onClick={() => save([...rows, { feature: detectedFeatures[0] || 'solidworks', value: fallback }])}
+                                  className="text-[11px] text-[#1871bd] hover:text-[#46b6e3] flex items-center gap-1 shrink-0"><Plus size={12} /> Add</button>
+                              </div>
+                              {rows.map((row, i) => (
+                                <div key={i} className="flex flex-wrap items-center gap-2 text-xs bg-[#0c1220] border border-slate-800 p-2 mb-2">
+                                  <select value={row.feature} onChange={e => save(rows.map((x, j) => j === i ? { ...x, feature: e.target.value } : x))}
+                                    className="bg-[#111827] border border-slate-800 text-[#46b6e3] text-[11px] px-2 py-1 font-mono-brand focus:outline-none min-w-0 max-w-[160px]">
+                                    {(detectedFeatures.includes(row.feature) ? detectedFeatures : [row.feature, ...detectedFeatures]).map(f => <option key={f} value={f}>{SNL_FEATURES[f.toLowerCase()] || f}</option>)}
+                                  </select>
+                                  <input type="number" value={row.value} min={key === 'borrowHours' ? 1 : 0} onChange={e => save(rows.map((x, j) => j === i ? { ...x, value: Math.max(0, Math.round(Number(e.target.value))) } : x))}
+                                    className="bg-[#111827] border border-slate-800 text-white text-[11px] px-2 py-1 w-16 font-mono-brand focus:outline-none" />
+                                  <span className="text-slate-600 text-[10px]">{unit}</span>
+                                  <button onClick={() => save(rows.filter((_, j) => j !== i))} className="text-slate-600 hover:text-red-400 ml-auto"><Trash2 size={12} /></button>
+                                </div>
+                              ))}
+                            </div>
+                          );
+                        })}
+
+                        <div className="border-t border-slate-800/50 pt-3">
+                          {logPathInput('reportLog', 'Report log', 'Binary usage log for FlexNet reporting tools. Start the path with a drive letter or UNC share.')}
+                          {logPathInput('debugLog', 'Debug log', 'A separate debug log for this vendor daemon only.')}
+                          <div className="flex flex-wrap items-center gap-3 text-[11px]">
+                            <span className="text-slate-400 w-20 shrink-0 text-xs">Don't log</span>
+                            {NOLOG_EVENTS.map(event => (
+                              <label key={event} className="flex items-center gap-1 text-slate-500 cursor-pointer font-mono-brand">
+                                <input type="checkbox" checked={optExtras.noLog.includes(event)} className="accent-[#1871bd]"
+                                  onChange={e => patchExtras({ noLog: e.target.checked ? [...optExtras.noLog, event] : optExtras.noLog.filter((x: NoLogEvent) => x !== event) })} />
+                                {event}
+                              </label>
+                            ))}
+                          </div>
+                          {optExtras.noLog.length > 0 && (
+                            <p className="text-[10px] text-amber-400/70 mt-1 ml-[5.5rem]">⚠ This dashboard reads those events from the debug log — hiding them leaves gaps in every report.</p>
+                          )}
+                        </div>
+
+                        {optExtras.other.length > 0 && (
+                          <div className="border-t border-slate-800/50 pt-3">
+                            <span className="text-[11px] text-slate-400">Kept as imported</span>
+                            <p className="text-[10px] text-slate-600 mb-2">Lines the builder can't edit. They're written back exactly as they were.</p>
+                            {optExtras.other.map((o, i) => (
+                              <div key={i} className="flex items-start gap-2 bg-[#0c1220] border border-slate-800 px-2 py-1 mb-1">
+                                <span className="text-[10px] font-mono-brand text-slate-400 whitespace-pre-wrap break-all flex-1">{o.text}</span>
+                                <button onClick={() => patchExtras({ other: optExtras.other.filter((_, j) => j !== i) })} className="text-slate-600 hover:text-red-400"><Trash2 size={12} /></button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
                   </div>
 
                   {/* Right column: Preview + Reference */}
@@ -2670,19 +4168,38 @@ export function App() {
                             className="text-[11px] text-slate-500 hover:text-white flex items-center gap-1">
                             <Copy size={12} /> {optCopied ? 'Copied!' : 'Copy'}
                           </button>
-                          <button onClick={() => {
+                          <button disabled={downloadBlocked} title={downloadBlocked ? 'Fix the errors below first' : undefined} onClick={() => {
                             const blob = new Blob([optionsText], { type: 'text/plain' });
                             const url = URL.createObjectURL(blob);
                             const a = document.createElement('a'); a.href = url; a.download = 'sw_d.opt'; a.click();
                             URL.revokeObjectURL(url);
-                          }} className="text-[11px] text-[#1871bd] hover:text-[#46b6e3] flex items-center gap-1">
+                          }} className="text-[11px] text-[#1871bd] hover:text-[#46b6e3] flex items-center gap-1 disabled:text-slate-700 disabled:cursor-not-allowed">
                             <Download size={12} /> Download
                           </button>
                         </div>
                       </div>
                       <pre className="p-4 text-xs font-mono-brand text-slate-300 overflow-x-auto whitespace-pre leading-relaxed max-h-[400px] overflow-y-auto">
-                        {optionsText}
+                        {optionsText.split('\n').map((line, i) => {
+                          const lineIssues = optionsIssues.filter(issue => issue.line === i + 1);
+                          const tint = lineIssues.some(issue => issue.severity === 'error') ? 'bg-red-500/10' : lineIssues.length > 0 ? 'bg-yellow-500/10' : '';
+                          return (
+                            <div key={i} className={tint} title={lineIssues.map(issue => issue.message).join('\n') || undefined}>
+                              <span className="inline-block w-7 pr-2 text-right text-slate-700 select-none">{i + 1}</span>{line}
+                            </div>
+                          );
+                        })}
                       </pre>
+                      {optionsIssues.length > 0 && (
+                        <div className="px-5 py-3 border-t border-slate-800">
+                          <OptionsIssueList issues={optionsIssues} />
+                          {hasLintErrors(optionsIssues) && (
+                            <label className="flex items-center gap-2 mt-3 text-[11px] text-slate-500 cursor-pointer">
+                              <input type="checkbox" checked={optLintOverride} onChange={e => setOptLintOverride(e.target.checked)} className="accent-[#1871bd]" />
+                              Download anyway — I know the license server may reject these lines
+                            </label>
+                          )}
+                        </div>
+                      )}
                       <div className="px-5 py-3 border-t border-slate-800 bg-[#0c1220]">
                         <p className="text-[10px] text-slate-600">After downloading, place this file alongside <span className="font-mono-brand">sw_d.lic</span> in your license manager's <span className="font-mono-brand">\licenses\</span> folder. Then stop and restart the SolidNetWork License Manager service for changes to take effect.</p>
                       </div>
@@ -2719,6 +4236,13 @@ export function App() {
                           <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">INCLUDE solidworks:SWVERSION=2025 USER jane</span><p className="text-slate-500 mt-0.5">Only jane can use SOLIDWORKS 2025 specifically. Others can use other versions.</p></div>
                           <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">RESERVE 1 solidworks HOST workstation1</span><p className="text-slate-500 mt-0.5">Reserve a license for a specific machine by its network hostname.</p></div>
                           <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">EXCLUDE solidworks INTERNET 10.0.2.*</span><p className="text-slate-500 mt-0.5">Block an entire subnet from using a feature. Wildcards allowed.</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">HOST_GROUP lab lab-pc01 lab-pc02</span><p className="text-slate-500 mt-0.5">Name a set of machines; rules can then target HOST_GROUP lab.</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">EXCLUDEALL USER contractor1</span><p className="text-slate-500 mt-0.5">Block a user from every feature. INCLUDEALL works the same way in reverse.</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">RESERVE 1 swsimulation PROJECT bridge</span><p className="text-slate-500 mt-0.5">Target clients whose LM_PROJECT environment variable is "bridge".</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">MAX_BORROW_HOURS solidworks 72</span><p className="text-slate-500 mt-0.5">Borrowed SOLIDWORKS licenses must come back within 72 hours.</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">BORROW_LOWWATER solidworks 2</span><p className="text-slate-500 mt-0.5">Always keep 2 SOLIDWORKS seats on the network — they can't be borrowed.</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">REPORTLOG +C:\logs\sw_report.rl</span><p className="text-slate-500 mt-0.5">Write a report log; the + appends instead of overwriting on restart. DEBUGLOG takes the same form.</p></div>
+                          <div className="p-2 bg-[#0c1220] border border-slate-800"><span className="font-mono-brand text-amber-400">NOLOG IN</span><p className="text-slate-500 mt-0.5">Stop logging check-ins (also OUT, DENIED, QUEUED). This dashboard needs them — avoid.</p></div>
                         </div>
 
                         <div className="pt-3 border-t border-slate-800/50 space-y-1.5">
@@ -2734,6 +4258,75 @@ export function App() {
                     </details>
                   </div>
                 </div>
+
+                {/* Edits since the last import, for change control */}
+                {optBaseline && (
+                  <div className="border border-slate-800 bg-[#111827]">
+                    <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-3 border-b border-slate-800 bg-[#0c1220]">
+                      <div>
+                        <h3 className="text-xs font-semibold text-slate-400">Changes since import</h3>
+                        <p className="text-[10px] text-slate-600">
+                          Against <span className="font-mono-brand text-slate-400">{optBaseline.fileName}</span>, imported {new Date(optBaseline.importedAt).toLocaleString()}
+                          {' · '}{baselineChanges.length} change{baselineChanges.length === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="flex border border-slate-800">
+                          {([['changes', 'Changes'], ['lines', 'Line diff']] as const).map(([view, label]) => (
+                            <button key={view} onClick={() => setOptDiffView(view)} className={`px-3 py-1 text-[11px] ${optDiffView === view ? 'bg-[#1871bd]/20 text-[#46b6e3]' : 'text-slate-500 hover:text-white'}`}>{label}</button>
+                          ))}
+                        </div>
+                        <button onClick={() => {
+                          const summary = optionsChangeSummary(baselineChanges, baselineLines, { ...optBaseline, serverName: data.metadata.serverName, generatedAt: new Date() });
+                          const blob = new Blob([summary], { type: 'text/plain' });
+                          const url = URL.createObjectURL(blob);
+                          const a = document.createElement('a'); a.href = url; a.download = 'sw_d.opt-changes.txt'; a.click();
+                          URL.revokeObjectURL(url);
+                        }} className="text-[11px] text-[#1871bd] hover:text-[#46b6e3] flex items-center gap-1">
+                          <Download size={12} /> Change summary
+                        </button>
+                        <button title="Stop comparing against this file" onClick={() => setOptBaseline(undefined)} className="text-slate-600 hover:text-white"><X size={12} /></button>
+                      </div>
+                    </div>
+                    {optDiffView === 'changes' ? (
+                      <div className="p-5">
+                        {baselineChanges.length === 0 && <p className="text-[11px] text-slate-500">No changes to rules, groups or settings — only layout and the generated header differ.</p>}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                          {CHANGE_SECTIONS.map(section => {
+                            const inSection = baselineChanges.filter(c => c.section === section);
+                            if (inSection.length === 0) return null;
+                            return (
+                              <div key={section}>
+                                <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-1.5">{section}</p>
+                                <div className="space-y-1">
+                                  {inSection.map((c, i) => (
+                                    <div key={i} className="flex items-start gap-2 text-[11px]">
+                                      <span className={`font-mono-brand font-bold w-3 shrink-0 ${c.kind === 'added' ? 'text-emerald-400' : c.kind === 'removed' ? 'text-red-400' : 'text-yellow-400'}`}>{c.kind === 'added' ? '+' : c.kind === 'removed' ? '−' : '~'}</span>
+                                      <span className="font-mono-brand text-slate-300 break-all">{c.subject}</span>
+                                      {c.detail && <span className="text-slate-500 shrink-0">{c.detail}</span>}
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ) : (
+                      <pre className="p-4 text-xs font-mono-brand overflow-x-auto whitespace-pre leading-relaxed max-h-[500px] overflow-y-auto">
+                        {diffHunks(baselineLines).map((line, i) => line === null ? (
+                          <div key={i} className="text-slate-700 select-none">⋯</div>
+                        ) : (
+                          <div key={i} className={line.kind === 'added' ? 'bg-emerald-500/10 text-emerald-300' : line.kind === 'removed' ? 'bg-red-500/10 text-red-300' : 'text-slate-500'}>
+                            <span className="inline-block w-8 pr-2 text-right text-slate-700 select-none">{line.before ?? ''}</span>
+                            <span className="inline-block w-8 pr-2 text-right text-slate-700 select-none">{line.after ?? ''}</span>
+                            <span className="select-none">{line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}</span>{line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })()}
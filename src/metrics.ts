@@ -0,0 +1,69 @@
+import type { LiveState } from './types';
+
+// Prometheus text exposition of a live parser snapshot, served by the exporter
+// (src/node/exporter.ts). Gauges describe the moment; *_total counters run from the
+// start of the log file, so rate() works across scrapes.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: { labels?: Labels, value: number }[];
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels?: Labels) => {
+  const entries = Object.entries(labels || {});
+  return entries.length === 0 ? '' : `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}`;
+};
+
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts: Record<string, number> = {};
+  items.forEach(item => { counts[key(item)] = (counts[key(item)] || 0) + 1; });
+  return counts;
+};
+
+const seconds = (d: Date) => Math.floor(d.getTime() / 1000);
+
+export const renderMetrics = (state: LiveState, capacity: Record<string, number> = {}): string => {
+  const server = { server: state.serverName };
+  const inUse = countBy(state.held, s => s.feature);
+  const borrowed = countBy(state.borrows, b => b.feature);
+  // Every known feature gets a sample, so a feature nobody holds reads 0 instead of vanishing
+  const features = Array.from(new Set([...state.features, ...Object.keys(capacity), ...Object.keys(borrowed)])).sort();
+  const perUser = countBy(state.held, s => s.user);
+
+  const metrics: Metric[] = [
+    { name: 'snl_server_info', help: 'License server seen in the log, with its FlexNet version.', type: 'gauge',
+      samples: [{ labels: { ...server, version: state.flexVersion }, value: 1 }] },
+    { name: 'snl_server_up', help: '1 if the last lifecycle event in the log was a start, 0 if it was a shutdown.', type: 'gauge',
+      samples: state.serverUp === null ? [] : [{ labels: server, value: state.serverUp ? 1 : 0 }] },
+    { name: 'snl_server_restarts_total', help: 'Server restarts recorded in the log.', type: 'counter',
+      samples: [{ labels: server, value: state.restarts }] },
+    { name: 'snl_server_last_start_timestamp_seconds', help: 'When the server last started, per the log.', type: 'gauge',
+      samples: state.lastStart ? [{ labels: server, value: seconds(state.lastStart) }] : [] },
+    { name: 'snl_log_last_event_timestamp_seconds', help: 'Time of the newest log line.', type: 'gauge',
+      samples: state.lastEvent ? [{ labels: server, value: seconds(state.lastEvent) }] : [] },
+    { name: 'snl_log_lines_total', help: 'Log lines parsed.', type: 'counter',
+      samples: [{ labels: server, value: state.lines }] },
+    { name: 'snl_seats_in_use', help: 'Seats checked out right now, per feature.', type: 'gauge',
+      samples: features.map(feature => ({ labels: { ...server, feature }, value: inUse[feature] || 0 })) },
+    { name: 'snl_seats_borrowed', help: 'Seats borrowed for offline use and not yet returned, per feature.', type: 'gauge',
+      samples: features.map(feature => ({ labels: { ...server, feature }, value: borrowed[feature] || 0 })) },
+    { name: 'snl_seat_capacity', help: 'Seats issued per feature in the license file.', type: 'gauge',
+      samples: Object.keys(capacity).sort().map(feature => ({ labels: { ...server, feature }, value: capacity[feature] })) },
+    { name: 'snl_denials_total', help: 'Denied checkouts, per feature and reason category.', type: 'counter',
+      samples: state.denialCounts.map(c => ({ labels: { ...server, feature: c.feature, reason: c.category }, value: c.count })) },
+    { name: 'snl_user_open_sessions', help: 'Checkouts each user holds right now.', type: 'gauge',
+      samples: Object.keys(perUser).sort().map(user => ({ labels: { ...server, user }, value: perUser[user] })) },
+  ];
+
+  return metrics.map(m => [
+    `# HELP ${m.name} ${m.help}`,
+    `# TYPE ${m.name} ${m.type}`,
+    ...m.samples.map(s => `${m.name}${formatLabels(s.labels)} ${s.value}`),
+  ].join('\n')).join('\n') + '\n';
+};
@@ -0,0 +1,155 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import type { AlertRule, AlertSeverity } from '../types';
+import { parseLogFiles } from '../parser';
+import { filterDashboardData, presetRange, DATE_PRESETS, EMPTY_FILTERS } from '../filters';
+import type { DashboardFilters, DatePreset } from '../filters';
+import { evaluateAlerts, healthFromAlerts, strongestAlerts, SEVERITY_RANK, DEFAULT_ALERT_RULES } from '../alerts';
+import { importBundle, BUNDLE_FORMAT } from '../bundle';
+import { analysisSummary, CSV_TABLES } from '../exports';
+import { buildExecutivePdf, executivePdfFileName } from '../report';
+
+// Headless analysis for Task Scheduler / cron on the license server: the same parser, filters,
+// alerts, CSV tables and executive PDF as the dashboard, written to a folder.
+//   npm run analyze -- --config analyze.json --out reports lmgrd.log lmgrd.log.1
+
+const USAGE = `Usage: npm run analyze -- [options] <lmgrd.log> [more log files...]
+
+Options:
+  --config <file>    JSON with licenseSeats, licenseCosts, filters, dateFrom/dateTo or datePreset,
+                     alertRules and failOn; a workspace bundle (.snl.json) works too
+  --out <dir>        where to write the reports (default: current directory)
+  --format <list>    any of json,csv,pdf (default: all three)
+  --from <date>      yyyy-mm-dd, first day to include (overrides the config)
+  --to <date>        yyyy-mm-dd, last day to include (overrides the config)
+  --fail-on <level>  critical, warning, info or never (default: warning)
+
+Exit codes: 0 no alert at the --fail-on level, 1 bad input, 2 warning/info alerts, 3 critical alerts`;
+
+type FailOn = AlertSeverity | 'never';
+type Format = 'json' | 'csv' | 'pdf';
+
+interface AnalyzeConfig {
+  licenseSeats?: Record<string, number>;
+  licenseCosts?: Record<string, number>;
+  fiscalStartMonth?: number;
+  filters?: Partial<DashboardFilters>;
+  dateFrom?: string;
+  dateTo?: string;
+  datePreset?: DatePreset; // relative to the end of the log, like the dashboard's presets
+  alertRules?: AlertRule[];
+  failOn?: FailOn;
+}
+
+class UsageError extends Error {}
+
+const EXIT_OK = 0, EXIT_BAD_INPUT = 1, EXIT_WARNING = 2, EXIT_CRITICAL = 3;
+const FAIL_ON_LEVELS: FailOn[] = ['critical', 'warning', 'info', 'never'];
+const FORMATS: Format[] = ['json', 'csv', 'pdf'];
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseArgs = (argv: string[]) => {
+  const options: Record<string, string> = {};
+  const files: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') options.help = 'true';
+    else if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) throw new UsageError(`${arg} needs a value`);
+      options[arg.slice(2)] = value;
+      i++;
+    } else files.push(arg);
+  }
+  const unknown = Object.keys(options).filter(k => !['help', 'config', 'out', 'format', 'from', 'to', 'fail-on'].includes(k));
+  if (unknown.length > 0) throw new UsageError(`Unknown option --${unknown[0]}`);
+  return { options, files };
+};
+
+// A plain config file, or the configuration and filters saved in a workspace bundle
+const loadConfig = async (path: string): Promise<AnalyzeConfig> => {
+  const text = await readFile(path, 'utf8');
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new UsageError(`${path} is not valid JSON`);
+  }
+  if (raw?.format === BUNDLE_FORMAT) {
+    const bundle = importBundle(text);
+    return { ...bundle.config, filters: bundle.filters };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new UsageError(`${path} should hold a JSON object`);
+  return raw;
+};
+
+const resolveFilters = (config: AnalyzeConfig, options: Record<string, string>, logEnd: string | undefined): DashboardFilters => {
+  const filters: DashboardFilters = { ...EMPTY_FILTERS, ...config.filters, modes: { ...EMPTY_FILTERS.modes, ...config.filters?.modes } };
+  if (config.datePreset) {
+    if (!DATE_PRESETS.some(p => p.id === config.datePreset)) throw new UsageError(`Unknown datePreset "${config.datePreset}" (${DATE_PRESETS.map(p => p.id).join(', ')})`);
+    if (logEnd) Object.assign(filters, presetRange(config.datePreset, new Date(logEnd), config.fiscalStartMonth || 1));
+  }
+  if (config.dateFrom !== undefined) filters.dateFrom = config.dateFrom;
+  if (config.dateTo !== undefined) filters.dateTo = config.dateTo;
+  if (options.from) filters.dateFrom = options.from;
+  if (options.to) filters.dateTo = options.to;
+  [filters.dateFrom, filters.dateTo].forEach(date => {
+    if (date && !DATE.test(date)) throw new UsageError(`Dates are yyyy-mm-dd, got "${date}"`);
+  });
+  return filters;
+};
+
+const run = async (): Promise<number> => {
+  const { options, files } = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (files.length === 0) throw new UsageError('No log files given');
+
+  const config = options.config ? await loadConfig(options.config) : {};
+  const failOn = (options['fail-on'] || config.failOn || 'warning') as FailOn;
+  if (!FAIL_ON_LEVELS.includes(failOn)) throw new UsageError(`--fail-on is one of ${FAIL_ON_LEVELS.join(', ')}`);
+  const formats = (options.format || FORMATS.join(',')).split(',').map(f => f.trim()) as Format[];
+  const badFormat = formats.find(f => !FORMATS.includes(f));
+  if (badFormat) throw new UsageError(`Unknown format "${badFormat}" (${FORMATS.join(', ')})`);
+
+  const sources = await Promise.all(files.map(async path => ({ name: basename(path), content: await readFile(path, 'utf8') })));
+  const parsed = parseLogFiles(sources);
+  const filters = resolveFilters(config, options, parsed.metadata.endDate);
+  const data = filterDashboardData(parsed, filters);
+  const licenseSeats = config.licenseSeats || {};
+  const alerts = evaluateAlerts(data, config.alertRules || DEFAULT_ALERT_RULES, licenseSeats);
+
+  const out = options.out || '.';
+  await mkdir(out, { recursive: true });
+  const written: string[] = [];
+  const write = async (name: string, content: string | Uint8Array) => {
+    await writeFile(join(out, name), content);
+    written.push(join(out, name));
+  };
+  if (formats.includes('json')) {
+    await write('analysis.json', JSON.stringify(analysisSummary(data, { licenseSeats, licenseCosts: config.licenseCosts || {}, alerts, filters }), null, 2));
+  }
+  if (formats.includes('csv')) {
+    for (const table of CSV_TABLES) await write(table.fileName, table.build(data));
+  }
+  if (formats.includes('pdf')) {
+    await write(executivePdfFileName(data), new Uint8Array(buildExecutivePdf(data, { alerts }).output('arraybuffer')));
+  }
+
+  const shown = strongestAlerts(alerts);
+  console.log(`${data.metadata.serverName}: ${data.sessions.length} sessions, ${data.denials.length} denials — ${healthFromAlerts(alerts)}`);
+  shown.forEach(a => console.log(`  ${a.rule.severity.toUpperCase()} ${a.rule.name}${a.subject ? ` (${a.subject})` : ''}: ${a.evidence}`));
+  written.forEach(path => console.log(`wrote ${path}`));
+
+  // Only alerts at or above the --fail-on level decide the exit code
+  const failing = failOn === 'never' ? [] : alerts.filter(a => SEVERITY_RANK[a.rule.severity] <= SEVERITY_RANK[failOn]);
+  if (failing.some(a => a.rule.severity === 'critical')) return EXIT_CRITICAL;
+  return failing.length > 0 ? EXIT_WARNING : EXIT_OK;
+};
+
+run().then(code => { process.exitCode = code; }, err => {
+  console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : `Error: ${(err as Error).message}`);
+  process.exitCode = EXIT_BAD_INPUT;
+});
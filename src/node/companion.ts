@@ -0,0 +1,70 @@
+import { basename } from 'node:path';
+import { WebSocketServer } from 'ws';
+import type { CompanionMessage } from '../live';
+import { tailFile } from './tail';
+
+// Runs on the license server: tails lmgrd.log and streams it to the dashboard's live mode.
+//   npm run companion -- --log /var/log/lmgrd.log [--port 8787] [--host 127.0.0.1]
+// Listens on loopback only unless --host says otherwise; the stream carries user and host names.
+
+const arg = (name: string, fallback: string) => {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+};
+
+const logPath = arg('log', process.env.LMGRD_LOG || '');
+const port = Number(arg('port', '8787'));
+const host = arg('host', '127.0.0.1');
+const intervalMs = Number(arg('interval', '1000'));
+
+if (!logPath || isNaN(port)) {
+  console.error('Usage: npm run companion -- --log <path to lmgrd.log> [--port 8787] [--host 127.0.0.1] [--interval 1000]');
+  process.exit(1);
+}
+
+// Keeps any one message to a few hundred KB during the initial replay
+const BATCH_LINES = 5000;
+
+const server = new WebSocketServer({ host, port });
+
+server.on('connection', (socket, request) => {
+  const send = (msg: CompanionMessage) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(msg));
+  };
+  console.log(`${new Date().toISOString()} client connected from ${request.socket.remoteAddress}`);
+  send({ type: 'hello', file: basename(logPath) });
+
+  // Each client gets its own tail from the top, so it can rebuild who holds what
+  const tail = tailFile(logPath, event => {
+    if (event.type !== 'lines') {
+      send(event);
+      return;
+    }
+    for (let i = 0; i < event.lines.length; i += BATCH_LINES) send({ type: 'lines', lines: event.lines.slice(i, i + BATCH_LINES) });
+  }, { intervalMs });
+
+  // A malformed frame or a reset connection only ends this client
+  socket.on('error', err => {
+    console.error(`${new Date().toISOString()} client error: ${err.message}`);
+    tail.close();
+    socket.terminate();
+  });
+
+  socket.on('close', () => {
+    tail.close();
+    console.log(`${new Date().toISOString()} client disconnected`);
+  });
+});
+
+server.on('listening', () => console.log(`Tailing ${logPath} on ws://${host}:${port}`));
+server.on('error', err => {
+  console.error(err.message);
+  process.exit(1);
+});
+
+const shutdown = () => {
+  server.clients.forEach(client => client.terminate());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+// Starts the exporter against the fixtures the way it runs in production and scrapes it
+
+const freePort = () => new Promise<number>((resolve, reject) => {
+  const server = createServer().once('error', reject).listen(0, '127.0.0.1', () => {
+    const { port } = server.address() as { port: number };
+    server.close(() => resolve(port));
+  });
+});
+
+const scrape = async (url: string, timeoutMs: number) => {
+  const deadline = Date.now() + timeoutMs;
+  let last = '';
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(url);
+      if (res.status === 200) return res.text();
+      last = `HTTP ${res.status}`;
+    } catch (err) {
+      last = (err as Error).message;
+    }
+    await sleep(200);
+  }
+  throw new Error(`No scrape from ${url} within ${timeoutMs} ms (${last})`);
+};
+
+test('serves the fixture log on /metrics', async () => {
+  const port = await freePort();
+  const exporter = spawn(process.execPath, [
+    '--import', 'tsx', 'src/node/exporter.ts',
+    '--log', 'fixtures/lmgrd.sample.log', '--license', 'fixtures/sw_d.sample.lic',
+    '--port', String(port), '--interval', '100',
+  ], { stdio: ['ignore', 'ignore', 'inherit'] });
+  try {
+    const body = await scrape(`http://127.0.0.1:${port}/metrics`, 20000);
+    const server = 'server="SNLSERVER01"';
+    assert.match(body, new RegExp(`^snl_seats_in_use\\{${server},feature="solidworks"\\} 2$`, 'm'));
+    assert.match(body, new RegExp(`^snl_seat_capacity\\{${server},feature="solidworks"\\} 3$`, 'm'));
+    assert.match(body, new RegExp(`^snl_denials_total\\{${server},feature="solidworks",reason="capacity"\\} 2$`, 'm'));
+    assert.match(body, new RegExp(`^snl_user_open_sessions\\{${server},user="jchen"\\} 1$`, 'm'));
+    assert.match(body, new RegExp(`^snl_server_up\\{${server}\\} 1$`, 'm'));
+    assert.match(body, new RegExp(`^snl_log_lines_total\\{${server}\\} 25$`, 'm'));
+  } finally {
+    if (exporter.exitCode === null && exporter.signalCode === null) {
+      const exited = new Promise(resolve => exporter.once('exit', resolve));
+      exporter.kill('SIGTERM');
+      await exited;
+    }
+  }
+});
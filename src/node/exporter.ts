@@ -0,0 +1,109 @@
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { createLogParser } from '../parser';
+import { licenseSeatCounts } from '../license';
+import { renderMetrics } from '../metrics';
+import { tailFile } from './tail';
+
+// Prometheus exporter: follows lmgrd.log through the same line parser as the dashboard and
+// serves what it knows on /metrics.
+//   npm run exporter -- --log /var/log/lmgrd.log [--license sw_d.lic] [--port 9787] [--host 127.0.0.1]
+// Like the companion it binds to loopback: the metrics name users and hosts and there's no
+// authentication, so reaching it from a Prometheus elsewhere takes an explicit --host.
+// With --once it reads the file, prints one scrape to stdout and exits.
+
+const USAGE = 'Usage: npm run exporter -- --log <path to lmgrd.log> [--license <sw_d.lic>] [--port 9787] [--host 127.0.0.1] [--interval 1000] [--once]';
+
+const arg = (name: string, fallback: string) => {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] && !process.argv[i + 1].startsWith('--') ? process.argv[i + 1] : fallback;
+};
+
+const logPath = arg('log', process.env.LMGRD_LOG || '');
+const licensePath = arg('license', '');
+const port = Number(arg('port', '9787'));
+const host = arg('host', '127.0.0.1');
+const intervalMs = Number(arg('interval', '1000'));
+const once = process.argv.includes('--once');
+
+if (!logPath || isNaN(port) || isNaN(intervalMs)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+// Read per scrape, so a renewed license file shows up without a restart
+let licenseError = '';
+const capacity = async (): Promise<Record<string, number>> => {
+  if (!licensePath) return {};
+  try {
+    const seats = licenseSeatCounts(await readFile(licensePath, 'utf8'));
+    licenseError = '';
+    return seats;
+  } catch (err) {
+    const message = (err as Error).message;
+    if (message !== licenseError) console.error(`Cannot read ${licensePath}: ${message}`);
+    licenseError = message;
+    return {};
+  }
+};
+
+const parser = createLogParser({ live: true });
+parser.beginSource(logPath);
+
+if (once) {
+  (async () => {
+    (await readFile(logPath, 'utf8')).split(/\r?\n/).forEach(parser.pushLine);
+    process.stdout.write(renderMetrics(parser.current(), await capacity()));
+  })().catch(err => {
+    console.error((err as Error).message);
+    process.exitCode = 1;
+  });
+} else {
+  // Until the existing file has been replayed the numbers are partial; scrapes get a 503
+  let caughtUp = false;
+  const tail = tailFile(logPath, event => {
+    switch (event.type) {
+      case 'lines': event.lines.forEach(parser.pushLine); break;
+      case 'rotated':
+      case 'truncated': parser.beginSource(logPath); break;
+      case 'caught-up': caughtUp = true; break;
+      case 'error': console.error(event.message); break;
+    }
+  }, { intervalMs });
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0];
+    if (req.method !== 'GET' || (path !== '/metrics' && path !== '/')) {
+      res.writeHead(404).end('Not found\n');
+      return;
+    }
+    if (path === '/') {
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<a href="/metrics">/metrics</a>\n');
+      return;
+    }
+    if (!caughtUp) {
+      res.writeHead(503, { 'Content-Type': 'text/plain' }).end('Still reading the log\n');
+      return;
+    }
+    try {
+      const body = renderMetrics(parser.current(), await capacity());
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(body);
+    } catch (err) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' }).end(`${(err as Error).message}\n`);
+    }
+  });
+
+  server.on('error', err => {
+    console.error(err.message);
+    process.exit(1);
+  });
+  server.listen(port, host, () => console.log(`Exporting ${logPath} on http://${host}:${port}/metrics`));
+
+  const shutdown = () => {
+    tail.close();
+    server.close(() => process.exit(0));
+    server.closeAllConnections();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
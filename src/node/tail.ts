@@ -0,0 +1,137 @@
+import { open, stat, type FileHandle } from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
+
+// Follows a log file the way `tail -F` does. lmgrd either rotates (the file is renamed
+// and a new one created) or truncates in place on restart; both are detected by polling,
+// since fs.watch is unreliable on network shares and across platforms.
+
+export type TailEvent =
+  | { type: 'lines', lines: string[] }
+  | { type: 'rotated' }   // a new file took the path; its lines follow from the start
+  | { type: 'truncated' } // the same file was emptied; lines follow from the start
+  | { type: 'caught-up' } // once, after the first read reaches the end of the file
+  | { type: 'error', message: string };
+
+export interface TailOptions {
+  intervalMs?: number;
+  fromStart?: boolean; // replay what's already in the file before following it
+}
+
+const READ_SIZE = 1024 * 1024;
+
+const isMissing = (err: unknown) => (err as NodeJS.ErrnoException).code === 'ENOENT';
+
+export const tailFile = (path: string, onEvent: (event: TailEvent) => void, { intervalMs = 1000, fromStart = true }: TailOptions = {}) => {
+  let handle: FileHandle | null = null;
+  let inode = 0;
+  let offset = 0;
+  let decoder = new StringDecoder('utf8');
+  let carry = '';
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let reportedMissing = false;
+  let caughtUp = false;
+
+  const emitLines = (text: string, final = false) => {
+    const lines = (carry + text).split(/\r?\n/);
+    carry = final ? '' : lines.pop() ?? '';
+    if (final && lines[lines.length - 1] === '') lines.pop();
+    if (lines.length > 0) onEvent({ type: 'lines', lines });
+  };
+
+  const reset = () => {
+    offset = 0;
+    carry = '';
+    decoder = new StringDecoder('utf8');
+  };
+
+  const openFile = async (atStart: boolean) => {
+    try {
+      handle = await open(path, 'r');
+      const info = await handle.stat();
+      inode = info.ino;
+      reset();
+      if (!atStart) offset = info.size;
+      reportedMissing = false;
+    } catch (err) {
+      handle = null;
+      if (!isMissing(err)) throw err;
+      if (!reportedMissing) onEvent({ type: 'error', message: `${path} not found — waiting for it to appear` });
+      reportedMissing = true;
+    }
+  };
+
+  // Everything written since the last read, through the handle we hold
+  const drain = async () => {
+    const buffer = Buffer.alloc(READ_SIZE);
+    while (handle && !closed) {
+      const { bytesRead } = await handle.read(buffer, 0, READ_SIZE, offset);
+      if (bytesRead === 0) break;
+      offset += bytesRead;
+      emitLines(decoder.write(buffer.subarray(0, bytesRead)));
+    }
+  };
+
+  const poll = async () => {
+    if (!handle) {
+      await openFile(true);
+      if (!handle) return;
+    }
+    const own = await handle.stat();
+    if (own.size < offset) {
+      reset();
+      onEvent({ type: 'truncated' });
+    }
+    // Finish the old file before following whatever now sits at the path
+    await drain();
+    let current: Awaited<ReturnType<typeof stat>> | null = null;
+    try {
+      current = await stat(path);
+    } catch (err) {
+      if (!isMissing(err)) throw err;
+    }
+    if (current && current.ino !== inode) {
+      emitLines(decoder.end(), true);
+      await handle.close();
+      handle = null;
+      onEvent({ type: 'rotated' });
+      await openFile(true);
+      await drain();
+    }
+  };
+
+  const schedule = (first = false) => {
+    if (closed) return;
+    timer = setTimeout(async () => {
+      try {
+        await poll();
+        // Only once a read has actually reached the end — a missing file hasn't been replayed yet
+        if (!caughtUp && handle && !closed) {
+          caughtUp = true;
+          onEvent({ type: 'caught-up' });
+        }
+      } catch (err) {
+        if (!closed) onEvent({ type: 'error', message: (err as Error).message });
+      }
+      schedule();
+    }, first ? 0 : intervalMs);
+  };
+
+  (async () => {
+    try {
+      await openFile(fromStart);
+    } catch (err) {
+      onEvent({ type: 'error', message: (err as Error).message });
+    }
+    schedule(true);
+  })();
+
+  return {
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      handle?.close().catch(() => {});
+      handle = null;
+    },
+  };
+};
@@ -0,0 +1,144 @@
+import type { OptionsRule } from './types';
+import type { OptionsState } from './optionsFile';
+import { isAllFeaturesRule, ruleStatement } from './optionsFile';
+
+// What changed between the sw_d.opt that was imported and the one the builder would write now:
+// a line diff of the text, and the same change described per rule, group and setting.
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+  before?: number; // 1-based line in the original
+  after?: number;  // 1-based line in the new file
+}
+
+export type OptionsChangeSection = 'Timeouts' | 'Groups' | 'Machine groups' | 'Rules' | 'Borrowing' | 'Logging' | 'Kept as imported';
+
+export interface OptionsChange {
+  section: OptionsChangeSection;
+  kind: 'added' | 'removed' | 'changed';
+  subject: string;
+  detail?: string;
+}
+
+export const CHANGE_SECTIONS: OptionsChangeSection[] = ['Timeouts', 'Groups', 'Machine groups', 'Rules', 'Borrowing', 'Logging', 'Kept as imported'];
+
+// Longest common subsequence over lines; options files are a few hundred lines at most
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split(/\r?\n/), b = after.split(/\r?\n/);
+  const n = a.length, m = b.length;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i] === b[j] ? lcs[(i + 1) * (m + 1) + j + 1] + 1 : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) { lines.push({ kind: 'same', text: a[i], before: ++i, after: ++j }); continue; }
+    // Removals first, so a replaced line reads old-then-new
+    if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) lines.push({ kind: 'removed', text: a[i], before: ++i });
+    else lines.push({ kind: 'added', text: b[j], after: ++j });
+  }
+  return lines;
+};
+
+// Changed lines with `context` unchanged lines either side; null marks a skipped stretch
+export const diffHunks = (lines: DiffLine[], context = 3): (DiffLine | null)[] => {
+  const keep = lines.map((_, i) => lines.slice(Math.max(0, i - context), i + context + 1).some(l => l.kind !== 'same'));
+  const result: (DiffLine | null)[] = [];
+  lines.forEach((line, i) => {
+    if (keep[i]) result.push(line);
+    else if (result[result.length - 1] !== null) result.push(null);
+  });
+  while (result[0] === null) result.shift();
+  while (result.length > 0 && result[result.length - 1] === null) result.pop();
+  return result;
+};
+
+// Entries keyed by what they are; a value change under the same key is a "changed"
+const compareKeyed = <T>(
+  section: OptionsChangeSection, before: T[], after: T[], key: (x: T) => string, describe: (x: T) => string, detail: (a: T, b: T) => string | null,
+): OptionsChange[] => {
+  const changes: OptionsChange[] = [];
+  const remaining = [...before];
+  after.forEach(item => {
+    const index = remaining.findIndex(old => key(old) === key(item));
+    if (index === -1) { changes.push({ section, kind: 'added', subject: describe(item) }); return; }
+    const [old] = remaining.splice(index, 1);
+    const changed = detail(old, item);
+    if (changed) changes.push({ section, kind: 'changed', subject: key(item), detail: changed });
+  });
+  remaining.forEach(old => changes.push({ section, kind: 'removed', subject: describe(old) }));
+  return changes;
+};
+
+const memberChanges = (before: string[], after: string[]) => {
+  const added = after.filter(x => !before.includes(x));
+  const removed = before.filter(x => !after.includes(x));
+  if (added.length === 0 && removed.length === 0) return null;
+  return [added.length > 0 ? `+ ${added.join(', ')}` : '', removed.length > 0 ? `- ${removed.join(', ')}` : ''].filter(Boolean).join('; ');
+};
+
+// A rule is the same rule if it does the same thing to the same target; only the seat count can change
+const ruleKey = (r: OptionsRule) => {
+  const feature = isAllFeaturesRule(r.type) ? '' : ` ${r.versionFilter ? `${r.feature}:SWVERSION=${r.versionFilter}` : r.feature}`;
+  return `${r.type}${feature} ${r.targetType} ${r.groupOrUser}`;
+};
+
+export const diffOptions = (before: OptionsState, after: OptionsState): OptionsChange[] => {
+  const changes: OptionsChange[] = [];
+  const setting = (section: OptionsChangeSection, subject: string, a: string, b: string) => {
+    if (a === b) return;
+    changes.push({ section, kind: !a ? 'added' : !b ? 'removed' : 'changed', subject, detail: !a ? b : !b ? a : `${a} → ${b}` });
+  };
+
+  setting('Timeouts', 'TIMEOUTALL', before.timeoutEnabled ? String(before.timeout) : '', after.timeoutEnabled ? String(after.timeout) : '');
+  changes.push(...compareKeyed('Timeouts', before.featureTimeouts, after.featureTimeouts, t => `TIMEOUT ${t.feature}`, t => `TIMEOUT ${t.feature} ${t.seconds}`,
+    (a, b) => a.seconds !== b.seconds ? `${a.seconds} → ${b.seconds} seconds` : null));
+
+  changes.push(...compareKeyed('Groups', before.groups, after.groups, g => `GROUP ${g.name}`, g => `GROUP ${g.name} ${g.users.join(' ')}`, (a, b) => memberChanges(a.users, b.users)));
+  changes.push(...compareKeyed('Machine groups', before.extras.hostGroups, after.extras.hostGroups, g => `HOST_GROUP ${g.name}`, g => `HOST_GROUP ${g.name} ${g.hosts.join(' ')}`, (a, b) => memberChanges(a.hosts, b.hosts)));
+
+  changes.push(...compareKeyed('Rules', before.rules, after.rules, ruleKey, r => ruleStatement(r), (a, b) => a.count !== b.count ? `${a.count} → ${b.count} seats` : null));
+
+  changes.push(...compareKeyed('Borrowing', before.extras.borrowHours, after.extras.borrowHours, b => `MAX_BORROW_HOURS ${b.feature}`, b => `MAX_BORROW_HOURS ${b.feature} ${b.hours}`,
+    (a, b) => a.hours !== b.hours ? `${a.hours} → ${b.hours} hours` : null));
+  changes.push(...compareKeyed('Borrowing', before.extras.borrowLowWater, after.extras.borrowLowWater, b => `BORROW_LOWWATER ${b.feature}`, b => `BORROW_LOWWATER ${b.feature} ${b.count}`,
+    (a, b) => a.count !== b.count ? `${a.count} → ${b.count} seats` : null));
+
+  setting('Logging', 'REPORTLOG', before.extras.reportLog, after.extras.reportLog);
+  setting('Logging', 'DEBUGLOG', before.extras.debugLog, after.extras.debugLog);
+  setting('Logging', 'NOLOG', [...before.extras.noLog].sort().join(' '), [...after.extras.noLog].sort().join(' '));
+  setting('Logging', 'GROUPCASEINSENSITIVE', before.extras.groupCaseInsensitive ? 'ON' : '', after.extras.groupCaseInsensitive ? 'ON' : '');
+
+  changes.push(...compareKeyed('Kept as imported', before.extras.other, after.extras.other, o => o.text, o => o.text, () => null));
+  return changes;
+};
+
+// Plain text for a change-control ticket: the change list, then the line diff
+export const optionsChangeSummary = (
+  changes: OptionsChange[], lines: DiffLine[], meta: { fileName: string, serverName: string, importedAt: string, generatedAt: Date },
+) => {
+  const out: string[] = [];
+  out.push('sw_d.opt change summary');
+  out.push(`Server: ${meta.serverName}`);
+  out.push(`Original: ${meta.fileName} (imported ${new Date(meta.importedAt).toLocaleString()})`);
+  out.push(`Prepared: ${meta.generatedAt.toLocaleString()}`);
+  out.push('');
+  const count = (kind: OptionsChange['kind']) => changes.filter(c => c.kind === kind).length;
+  out.push(changes.length === 0 ? 'No changes to rules, groups or settings.' : `${changes.length} change${changes.length === 1 ? '' : 's'}: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed.`);
+  CHANGE_SECTIONS.forEach(section => {
+    const inSection = changes.filter(c => c.section === section);
+    if (inSection.length === 0) return;
+    out.push('', `${section}:`);
+    inSection.forEach(c => out.push(`  ${c.kind === 'added' ? '+' : c.kind === 'removed' ? '-' : '~'} ${c.subject}${c.detail ? ` (${c.detail})` : ''}`));
+  });
+  out.push('', 'Line diff:');
+  diffHunks(lines).forEach(line => {
+    if (!line) { out.push('  ...'); return; }
+    out.push(`${line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '} ${line.text}`);
+  });
+  return out.join('\n');
+};
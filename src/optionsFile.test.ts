@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateOptionsFile, parseOptionsFile } from './optionsFile';
+
+// One of everything the builder models, plus a statement it doesn't and comments in each place
+const OPTIONS = [
+  '# Server: license01, rack 4 — do not edit by hand',
+  '',
+  '# Names differ in case between AD and the workstations',
+  'GROUPCASEINSENSITIVE ON',
+  '# Idle seats back after an hour',
+  'TIMEOUTALL 3600',
+  'TIMEOUT swsimulation 7200',
+  '# Design office',
+  'GROUP Designers jchen kpatel',
+  'HOST_GROUP Lab WS1 WS2',
+  'RESERVE 1 solidworks GROUP Designers',
+  'MAX 2 swpremium:SWVERSION=2025 HOST_GROUP Lab',
+  'EXCLUDEALL USER intern1',
+  '# Laptops go offline for a week at most',
+  'MAX_BORROW_HOURS solidworks 168',
+  'BORROW_LOWWATER solidworks 1',
+  'REPORTLOG +"C:\\SNL Logs\\report.rl"',
+  'DEBUGLOG C:\\SNL\\debug.log',
+  'NOLOG IN',
+  'NOLOG QUEUED',
+  '# Not modeled by the builder',
+  'LINGER solidworks 300',
+  '# End of file',
+].join('\n');
+
+test('importing a generated file and generating again changes nothing', () => {
+  const state = parseOptionsFile(OPTIONS);
+  const first = generateOptionsFile(state, 'SNLSERVER01', new Date(2026, 2, 2));
+  assert.deepEqual(parseOptionsFile(first), state);
+  assert.equal(generateOptionsFile(parseOptionsFile(first), 'SNLSERVER01', new Date(2026, 2, 2)), first);
+});
+
+test('keeps every keyword and comment through a round trip', () => {
+  const state = parseOptionsFile(OPTIONS);
+  const text = generateOptionsFile(state, 'SNLSERVER01');
+  OPTIONS.split('\n').filter(Boolean).forEach(line => assert.ok(text.includes(line), line));
+  assert.deepEqual(state.extras.noLog, ['IN', 'QUEUED']);
+  assert.deepEqual(state.extras.other.map(o => o.text), ['LINGER solidworks 300']);
+  assert.equal(state.extras.comments.header, 'Server: license01, rack 4 — do not edit by hand');
+});
+
+test('drops only the generated header block', () => {
+  const generated = generateOptionsFile(parseOptionsFile(OPTIONS), 'SNLSERVER01');
+  assert.equal(generated.split('\n').filter(l => l.startsWith('# Server: ')).length, 2);
+  assert.equal(parseOptionsFile(`# Server: license01\nTIMEOUTALL 3600`).extras.comments.timeoutAll, 'Server: license01');
+});
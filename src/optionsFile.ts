@@ -0,0 +1,251 @@
+import type { NoLogEvent, OptionsExtras, OptionsFeatureTimeout, OptionsGroup, OptionsRule } from './types';
+
+// sw_d.opt text ↔ builder state. Statements the builder can't model are carried through verbatim
+// and comments travel with the statement below them, so importing and generating again keeps
+// everything but blank lines and the order of statements across sections.
+
+export interface OptionsState {
+  timeoutEnabled: boolean;
+  timeout: number; // seconds
+  featureTimeouts: OptionsFeatureTimeout[];
+  groups: OptionsGroup[];
+  rules: OptionsRule[];
+  extras: OptionsExtras;
+}
+
+export const EMPTY_OPTIONS_EXTRAS: OptionsExtras = {
+  hostGroups: [], borrowHours: [], borrowLowWater: [], reportLog: '', debugLog: '', noLog: [], groupCaseInsensitive: false, other: [], comments: {},
+};
+
+export const NOLOG_EVENTS: NoLogEvent[] = ['IN', 'OUT', 'DENIED', 'QUEUED'];
+export const RULE_TYPES: OptionsRule['type'][] = ['MAX', 'RESERVE', 'INCLUDE', 'EXCLUDE', 'INCLUDE_BORROW', 'EXCLUDE_BORROW', 'INCLUDEALL', 'EXCLUDEALL'];
+export const TARGET_TYPES: OptionsRule['targetType'][] = ['USER', 'GROUP', 'HOST', 'HOST_GROUP', 'INTERNET', 'PROJECT'];
+
+export const isCountedRule = (type: OptionsRule['type']) => type === 'MAX' || type === 'RESERVE';
+export const isAllFeaturesRule = (type: OptionsRule['type']) => type === 'INCLUDEALL' || type === 'EXCLUDEALL';
+
+export interface OptionsStatement {
+  line: number;    // 1-based, first line of the statement
+  parts: string[];
+  text: string;    // as written, continuation lines included
+  comment?: string;
+}
+
+// The three lines generateOptionsFile opens with; dropped on import only as that block at the top
+const GENERATED_HEADER = [
+  /^# SolidNetWork License Options File \(sw_d\.opt\)$/, /^# Generated by SNL License Dashboard · .*$/, /^# Server: .*$/,
+];
+
+// Section titles and notes the generator writes itself, matched whole; dropped on import so they don't pile up
+const GENERATED_COMMENTS = [
+  /^Return idle licenses after (1 hour|\d+ hours|\d+ minutes) of inactivity$/, /^No global idle timeout configured$/,
+  /^Per-feature idle timeouts \(override global\)$/,
+  /^(User Groups|Host Groups|License Rules|Borrowing|Logging|Kept as imported)$/,
+];
+
+// Words of a statement. A double-quoted stretch ("John Smith", +"C:\Program Files\sw_d.rl") stays one
+// word, quotes included, so it's written back as it was
+const WORD = /(?:[^\s"]+|"[^"]*(?:"|$))+/g;
+
+export const unquote = (word: string) => word.replace(/^"(.*)"$/, '$1');
+
+// Statements in file order. A comment block separated from the first statement by a blank line is
+// the file header; comments after the last statement are the footer.
+export const optionsStatements = (text: string) => {
+  const statements: OptionsStatement[] = [];
+  let comments: string[] = [];
+  let header: string | undefined;
+  let pending: { line: number, lines: string[], raw: string[] } | null = null;
+
+  const flush = () => {
+    statements.push({
+      line: pending!.line,
+      parts: pending!.lines.map(l => l.replace(/\\$/, '')).join(' ').match(WORD) || [],
+      text: pending!.raw.join('\n'),
+      comment: comments.length > 0 ? comments.join('\n') : undefined,
+    });
+    comments = [];
+    pending = null;
+  };
+
+  const rawLines = text.split(/\r?\n/);
+  const generated = GENERATED_HEADER.every((pattern, i) => pattern.test(rawLines[i]?.trim() ?? ''));
+
+  rawLines.forEach((raw, i) => {
+    if (generated && i < GENERATED_HEADER.length) return;
+    const trimmed = raw.trim();
+    if (!pending) {
+      if (!trimmed) {
+        if (statements.length === 0 && comments.length > 0 && header === undefined) { header = comments.join('\n'); comments = []; }
+        return;
+      }
+      if (trimmed.startsWith('#')) {
+        const comment = trimmed.slice(1).replace(/^ /, '');
+        if (!GENERATED_COMMENTS.some(pattern => pattern.test(comment))) comments.push(comment);
+        return;
+      }
+      pending = { line: i + 1, lines: [], raw: [] };
+    }
+    pending.lines.push(trimmed);
+    pending.raw.push(pending.raw.length === 0 ? trimmed : raw.trimEnd());
+    if (!trimmed.endsWith('\\')) flush();
+  });
+  // A file ending in "\" still ends the statement
+  if (pending) flush();
+  return { statements, header, footer: comments.length > 0 ? comments.join('\n') : undefined };
+};
+
+const isCount = (v?: string) => !!v && /^\d+$/.test(v);
+
+// "solidworks" or "solidworks:SWVERSION=2025"; any other qualifier is left to the verbatim section
+const parseFeatureSpec = (spec: string) => {
+  const m = spec.match(/^([^:]+)(?::SWVERSION=(\d+))?$/i);
+  return m ? { feature: m[1], versionFilter: m[2] || '' } : null;
+};
+
+const parseRule = (keyword: string, args: string[], comment?: string): OptionsRule | null => {
+  const type = keyword as OptionsRule['type'];
+  if (!RULE_TYPES.includes(type)) return null;
+  const counted = isCountedRule(type);
+  const allFeatures = isAllFeaturesRule(type);
+  if (args.length !== (counted ? 4 : allFeatures ? 2 : 3)) return null;
+  if (counted && !isCount(args[0])) return null;
+  const rest = counted ? args.slice(1) : args;
+  const spec = allFeatures ? { feature: '', versionFilter: '' } : parseFeatureSpec(rest[0]);
+  const [targetType, target] = allFeatures ? rest : rest.slice(1);
+  if (!spec || !TARGET_TYPES.includes(targetType.toUpperCase() as OptionsRule['targetType'])) return null;
+  return { type, count: counted ? Number(args[0]) : 1, ...spec, targetType: targetType.toUpperCase() as OptionsRule['targetType'], groupOrUser: target, comment };
+};
+
+const joinComments = (...comments: (string | undefined)[]) => comments.filter(Boolean).join('\n') || undefined;
+
+export const parseOptionsFile = (text: string): OptionsState => {
+  const { statements, header, footer } = optionsStatements(text);
+  const extras: OptionsExtras = { ...EMPTY_OPTIONS_EXTRAS, hostGroups: [], borrowHours: [], borrowLowWater: [], noLog: [], other: [], comments: { header, footer } };
+  const state: OptionsState = { timeoutEnabled: false, timeout: 3600, featureTimeouts: [], groups: [], rules: [], extras };
+  const note = (key: keyof OptionsExtras['comments'], comment?: string) => { extras.comments[key] = joinComments(extras.comments[key], comment); };
+
+  statements.forEach(({ parts, text: raw, comment }) => {
+    const keyword = parts[0].toUpperCase();
+    const args = parts.slice(1);
+    const handled = (() => {
+      switch (keyword) {
+        case 'TIMEOUTALL':
+          if (args.length !== 1 || !isCount(args[0])) return false;
+          state.timeoutEnabled = true;
+          state.timeout = Number(args[0]);
+          note('timeoutAll', comment);
+          return true;
+        case 'TIMEOUT':
+          if (args.length !== 2 || !isCount(args[1]) || args[0].includes(':')) return false;
+          state.featureTimeouts.push({ feature: args[0], seconds: Number(args[1]), comment });
+          return true;
+        case 'GROUP':
+        case 'HOST_GROUP': {
+          if (args.length < 1) return false;
+          // Repeated definitions are combined by the license server, so combine them here too
+          if (keyword === 'GROUP') {
+            const existing = state.groups.find(g => g.name === args[0]);
+            if (existing) { existing.users.push(...args.slice(1)); existing.comment = joinComments(existing.comment, comment); }
+            else state.groups.push({ name: args[0], users: args.slice(1), comment });
+          } else {
+            const existing = extras.hostGroups.find(g => g.name === args[0]);
+            if (existing) { existing.hosts.push(...args.slice(1)); existing.comment = joinComments(existing.comment, comment); }
+            else extras.hostGroups.push({ name: args[0], hosts: args.slice(1), comment });
+          }
+          return true;
+        }
+        case 'MAX_BORROW_HOURS':
+          if (args.length !== 2 || !isCount(args[1]) || args[0].includes(':')) return false;
+          extras.borrowHours.push({ feature: args[0], hours: Number(args[1]), comment });
+          return true;
+        case 'BORROW_LOWWATER':
+          if (args.length !== 2 || !isCount(args[1]) || args[0].includes(':')) return false;
+          extras.borrowLowWater.push({ feature: args[0], count: Number(args[1]), comment });
+          return true;
+        case 'REPORTLOG':
+        case 'DEBUGLOG':
+          if (args.length !== 1) return false;
+          extras[keyword === 'REPORTLOG' ? 'reportLog' : 'debugLog'] = args[0];
+          note(keyword === 'REPORTLOG' ? 'reportLog' : 'debugLog', comment);
+          return true;
+        case 'NOLOG': {
+          const event = args[0]?.toUpperCase() as NoLogEvent;
+          if (args.length !== 1 || !NOLOG_EVENTS.includes(event)) return false;
+          if (!extras.noLog.includes(event)) extras.noLog.push(event);
+          note('noLog', comment);
+          return true;
+        }
+        case 'GROUPCASEINSENSITIVE':
+          if (args.length !== 1 || !/^(ON|OFF)$/i.test(args[0])) return false;
+          extras.groupCaseInsensitive = args[0].toUpperCase() === 'ON';
+          note('groupCaseInsensitive', comment);
+          return true;
+        default: {
+          const rule = parseRule(keyword, args, comment);
+          if (rule) state.rules.push(rule);
+          return !!rule;
+        }
+      }
+    })();
+    if (!handled) extras.other.push({ text: raw, comment });
+  });
+  return state;
+};
+
+const commentLines = (comment?: string) => comment ? comment.split('\n').map(l => l ? `# ${l}` : '#') : [];
+
+const describeSeconds = (seconds: number) =>
+  seconds % 3600 === 0 ? `${seconds / 3600} hour${seconds === 3600 ? '' : 's'}` : `${Math.round(seconds / 60)} minutes`;
+
+export const ruleStatement = (r: OptionsRule) => {
+  const target = `${r.targetType} ${r.groupOrUser || '???'}`;
+  if (isAllFeaturesRule(r.type)) return `${r.type} ${target}`;
+  const feature = r.versionFilter ? `${r.feature}:SWVERSION=${r.versionFilter}` : r.feature;
+  return isCountedRule(r.type) ? `${r.type} ${r.count} ${feature} ${target}` : `${r.type} ${feature} ${target}`;
+};
+
+export const generateOptionsFile = (state: OptionsState, serverName: string, generatedOn = new Date()) => {
+  const { extras } = state;
+  const lines: string[] = [];
+  const section = (title: string, body: string[]) => { if (body.length > 0) lines.push(`# ${title}`, ...body, ''); };
+
+  lines.push('# SolidNetWork License Options File (sw_d.opt)');
+  lines.push(`# Generated by SNL License Dashboard · ${generatedOn.toLocaleDateString()}`);
+  lines.push(`# Server: ${serverName}`);
+  lines.push('');
+  if (extras.comments.header) lines.push(...commentLines(extras.comments.header), '');
+
+  if (extras.groupCaseInsensitive) lines.push(...commentLines(extras.comments.groupCaseInsensitive), 'GROUPCASEINSENSITIVE ON', '');
+
+  if (state.timeoutEnabled) {
+    lines.push(`# Return idle licenses after ${describeSeconds(state.timeout)} of inactivity`);
+    lines.push(...commentLines(extras.comments.timeoutAll), `TIMEOUTALL ${state.timeout}`);
+  } else {
+    lines.push('# No global idle timeout configured');
+  }
+  if (state.featureTimeouts.length > 0) {
+    lines.push('');
+    lines.push('# Per-feature idle timeouts (override global)');
+    state.featureTimeouts.forEach(ft => lines.push(...commentLines(ft.comment), `TIMEOUT ${ft.feature} ${ft.seconds}`));
+  }
+  lines.push('');
+
+  section('User Groups', state.groups.filter(g => g.users.length > 0).flatMap(g => [...commentLines(g.comment), `GROUP ${g.name} ${g.users.join(' ')}`]));
+  section('Host Groups', extras.hostGroups.filter(g => g.hosts.length > 0).flatMap(g => [...commentLines(g.comment), `HOST_GROUP ${g.name} ${g.hosts.join(' ')}`]));
+  section('License Rules', state.rules.flatMap(r => [...commentLines(r.comment), ruleStatement(r)]));
+  section('Borrowing', [
+    ...extras.borrowHours.flatMap(b => [...commentLines(b.comment), `MAX_BORROW_HOURS ${b.feature} ${b.hours}`]),
+    ...extras.borrowLowWater.flatMap(b => [...commentLines(b.comment), `BORROW_LOWWATER ${b.feature} ${b.count}`]),
+  ]);
+  section('Logging', [
+    ...(extras.reportLog ? [...commentLines(extras.comments.reportLog), `REPORTLOG ${extras.reportLog}`] : []),
+    ...(extras.debugLog ? [...commentLines(extras.comments.debugLog), `DEBUGLOG ${extras.debugLog}`] : []),
+    ...(extras.noLog.length > 0 ? [...commentLines(extras.comments.noLog), ...extras.noLog.map(e => `NOLOG ${e}`)] : []),
+  ]);
+  section('Kept as imported', extras.other.flatMap(o => [...commentLines(o.comment), o.text]));
+  if (extras.comments.footer) lines.push(...commentLines(extras.comments.footer));
+
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+};
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintOptionsFile } from './optionsLint';
+import { generateOptionsFile, parseOptionsFile } from './optionsFile';
+import type { Session } from './types';
+
+const sessions: Session[] = [
+  { user: 'John Smith', host: 'WS1', feature: 'solidworks', start: new Date(2026, 1, 19, 8), end: new Date(2026, 1, 19, 9), duration: 60 },
+];
+const context = { sessions, licenseSeats: { solidworks: 3 } };
+
+const OPTIONS = [
+  'REPORTLOG +"C:\\Program Files\\SOLIDWORKS Corp\\report log.rl"',
+  'DEBUGLOG "C:\\SNL Logs\\lmgrd.log"',
+  'GROUP Designers "John Smith" jchen',
+  'INCLUDE solidworks USER "John Smith"',
+].join('\n');
+
+test('quoted paths and user names are single arguments', () => {
+  const issues = lintOptionsFile(OPTIONS, context);
+  assert.deepEqual(issues.filter(i => i.severity === 'error'), []);
+  assert.ok(!issues.some(i => /John Smith/.test(i.message)));
+});
+
+test('the parser keeps quoted arguments as written', () => {
+  const state = parseOptionsFile(OPTIONS);
+  assert.equal(state.extras.reportLog, '+"C:\\Program Files\\SOLIDWORKS Corp\\report log.rl"');
+  assert.deepEqual(state.groups[0].users, ['"John Smith"', 'jchen']);
+  assert.equal(state.rules[0].groupOrUser, '"John Smith"');
+  const again = generateOptionsFile(state, 'SNLSERVER01');
+  OPTIONS.split('\n').forEach(line => assert.ok(again.includes(line), line));
+});
+
+test('a MAX or RESERVE count of 0 is reported', () => {
+  const issues = lintOptionsFile('MAX 0 solidworks USER "John Smith"\nRESERVE 0 solidworks USER "John Smith"', context);
+  assert.deepEqual(issues.map(i => [i.line, i.severity, i.message.split(' ').slice(0, 2).join(' ')]), [[1, 'warning', 'MAX 0'], [2, 'warning', 'RESERVE 0']]);
+});
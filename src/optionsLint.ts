@@ -0,0 +1,206 @@
+import type { NoLogEvent, OptionsRule, Session } from './types';
+import { optionsStatements, isAllFeaturesRule, isCountedRule, unquote, NOLOG_EVENTS, RULE_TYPES, TARGET_TYPES } from './optionsFile';
+
+// Static checks for sw_d.opt text — whether imported or generated by the builder. Line numbers are
+// 1-based and point at the first line of a statement continued with "\".
+
+export type OptionsIssueSeverity = 'error' | 'warning';
+
+export interface OptionsIssue {
+  line: number;
+  severity: OptionsIssueSeverity;
+  message: string;
+}
+
+export interface OptionsLintContext {
+  sessions: Session[];                  // checkout history, for the features/users/hosts actually seen
+  licenseSeats: Record<string, number>; // feature → seats owned; features without a count are skipped
+}
+
+// Valid FlexNet keywords the builder doesn't model — kept verbatim on import
+const OTHER_KEYWORDS = ['LINGER', 'MAX_OVERDRAFT', 'FQDN_MATCHING', 'TIMEZONE', 'ACTIVATION_LOWWATER', 'ACTIVATION_EXPIRY_DAYS'];
+const MIN_TIMEOUT = 900;
+
+interface ParsedRule {
+  line: number;
+  type: string;
+  count: number;
+  feature: string; // '' for INCLUDEALL/EXCLUDEALL
+  targetType: string;
+  target: string;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+export const lintOptionsFile = (text: string, context: OptionsLintContext): OptionsIssue[] => {
+  const issues: OptionsIssue[] = [];
+  const error = (line: number, message: string) => issues.push({ line, severity: 'error', message });
+  const warn = (line: number, message: string) => issues.push({ line, severity: 'warning', message });
+
+  const features = new Set(context.sessions.map(s => s.feature));
+  const users = new Set(context.sessions.map(s => s.user));
+  const featureName = (spec: string) => spec.split(':')[0];
+  const checkFeature = (line: number, spec: string) => {
+    if (features.size > 0 && !features.has(featureName(spec))) warn(line, `Feature "${featureName(spec)}" has no checkouts in this log — check the spelling.`);
+  };
+  const checkCount = (line: number, value: string | undefined, what: string) => {
+    if (value && /^\d+$/.test(value)) return true;
+    error(line, `"${value ?? ''}" is not a valid ${what}.`);
+    return false;
+  };
+
+  const groups: Record<string, { line: number, users: string[] }> = {};
+  const hostGroups: Record<string, { line: number }> = {};
+  const rules: ParsedRule[] = [];
+  const seen: Record<string, number> = {};
+
+  optionsStatements(text).statements.forEach(({ line, parts }) => {
+    const keyword = parts[0].toUpperCase();
+    const args = parts.slice(1);
+    const key = parts.join(' ');
+    if (seen[key]) warn(line, `Duplicate of line ${seen[key]}.`);
+    else seen[key] = line;
+    const expect = (count: number, usage: string) => {
+      if (args.length === count) return true;
+      error(line, `Expected: ${usage}`);
+      return false;
+    };
+
+    switch (keyword) {
+      case 'TIMEOUTALL':
+      case 'TIMEOUT': {
+        const all = keyword === 'TIMEOUTALL';
+        if (!expect(all ? 1 : 2, all ? 'TIMEOUTALL <seconds>' : 'TIMEOUT <feature> <seconds>')) return;
+        if (!checkCount(line, args[all ? 0 : 1], 'number of seconds')) return;
+        if (Number(args[all ? 0 : 1]) < MIN_TIMEOUT) warn(line, `Timeouts under ${MIN_TIMEOUT} seconds are raised to ${MIN_TIMEOUT} by the license server.`);
+        if (!all) checkFeature(line, args[0]);
+        return;
+      }
+      case 'GROUP': {
+        if (args.length < 1) { error(line, 'Expected: GROUP <name> <user> ...'); return; }
+        const [name, ...quoted] = args;
+        const members = quoted.map(unquote);
+        if (members.length === 0) warn(line, `Group "${name}" has no members.`);
+        if (groups[name]) warn(line, `Group "${name}" is also defined on line ${groups[name].line} — the license server combines the lists.`);
+        const unseen = members.filter(u => !users.has(u));
+        if (users.size > 0 && unseen.length > 0) warn(line, `${plural(unseen.length, 'member')} never checked anything out in this log: ${unseen.slice(0, 5).join(', ')}${unseen.length > 5 ? ` +${unseen.length - 5} more` : ''}.`);
+        groups[name] = { line: groups[name]?.line ?? line, users: [...(groups[name]?.users || []), ...members] };
+        return;
+      }
+      case 'HOST_GROUP': {
+        if (args.length < 1) { error(line, 'Expected: HOST_GROUP <name> <host> ...'); return; }
+        if (args.length === 1) warn(line, `Host group "${args[0]}" has no members.`);
+        if (hostGroups[args[0]]) warn(line, `Host group "${args[0]}" is also defined on line ${hostGroups[args[0]].line} — the license server combines the lists.`);
+        hostGroups[args[0]] = hostGroups[args[0]] || { line };
+        return;
+      }
+      case 'MAX_BORROW_HOURS':
+      case 'BORROW_LOWWATER': {
+        const hours = keyword === 'MAX_BORROW_HOURS';
+        if (!expect(2, `${keyword} <feature> <${hours ? 'hours' : 'seats'}>`)) return;
+        if (!checkCount(line, args[1], hours ? 'number of hours' : 'seat count')) return;
+        checkFeature(line, args[0]);
+        const seats = context.licenseSeats[featureName(args[0])];
+        if (!hours && seats && Number(args[1]) >= seats) warn(line, `Keeps ${args[1]} of ${seats} ${featureName(args[0])} seats from being borrowed — nobody can borrow it.`);
+        return;
+      }
+      case 'REPORTLOG':
+      case 'DEBUGLOG':
+        expect(1, `${keyword} [+]<path>`);
+        return;
+      case 'NOLOG':
+        if (expect(1, 'NOLOG IN|OUT|DENIED|QUEUED') && !NOLOG_EVENTS.includes(args[0].toUpperCase() as NoLogEvent)) error(line, `NOLOG takes IN, OUT, DENIED or QUEUED, not "${args[0]}".`);
+        if (args[0]?.toUpperCase() === 'DENIED') warn(line, 'With NOLOG DENIED the debug log stops recording denials — this dashboard can no longer report them.');
+        return;
+      case 'GROUPCASEINSENSITIVE':
+        if (expect(1, 'GROUPCASEINSENSITIVE ON|OFF') && !/^(ON|OFF)$/i.test(args[0])) error(line, `GROUPCASEINSENSITIVE takes ON or OFF, not "${args[0]}".`);
+        return;
+    }
+
+    if (OTHER_KEYWORDS.includes(keyword)) { warn(line, `${keyword} is kept as written — the builder can't edit it.`); return; }
+    if (!RULE_TYPES.includes(keyword as OptionsRule['type'])) { error(line, `Unknown keyword "${parts[0]}" — the license server ignores this line.`); return; }
+
+    // MAX/RESERVE count feature TYPE target; INCLUDEALL/EXCLUDEALL TYPE target; the others feature TYPE target
+    const type = keyword as OptionsRule['type'];
+    const counted = isCountedRule(type);
+    const allFeatures = isAllFeaturesRule(type);
+    if (!expect(counted ? 4 : allFeatures ? 2 : 3, `${keyword}${counted ? ' <count>' : ''}${allFeatures ? '' : ' <feature>'} <${TARGET_TYPES.join('|')}> <name>`)) return;
+    if (counted && !checkCount(line, args[0], 'seat count')) return;
+    if (counted && Number(args[0]) === 0) {
+      warn(line, keyword === 'MAX' ? 'MAX 0 lets the target check out nothing — use EXCLUDE if that is the intent.' : 'RESERVE 0 holds back no seats — the line has no effect.');
+    }
+    const rest = counted ? args.slice(1) : args;
+    const [feature, targetType, quotedTarget] = allFeatures ? ['', ...rest] : rest;
+    const target = unquote(quotedTarget);
+    const upperTarget = targetType.toUpperCase();
+    if (upperTarget === 'DISPLAY') warn(line, 'DISPLAY targets are kept as written — the builder can\'t edit them.');
+    else if (!TARGET_TYPES.includes(upperTarget as OptionsRule['targetType'])) { error(line, `Unknown target type "${targetType}".`); return; }
+    if (feature) {
+      if (!/^[^:]+(:SWVERSION=\d+)?$/i.test(feature)) warn(line, `The qualifier on "${feature}" is kept as written — the builder only edits SWVERSION.`);
+      checkFeature(line, feature);
+    }
+    if (upperTarget === 'USER' && users.size > 0 && !users.has(target)) warn(line, `User "${target}" never checked anything out in this log.`);
+    rules.push({ line, type, count: counted ? Number(args[0]) : 1, feature: featureName(feature), targetType: upperTarget, target });
+  });
+
+  // Cross-line checks, once every group is known
+  const membersOf = (r: ParsedRule) => r.targetType === 'USER' ? [r.target] : r.targetType === 'GROUP' ? groups[r.target]?.users || [] : [];
+  rules.forEach(r => {
+    if (r.targetType === 'GROUP' && !groups[r.target]) error(r.line, `Group "${r.target}" is never defined — the license server rejects this rule.`);
+    if (r.targetType === 'HOST_GROUP' && !hostGroups[r.target]) error(r.line, `Host group "${r.target}" is never defined — the license server rejects this rule.`);
+  });
+
+  const includeAll = rules.filter(r => r.type === 'INCLUDEALL');
+  if (includeAll.length > 0 && users.size > 0 && includeAll.every(r => r.targetType === 'USER' || r.targetType === 'GROUP')) {
+    const admitted = new Set(includeAll.flatMap(membersOf));
+    if (!Array.from(users).some(u => admitted.has(u))) error(includeAll[0].line, `INCLUDEALL admits none of the ${plural(users.size, 'user')} in this log — everyone is locked out of every feature.`);
+  }
+
+  const byFeature: Record<string, ParsedRule[]> = {};
+  rules.filter(r => r.feature).forEach(r => { (byFeature[r.feature] = byFeature[r.feature] || []).push(r); });
+  Object.entries(byFeature).forEach(([feature, featureRules]) => {
+    // EXCLUDEALL applies to this feature as much as its own rules do
+    const list = [...featureRules, ...rules.filter(r => r.type === 'EXCLUDEALL')];
+    const seats = context.licenseSeats[feature];
+    const reserves = list.filter(r => r.type === 'RESERVE');
+    const reserved = reserves.reduce((sum, r) => sum + r.count, 0);
+    if (seats && reserves.length > 0) {
+      if (reserved > seats) error(reserves[reserves.length - 1].line, `RESERVE lines for ${feature} hold back ${reserved} seats, but only ${seats} are licensed.`);
+      else if (reserved === seats) warn(reserves[reserves.length - 1].line, `RESERVE lines for ${feature} hold back all ${seats} seats — nobody else can check it out.`);
+    }
+    if (seats) list.filter(r => r.type === 'MAX' && r.count >= seats).forEach(r => warn(r.line, `MAX ${r.count} is not below the ${seats} licensed ${feature} seats — it has no effect.`));
+
+    // An INCLUDE list that admits none of the people who actually use the feature
+    const includes = list.filter(r => r.type === 'INCLUDE');
+    const featureSessions = context.sessions.filter(s => s.feature === feature);
+    if (includes.length > 0 && featureSessions.length > 0 && includes.every(r => r.targetType === 'USER' || r.targetType === 'GROUP')) {
+      const admitted = new Set(includes.flatMap(membersOf));
+      const featureUsers = new Set(featureSessions.map(s => s.user));
+      const kept = Array.from(featureUsers).filter(u => admitted.has(u)).length;
+      if (kept === 0) error(includes[0].line, `INCLUDE for ${feature} admits none of the ${featureUsers.size === 1 ? 'user' : `${featureUsers.size} users`} who used it — everyone is locked out.`);
+    }
+
+    // EXCLUDE wins over everything, so a reservation or INCLUDE for the same person is dead
+    list.filter(r => r.type === 'EXCLUDE' || r.type === 'EXCLUDEALL').forEach(ex => {
+      const excluded = new Set(membersOf(ex));
+      list.filter(r => (r.type === 'RESERVE' || r.type === 'INCLUDE') && r !== ex).forEach(r => {
+        const sameTarget = r.targetType === ex.targetType && r.target === ex.target;
+        const overlap = membersOf(r).filter(u => excluded.has(u));
+        if (sameTarget || overlap.length > 0) {
+          warn(ex.line, `${ex.type} conflicts with the ${r.type} on line ${r.line}${sameTarget ? '' : ` (${overlap.slice(0, 3).join(', ')}${overlap.length > 3 ? ', ...' : ''})`} — EXCLUDE takes precedence.`);
+        }
+      });
+    });
+
+    list.filter(r => r.type === 'MAX').forEach(max => {
+      list.filter(r => r.type === 'RESERVE' && r.targetType === max.targetType && r.target === max.target && r.count > max.count)
+        .forEach(r => warn(r.line, `Reserves ${r.count} seats but line ${max.line} caps the same target at ${max.count}.`));
+    });
+  });
+
+  // EXCLUDEALL is checked once per feature; report each finding once
+  const unique = issues.filter((issue, i) => issues.findIndex(o => o.line === issue.line && o.message === issue.message) === i);
+  return unique.sort((a, b) => a.line - b.line || (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+export const hasLintErrors = (issues: OptionsIssue[]) => issues.some(i => i.severity === 'error');
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { compareSources, createLogParser, parseLogFiles } from './parser';
+
+// Two rotations from the same day; the newer file repeats the older one's last line
+// before its own first anchor
+const OLDER = [
+  ' 7:00:00 (lmgrd) FLEXnet Licensing (v11.18.2.0 build 232202) started on SNLSERVER01 (2/19/2026)',
+  ' 8:00:00 (SW_D) OUT: "solidworks" alice@WS1',
+  ' 9:00:00 (SW_D) TIMESTAMP 2/19/2026',
+  '10:00:00 (SW_D) OUT: "solidworks" bob@WS2',
+].join('\n');
+const NEWER = [
+  '10:00:00 (SW_D) OUT: "solidworks" bob@WS2',
+  '11:00:00 (SW_D) IN: "solidworks" bob@WS2',
+  '12:00:00 (SW_D) TIMESTAMP 2/19/2026',
+  '13:00:00 (SW_D) IN: "solidworks" alice@WS1',
+].join('\n');
+
+test('drops the overlapping head of a rotated file', () => {
+  const data = parseLogFiles([{ name: 'lmgrd.log.1', content: OLDER }, { name: 'lmgrd.log', content: NEWER }]);
+  assert.deepEqual(data.metadata.sources!.map(s => [s.name, s.duplicateLines]), [['lmgrd.log.1', 0], ['lmgrd.log', 1]]);
+  assert.deepEqual(data.sessions.map(s => [s.user, s.endReason, s.duration]).sort(), [['alice', 'checkin', 300], ['bob', 'checkin', 60]]);
+});
+
+test('orders same-day rotations by time, whatever order they were selected in', () => {
+  const data = parseLogFiles([{ name: 'lmgrd.log', content: NEWER }, { name: 'lmgrd.log.1', content: OLDER }]);
+  assert.deepEqual(data.metadata.sources!.map(s => s.name), ['lmgrd.log.1', 'lmgrd.log']);
+  assert.equal(data.sessions.length, 2);
+  assert.ok(data.sessions.every(s => s.endReason === 'checkin'));
+});
+
+test('falls back to the rotation suffix when anchors tie or are missing', () => {
+  const sorted = (names: string[], anchor: string | null) => names.map(name => ({ name, anchor })).sort(compareSources).map(s => s.name);
+  assert.deepEqual(sorted(['lmgrd.log', 'lmgrd.log.1', 'lmgrd.log.2'], '2/19/2026 7:00:00'), ['lmgrd.log.2', 'lmgrd.log.1', 'lmgrd.log']);
+  assert.deepEqual(sorted(['lmgrd.log', 'lmgrd.log.1'], null), ['lmgrd.log.1', 'lmgrd.log']);
+  assert.deepEqual([{ name: 'b', anchor: null }, { name: 'a', anchor: '2/20/2026 1:00:00' }].sort(compareSources).map(s => s.name), ['a', 'b']);
+});
+
+test('a live parser reports the same state without keeping the log', () => {
+  const lines = readFileSync(new URL('../fixtures/lmgrd.sample.log', import.meta.url), 'utf8').split(/\r?\n/);
+  const full = createLogParser();
+  const live = createLogParser({ live: true });
+  lines.forEach(line => { full.pushLine(line); live.pushLine(line); });
+  assert.deepEqual(live.current(), full.current());
+  assert.deepEqual(live.stats(), full.stats());
+  const kept = live.finish();
+  assert.equal(kept.entries.length + kept.sessions.length + kept.borrows.length, 0);
+});
@@ -0,0 +1,577 @@
+import type { BorrowRecord, DashboardData, DenialCategory, LiveState, LogEntry, LogSource, LogSourceInfo, ParseHealth, Session } from './types';
+import { computeAnalytics } from './analytics';
+import { classifyDenial } from './flexErrors';
+
+// FlexLM logs often have leading spaces. Regex adjusted to be more forgiving.
+export const LOG_LINE = /^\s*(\d{1,2}:\d{2}:\d{2})\s+\(([\w\s.-]+)\)\s+(.*)$/;
+
+// Date anchors: "TIMESTAMP 2/19/2026" and "started on HOST (2/19/2026)"
+export const dateAnchor = (message: string): string | null => {
+  const m = message.match(/TIMESTAMP\s+(\d{1,2}\/\d{1,2}\/\d{4})/) || message.match(/started on \S+ \((\d{1,2}\/\d{1,2}\/\d{4})\)/);
+  return m ? m[1] : null;
+};
+
+// First date anchor in a chunk of log text, with the time of its line ("2/19/2026 7:02:11")
+// — used to order rotated files, several of which can start on the same day
+export const firstDateAnchor = (text: string): string | null => {
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(LOG_LINE);
+    const anchor = m && dateAnchor(m[3]);
+    if (anchor) return `${anchor} ${m[1]}`;
+  }
+  return null;
+};
+
+// Server that wrote a log, from its startup banner or nodeid line
+export const detectServerName = (text: string): string | null => {
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(LOG_LINE);
+    if (!m) continue;
+    const [, , daemon, message] = m;
+    const name = (daemon.toLowerCase() === 'lmgrd' && message.match(/started on (\S+)/))
+      || message.match(/Server started on (\S+)/)
+      || message.match(/^(\S+)'s Server nodeid/);
+    if (name) return name[1];
+  }
+  return null;
+};
+
+// Bucket sources per server. A rotated file without a banner joins the only named
+// server when there is exactly one; otherwise it gets a group of its own.
+export const groupByServer = <T>(sources: { item: T, server: string | null }[]): { server: string | null, items: T[] }[] => {
+  const named = Array.from(new Set(sources.map(s => s.server).filter(Boolean))) as string[];
+  const groups = new Map<string | null, T[]>();
+  sources.forEach(({ item, server }) => {
+    const key = server ?? (named.length === 1 ? named[0] : null);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return Array.from(groups, ([server, items]) => ({ server, items }));
+};
+
+// lmgrd.log.2 is older than lmgrd.log.1, which is older than lmgrd.log
+export const rotationIndex = (name: string) => {
+  const m = name.match(/\.(\d+)$/);
+  return m ? Number(m[1]) : 0;
+};
+
+// Dated sources in chronological order, undated ones last; ties go by rotation suffix
+export const compareSources = (a: { name: string, anchor: string | null }, b: { name: string, anchor: string | null }) => {
+  if (a.anchor && b.anchor) {
+    const diff = new Date(a.anchor).getTime() - new Date(b.anchor).getTime();
+    if (diff !== 0) return diff;
+  } else if (a.anchor || b.anchor) {
+    return a.anchor ? -1 : 1;
+  }
+  return rotationIndex(b.name) - rotationIndex(a.name);
+};
+
+const DAY_MS = 86400000;
+// Wall-clock going back by more than this between lines means midnight passed
+const ROLLOVER_THRESHOLD_SECS = 3600;
+
+const toSeconds = (time: string) => {
+  const [h, m, sec] = time.split(':').map(Number);
+  return h * 3600 + m * 60 + sec;
+};
+const formatDate = (d: Date) => `${d.getMonth() + 1}/${d.getDate()}/${d.getFullYear()}`;
+const addDays = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+};
+const daysBetween = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+// lmgrd/vendor daemon going down, or coming (back) up — checkouts don't survive either
+const SHUTDOWN_EVENT = /\bEXITING\b|shutting down|\bshutdown\b/i;
+const START_EVENT = /FLEXnet Licensing .*started on|Server started on|^Started \S+ \(/;
+
+// Borrowed checkouts are tagged differently across FlexNet versions: "(BORROW)",
+// "[BORROW until 3/15/2024 17:00]", "(linger: 86400)"; early returns come from lmborrow -return
+const BORROW_EVENT = /\bBORROW(?:ED)?\b|\blinger\b/i;
+const EARLY_RETURN = /EARLY[\s_-]?RETURN|lmborrow\s+-return/i;
+const BORROW_UNTIL = /(?:until|return(?:s)?\s+by|expires?(?:\s+on)?)\s*:?\s*(\d{1,2}\/\d{1,2}\/\d{4}|\d{1,2}-[a-z]{3}-\d{4})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?/i;
+const BORROW_LINGER = /linger\s*:?\s*(\d+)/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Expected return from an explicit date (absolute) or a linger in seconds (relative to checkout)
+const borrowDue = (message: string, start: Date): { due: Date, relative: boolean } | null => {
+  const until = message.match(BORROW_UNTIL);
+  if (until) {
+    const dmy = until[1].match(/^(\d{1,2})-([a-z]{3})-(\d{4})$/i);
+    const date = dmy ? `${MONTHS.indexOf(dmy[2].toLowerCase()) + 1}/${dmy[1]}/${dmy[3]}` : until[1];
+    const due = new Date(`${date} ${until[2] || '23:59:59'}`);
+    if (!isNaN(due.getTime())) return { due, relative: false };
+  }
+  const linger = message.match(BORROW_LINGER);
+  if (linger) return { due: new Date(start.getTime() + Number(linger[1]) * 1000), relative: true };
+  return null;
+};
+
+type Stamped = Session | BorrowRecord;
+
+// Dates stamped while the current date is unconfirmed (before a source's first anchor,
+// or after an inferred rollover) — shifted into place once the next anchor arrives
+interface PendingDates {
+  entries: LogEntry[];
+  stamps: { session: Stamped, field: 'start' | 'end' | 'expectedReturn', inferred: boolean }[];
+}
+
+export interface LogParser {
+  beginSource: (name: string) => void;
+  pushLine: (line: string) => void;
+  stats: () => { lines: number, sessions: number };
+  current: (denialLimit?: number) => LiveState;
+  finish: () => DashboardData;
+}
+
+// Denials kept for live snapshots, newest last
+const RECENT_DENIALS = 50;
+
+// Incremental line parser shared by the string API and the streaming worker.
+// With `dedupeSources`, lines already seen under the same date in an earlier
+// source (overlapping copies of a rotated slice) are dropped. With `live`, only
+// what current() needs is kept — no entries, closed sessions or returned borrows —
+// so a follower that runs for months doesn't grow with the log; finish() then has
+// nothing to report.
+export const createLogParser = ({ dedupeSources = false, live = false } = {}): LogParser => {
+  const entries: LogEntry[] = [];
+  const sessions: Session[] = [];
+  const openSessions: Record<string, Session> = {};
+  const borrows: BorrowRecord[] = [];
+  // Borrows survive server restarts — only a return (or lapsing) ends them
+  const openBorrows: Record<string, BorrowRecord> = {};
+
+  let currentYear = new Date().getFullYear();
+  let currentDate = '';
+  let firstDate = '';
+
+  // Date repair bookkeeping
+  let lastSeconds: number | null = null;
+  let pending: PendingDates | null = null;
+  let rolloverInferred = false;
+  let usingFallback = false;
+  let inferredRollovers = 0;
+  let discardedSessions = 0;
+  const repaired = new Set<Stamped>();
+
+  // Restart handling
+  let lastStamp: { date: string, time: string } | null = null;
+  let serverStarts = 0;
+  let restartClosedSessions = 0;
+  // For live followers: whether the last lifecycle event was a start or a shutdown
+  let serverUp: boolean | null = null;
+  let lastStart: { date: string, time: string } | null = null;
+  // Denials so far per feature and category, kept as they arrive so live snapshots stay cheap
+  const denialCounts = new Map<string, { feature: string, category: DenialCategory, count: number }>();
+  const checkedOutFeatures = new Set<string>();
+  const recentDenials: LogEntry[] = [];
+  let lineCount = 0;
+  let sessionCount = 0;
+
+  // Metadata extraction
+  let serverName = 'Unknown';
+  let flexVersion = 'Unknown';
+  let port = 'Unknown';
+  let vendorPort = 'Unknown';
+  let pid = 'Unknown';
+  let logPath = 'Unknown';
+
+  // Per-source bookkeeping (multi-file ingestion)
+  const sources: LogSourceInfo[] = [];
+  let source: LogSourceInfo | null = null;
+  let sourceDate = '';
+  const seen = new Set<string>();
+  // Repeated lines within one file are real events (e.g. retries in the same second)
+  let own = new Set<string>();
+
+  // Move everything stamped while unconfirmed onto the anchor's calendar
+  const confirmDate = (anchor: string) => {
+    if (!pending) return;
+    const shift = daysBetween(currentDate, anchor);
+    if (shift !== 0) pending.entries.forEach(e => { if (e.date) e.date = addDays(e.date, shift); });
+    pending.stamps.forEach(({ session, field, inferred }) => {
+      if (shift !== 0) session[field]!.setDate(session[field]!.getDate() + shift);
+      if (session.end) session.duration = (session.end.getTime() - session.start.getTime()) / 60000;
+      if (!live && (shift !== 0 || inferred)) repaired.add(session);
+    });
+    pending = null;
+    rolloverInferred = false;
+    usingFallback = false;
+  };
+
+  const stamp = (session: Stamped, field: 'start' | 'end', time: string, date = currentDate) => {
+    session[field] = new Date(`${date} ${time}`);
+    pending?.stamps.push({ session, field, inferred: rolloverInferred });
+  };
+
+  const closeSession = (key: string, endReason: Session['endReason'], at: { date: string, time: string }) => {
+    const session = openSessions[key];
+    stamp(session, 'end', at.time, at.date);
+    session.duration = (session.end!.getTime() - session.start.getTime()) / 60000;
+    session.endReason = endReason;
+    if (session.duration >= 0) {
+      sessionCount++;
+      if (!live) sessions.push(session);
+    } else {
+      discardedSessions++;
+    }
+    delete openSessions[key];
+  };
+
+  const closeAllSessions = (endReason: Session['endReason'], at: { date: string, time: string } | null) => {
+    if (!at) return;
+    Object.keys(openSessions).forEach(key => {
+      closeSession(key, endReason, at);
+      if (endReason === 'server-restart') restartClosedSessions++;
+    });
+  };
+
+  const beginSource = (name: string) => {
+    own.forEach(key => seen.add(key));
+    own = new Set();
+    // Until this file's first anchor its lines are keyed on the date carried over, so an
+    // overlapping head matches the tail of the previous file
+    sourceDate = sourceDate || currentDate;
+    // A new file continues from the previous date until its own first anchor
+    lastSeconds = null;
+    if (currentDate && !pending) pending = { entries: [], stamps: [] };
+    source = { name, lines: 0, duplicateLines: 0 };
+    sources.push(source);
+  };
+
+  const pushLine = (line: string) => {
+    const timeMatch = line.match(LOG_LINE);
+    if (!timeMatch) return;
+
+    const [_, time, daemon, message] = timeMatch;
+    const anchor = dateAnchor(message);
+
+    if (source) {
+      if (anchor) {
+        sourceDate = anchor;
+        if (!source.startDate) source.startDate = anchor;
+        source.endDate = anchor;
+      }
+      if (dedupeSources) {
+        const key = `${sourceDate}|${line.trim()}`;
+        if (seen.has(key)) { source.duplicateLines++; return; }
+        own.add(key);
+      }
+      source.lines++;
+    }
+
+    let entry: LogEntry = { time, daemon, type: 'INFO', raw: line };
+
+    // No date seen yet: stamp against 1/1/<year> until an anchor turns up
+    if (!currentDate && !anchor) {
+      currentDate = `1/1/${currentYear}`;
+      pending = { entries: [], stamps: [] };
+      usingFallback = true;
+    }
+
+    // Midnight passed without a TIMESTAMP line
+    const seconds = toSeconds(time);
+    if (lastSeconds !== null && lastSeconds - seconds > ROLLOVER_THRESHOLD_SECS && currentDate) {
+      currentDate = addDays(currentDate, 1);
+      if (!pending) pending = { entries: [], stamps: [] };
+      rolloverInferred = true;
+      inferredRollovers++;
+    }
+    lastSeconds = seconds;
+
+    // Server going down closes every checkout here; a start without a preceding
+    // shutdown (crash) closes them at the last line we saw
+    if (!/\b(OUT|IN|DENIED|UNSUPPORTED):/.test(message)) {
+      if (SHUTDOWN_EVENT.test(message)) {
+        closeAllSessions('server-restart', { date: currentDate, time });
+        serverUp = false;
+      } else if (START_EVENT.test(message)) {
+        closeAllSessions('server-restart', lastStamp);
+        if (/started on/.test(message) && daemon.toLowerCase() === 'lmgrd') serverStarts++;
+        serverUp = true;
+        lastStart = { date: currentDate, time };
+      }
+    }
+
+    // Update Date from TIMESTAMP or "started on" lines
+    if (anchor) {
+      confirmDate(anchor);
+      currentDate = anchor;
+      if (!firstDate) firstDate = anchor;
+    }
+    if (message.includes('TIMESTAMP')) entry.type = 'TIMESTAMP';
+
+    // Metadata extraction
+    if (message.includes('FLEXnet Licensing')) {
+      const vMatch = message.match(/v(\d+\.\d+\.\d+\.\d+)/);
+      if (vMatch) flexVersion = vMatch[1];
+      entry.type = 'VERSION';
+    }
+    if (daemon.toLowerCase() === 'lmgrd' && message.includes('on port')) {
+      const pMatch = message.match(/port (\d+)/);
+      if (pMatch) port = pMatch[1];
+    }
+    if (message.includes('serving licenses on port')) {
+      const vpMatch = message.match(/port (\d+)/);
+      if (vpMatch) vendorPort = vpMatch[1];
+    }
+    if (daemon.toLowerCase() === 'lmgrd' && (message.includes('Server\'s nodeid') || message.includes('Server nodeid'))) {
+      const hMatch = line.match(/^\s*[\d:]+\s+(\S+)\s+\(lmgrd\)/) || message.match(/^(\S+)'s Server nodeid/);
+      if (hMatch) serverName = hMatch[1];
+    }
+    if (serverName === 'Unknown' && message.includes('started on') && daemon.toLowerCase() === 'lmgrd') {
+      const sMatch = message.match(/started on (\S+)/);
+      if (sMatch) serverName = sMatch[1];
+    }
+    if (serverName === 'Unknown' && message.includes('Server started on')) {
+      const sMatch = message.match(/Server started on (\S+)/);
+      if (sMatch) serverName = sMatch[1];
+    }
+    if (message.includes('license file(s)')) {
+      const dMatch = message.match(/:(.*)/);
+      if (dMatch) logPath = dMatch[1].trim();
+    }
+    if (message.includes('pid')) {
+      const pidMatch = message.match(/pid (\d+)/);
+      if (pidMatch) pid = pidMatch[1];
+    }
+
+    // Date might be present in some lines as a fallback
+    entry.date = currentDate;
+
+    // Event Types
+    if (message.includes('OUT:') && BORROW_EVENT.test(message)) {
+      entry.type = 'OUT';
+      const parts = message.match(/OUT:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)/);
+      if (parts) {
+        entry.feature = parts[1];
+        entry.user = parts[2];
+        entry.host = parts[3];
+
+        const key = `${entry.user}@${entry.host}:${entry.feature}`;
+        const borrow: BorrowRecord = { user: entry.user, host: entry.host, feature: entry.feature, status: 'out', raw: line } as BorrowRecord;
+        stamp(borrow, 'start', time);
+        const due = borrowDue(message, borrow.start);
+        if (due) {
+          borrow.expectedReturn = due.due;
+          if (due.relative) pending?.stamps.push({ session: borrow, field: 'expectedReturn', inferred: rolloverInferred });
+        }
+        if (!live) borrows.push(borrow);
+        openBorrows[key] = borrow;
+      }
+    } else if (EARLY_RETURN.test(message) || (message.includes('IN:') && BORROW_EVENT.test(message))) {
+      entry.type = 'IN';
+      const parts = message.match(/(?:IN|RETURN):?\s+"?([^"\s]+)"?\s+(\S+)@(\S+)/i);
+      if (parts) {
+        entry.feature = parts[1];
+        entry.user = parts[2];
+        entry.host = parts[3];
+
+        const key = `${entry.user}@${entry.host}:${entry.feature}`;
+        const borrow = openBorrows[key];
+        if (borrow) {
+          stamp(borrow, 'end', time);
+          borrow.duration = (borrow.end!.getTime() - borrow.start.getTime()) / 60000;
+          borrow.status = EARLY_RETURN.test(message) ? 'early-return' : 'returned';
+          delete openBorrows[key];
+        }
+      }
+    } else if (message.includes('OUT:')) {
+      entry.type = 'OUT';
+      // Match features with or without quotes
+      const parts = message.match(/OUT:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)/);
+      if (parts) {
+        entry.feature = parts[1];
+        entry.user = parts[2];
+        entry.host = parts[3];
+
+        // Track Session
+        const key = `${entry.user}@${entry.host}:${entry.feature}`;
+        const session = { user: entry.user, host: entry.host, feature: entry.feature } as Session;
+        stamp(session, 'start', time);
+        openSessions[key] = session;
+        checkedOutFeatures.add(entry.feature);
+      }
+    } else if (message.includes('IN:')) {
+      entry.type = 'IN';
+      const parts = message.match(/IN:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)/);
+      if (parts) {
+        entry.feature = parts[1];
+        entry.user = parts[2];
+        entry.host = parts[3];
+
+        const key = `${entry.user}@${entry.host}:${entry.feature}`;
+        if (openSessions[key]) closeSession(key, 'checkin', { date: currentDate, time });
+      }
+    } else if (message.includes('DENIED:')) {
+      entry.type = 'DENIED';
+      const parts = message.match(/DENIED:\s+"?([^"\s]+)"?\s+(\S+)@(\S+)\s+\((.*)\)/);
+      if (parts) {
+        entry.feature = parts[1];
+        entry.user = parts[2];
+        entry.host = parts[3];
+        entry.reason = parts[4];
+        const { code, category } = classifyDenial(entry.reason);
+        entry.flexError = code;
+        entry.denialCategory = category;
+        const countKey = `${entry.feature}|${category}`;
+        if (!denialCounts.has(countKey)) denialCounts.set(countKey, { feature: entry.feature, category, count: 0 });
+        denialCounts.get(countKey)!.count++;
+      }
+    } else if (message.includes('UNSUPPORTED')) {
+      entry.type = 'UNSUPPORTED';
+      const parts = message.match(/UNSUPPORTED:\s+"?([^"\s]+)"?/);
+      if (parts) entry.feature = parts[1];
+    } else if (message.includes('RESERVING')) {
+      entry.type = 'RESERVING';
+    } else if (message.toLowerCase().includes('error') || message.includes('EXITING')) {
+      entry.type = 'ERROR';
+    }
+
+    lineCount++;
+    if (entry.type === 'DENIED') {
+      recentDenials.push(entry);
+      if (recentDenials.length > RECENT_DENIALS) recentDenials.shift();
+    }
+    if (!live) entries.push(entry);
+    // Live followers only look back at the recent denials, so only those need re-dating
+    if (!live || entry.type === 'DENIED') pending?.entries.push(entry);
+    lastStamp = { date: currentDate, time };
+  };
+
+  // Unlike finish(), leaves open checkouts open so more lines can follow
+  const current = (denialLimit = RECENT_DENIALS): LiveState => {
+    const lastEvent = lastStamp ? new Date(`${lastStamp.date} ${lastStamp.time}`) : null;
+    return {
+      serverName,
+      held: Object.values(openSessions),
+      features: Array.from(checkedOutFeatures),
+      // Borrows past their due date have lapsed even without a return line
+      borrows: Object.values(openBorrows).filter(b => !b.expectedReturn || !lastEvent || b.expectedReturn > lastEvent),
+      recentDenials: recentDenials.slice(Math.max(0, recentDenials.length - denialLimit)).reverse(),
+      denialCounts: Array.from(denialCounts.values(), c => ({ ...c })),
+      lastEvent,
+      lines: lineCount,
+      flexVersion,
+      serverUp,
+      lastStart: lastStart ? new Date(`${lastStart.date} ${lastStart.time}`) : null,
+      restarts: Math.max(0, serverStarts - 1),
+    };
+  };
+
+  const finish = (): DashboardData => {
+    // Still checked out when the log ends — these users hold seats right now
+    closeAllSessions('active-at-log-end', lastStamp);
+    // Borrows past their due date lapsed on their own; the rest are still offline
+    const logEnd = lastStamp ? new Date(`${lastStamp.date} ${lastStamp.time}`) : null;
+    Object.values(openBorrows).forEach(borrow => {
+      if (borrow.expectedReturn && logEnd && borrow.expectedReturn <= logEnd) {
+        borrow.end = borrow.expectedReturn;
+        borrow.status = 'expired';
+        borrow.duration = (borrow.end.getTime() - borrow.start.getTime()) / 60000;
+      } else if (logEnd) {
+        borrow.duration = Math.max(0, (logEnd.getTime() - borrow.start.getTime()) / 60000);
+      }
+    });
+    // Inferred rollovers never confirmed by a later anchor still count as repairs
+    pending?.stamps.forEach(({ session, inferred }) => { if (inferred) repaired.add(session); });
+    const denials = entries.filter(e => e.type === 'DENIED');
+    const analytics = computeAnalytics(sessions, denials);
+
+    return {
+      metadata: {
+        serverName, flexVersion, port, vendorPort, pid, logPath,
+        startDate: firstDate || currentDate, endDate: currentDate,
+        ...(sources.length > 0 && { sources }),
+      },
+      entries,
+      sessions,
+      borrows,
+      denials,
+      errors: entries.filter(e => e.type === 'ERROR' || e.type === 'UNSUPPORTED'),
+      parseHealth: {
+        inferredRollovers,
+        repairedSessions: sessions.filter(s => repaired.has(s)).length,
+        discardedSessions,
+        undatedLines: usingFallback && pending ? pending.entries.length : 0,
+        serverRestarts: Math.max(0, serverStarts - 1),
+        restartClosedSessions,
+      },
+      ...analytics
+    };
+  };
+
+  return { beginSource, pushLine, stats: () => ({ lines: lineCount, sessions: sessionCount }), current, finish };
+};
+
+// Each server is parsed on its own timeline (restarts and rollovers are per server),
+// then tagged and combined into one workspace
+export const mergeServers = (parts: { server: string | null, data: DashboardData }[]): DashboardData => {
+  parts.forEach(({ server, data }) => {
+    const name = server ?? data.metadata.serverName;
+    data.entries.forEach(e => { e.server = name; });
+    data.sessions.forEach(s => { s.server = name; });
+    data.borrows.forEach(b => { b.server = name; });
+  });
+  if (parts.length === 1) return parts[0].data;
+
+  const all = parts.map(p => p.data);
+  const names = parts.map(({ server, data }) => server ?? data.metadata.serverName);
+  const dates = all.flatMap(d => [d.metadata.startDate, d.metadata.endDate]).filter(Boolean) as string[];
+  const byTime = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+  const sessions = ([] as Session[]).concat(...all.map(d => d.sessions)).sort((a, b) => a.start.getTime() - b.start.getTime());
+  const denials = ([] as LogEntry[]).concat(...all.map(d => d.denials));
+  const parseHealth = Object.fromEntries(Object.keys(all[0].parseHealth).map(key => [key, all.reduce((sum, d) => sum + d.parseHealth[key as keyof ParseHealth], 0)])) as unknown as ParseHealth;
+  const distinct = (values: string[]) => Array.from(new Set(values)).join(', ');
+
+  return {
+    metadata: {
+      serverName: names.join(' + '),
+      flexVersion: distinct(all.map(d => d.metadata.flexVersion)),
+      port: distinct(all.map(d => d.metadata.port)),
+      vendorPort: distinct(all.map(d => d.metadata.vendorPort)),
+      pid: distinct(all.map(d => d.metadata.pid)),
+      logPath: distinct(all.map(d => d.metadata.logPath)),
+      startDate: dates.sort(byTime)[0],
+      endDate: dates[dates.length - 1],
+      sources: all.flatMap(d => d.metadata.sources || []),
+      servers: all.map((d, i) => ({
+        name: names[i],
+        flexVersion: d.metadata.flexVersion,
+        port: d.metadata.port,
+        startDate: d.metadata.startDate,
+        endDate: d.metadata.endDate,
+        sources: (d.metadata.sources || []).map(s => s.name),
+      })),
+    },
+    entries: ([] as LogEntry[]).concat(...all.map(d => d.entries)),
+    sessions,
+    borrows: ([] as BorrowRecord[]).concat(...all.map(d => d.borrows)),
+    denials,
+    errors: ([] as LogEntry[]).concat(...all.map(d => d.errors)),
+    parseHealth,
+    ...computeAnalytics(sessions, denials),
+  };
+};
+
+export const parseLogFile = (content: string): DashboardData => {
+  const parser = createLogParser();
+  content.split(/\r?\n/).forEach(parser.pushLine);
+  return parser.finish();
+};
+
+// Merge rotated logs (lmgrd.log, lmgrd.log.1, ...) into one chronological timeline per server
+export const parseLogFiles = (files: LogSource[]): DashboardData => {
+  const groups = groupByServer(files.map(file => ({ item: file, server: detectServerName(file.content) })));
+  return mergeServers(groups.map(({ server, items }) => {
+    const ordered = items
+      .map(file => ({ file, name: file.name, anchor: firstDateAnchor(file.content) }))
+      .sort(compareSources);
+    const parser = createLogParser({ dedupeSources: items.length > 1 });
+    ordered.forEach(({ file }) => {
+      parser.beginSource(file.name);
+      file.content.split(/\r?\n/).forEach(parser.pushLine);
+    });
+    return { server, data: parser.finish() };
+  }));
+};
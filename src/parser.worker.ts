@@ -0,0 +1,71 @@
+import { createLogParser, firstDateAnchor, compareSources, detectServerName, groupByServer, mergeServers } from './parser';
+import { toTransferable, type TransferableDashboardData } from './serialize';
+
+// Streams log files through the line parser off the main thread.
+// Cancel by terminating the worker.
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  lines: number;
+  sessions: number;
+  file: string;
+}
+
+export type ParseWorkerMessage =
+  | { type: 'progress', progress: ParseProgress }
+  | { type: 'done', data: TransferableDashboardData }
+  | { type: 'error', message: string };
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const ANCHOR_SCAN_SIZE = 256 * 1024;
+
+const ctx = self as unknown as Worker;
+const post = (msg: ParseWorkerMessage) => ctx.postMessage(msg);
+
+ctx.onmessage = async (e: MessageEvent<{ files: File[] }>) => {
+  try {
+    const { files } = e.data;
+    const totalBytes = files.reduce((a, f) => a + f.size, 0);
+
+    // Group files per server and order rotated files by the first date anchor,
+    // both read from near the top of each file
+    const heads = await Promise.all(files.map(f => f.slice(0, ANCHOR_SCAN_SIZE).text()));
+    const groups = groupByServer(files.map((file, i) => ({ item: { file, name: file.name, anchor: firstDateAnchor(heads[i]) }, server: detectServerName(heads[i]) })));
+
+    let bytesRead = 0;
+    let linesBefore = 0, sessionsBefore = 0;
+    const parts = [];
+    for (const { server, items } of groups) {
+      const ordered = [...items].sort(compareSources);
+      const parser = createLogParser({ dedupeSources: items.length > 1 });
+
+      for (const { file } of ordered) {
+        parser.beginSource(file.name);
+        const decoder = new TextDecoder();
+        let carry = '';
+        for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+          const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+          const text = carry + decoder.decode(chunk, { stream: true });
+          const lines = text.split(/\r?\n/);
+          carry = lines.pop() ?? '';
+          lines.forEach(parser.pushLine);
+          bytesRead += chunk.byteLength;
+          const { lines: lineCount, sessions } = parser.stats();
+          post({ type: 'progress', progress: { bytesRead, totalBytes, lines: linesBefore + lineCount, sessions: sessionsBefore + sessions, file: file.name } });
+        }
+        const tail = carry + decoder.decode();
+        if (tail) parser.pushLine(tail);
+      }
+
+      const { lines, sessions } = parser.stats();
+      linesBefore += lines;
+      sessionsBefore += sessions;
+      parts.push({ server, data: parser.finish() });
+    }
+
+    post({ type: 'done', data: toTransferable(mergeServers(parts)) });
+  } catch (err) {
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simulatePolicy } from './policy';
+import type { OptionsRule, Session } from './types';
+
+const session = (user: string, hour: number): Session => {
+  const start = new Date(2026, 1, 19, hour), end = new Date(2026, 1, 19, hour, 30);
+  return { user, host: 'WS1', feature: 'solidworks', start, end, duration: 30, endReason: 'checkin' };
+};
+const exclude = (targetType: OptionsRule['targetType'], groupOrUser: string): OptionsRule =>
+  ({ type: 'EXCLUDE', count: 0, feature: 'solidworks', groupOrUser, targetType, versionFilter: '' });
+
+test('USER and GROUP names match case-sensitively unless GROUPCASEINSENSITIVE is on', () => {
+  const sessions = [session('JChen', 8), session('jchen', 10)];
+  const groups = [{ name: 'Interns', users: ['jchen'] }];
+  const run = (rule: OptionsRule, caseInsensitive: boolean) =>
+    simulatePolicy(sessions, [], [], [rule], groups, {}, [], caseInsensitive).deniedCheckouts;
+
+  assert.equal(run(exclude('USER', 'jchen'), false), 1);
+  assert.equal(run(exclude('USER', 'jchen'), true), 2);
+  assert.equal(run(exclude('GROUP', 'interns'), false), 0);
+  assert.equal(run(exclude('GROUP', 'interns'), true), 2);
+});
@@ -0,0 +1,187 @@
+import type { BorrowRecord, LogEntry, OptionsGroup, OptionsHostGroup, OptionsRule, Session } from './types';
+import { computeFeatureConcurrency } from './analytics';
+import { denialCategoryOf } from './flexErrors';
+import { isAllFeaturesRule, unquote } from './optionsFile';
+
+// Replays the options builder's rules over the checkout history, as if the sw_d.opt had been live.
+// Checkouts are taken in time order; one turned away by a rule never holds a seat, so later
+// checkouts see the pool it would have left. Version filters can't be checked — the log doesn't
+// record client versions — so those rules are applied to every checkout of the feature.
+
+export interface RuleImpact {
+  index: number;          // position in the rule list
+  rule: OptionsRule;
+  deniedCheckouts: number;
+  deniedUsers: { user: string, denied: number, total: number }[];
+  lockedOutUsers: string[]; // every one of their checkouts of the feature would have been denied
+  preventedDenials: number; // RESERVE only: historical denials a held-back seat would have absorbed
+  preventedUsers: string[];
+  notes: string[];
+}
+
+export interface PolicySimulation {
+  rules: RuleImpact[];
+  deniedCheckouts: number;
+  preventedDenials: number;
+  lockedOutUsers: string[];
+}
+
+type Who = { user: string, host: string };
+
+const globToRegExp = (glob: string) => new RegExp(`^${glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`, 'i');
+
+// With GROUPCASEINSENSITIVE ON the daemon compares user and group names regardless of case
+const sameName = (a: string, b: string, caseInsensitive: boolean) => caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+const findGroup = <T extends { name: string }>(list: T[], name: string, caseInsensitive: boolean) => list.find(g => sameName(g.name, name, caseInsensitive));
+
+const targets = (rule: OptionsRule, groups: OptionsGroup[], hostGroups: OptionsHostGroup[], caseInsensitive: boolean) => {
+  const target = unquote(rule.groupOrUser.trim());
+  const fold = (name: string) => caseInsensitive ? name.toLowerCase() : name;
+  switch (rule.targetType) {
+    case 'USER': return (w: Who) => sameName(w.user, target, caseInsensitive);
+    case 'GROUP': {
+      const members = new Set((findGroup(groups, target, caseInsensitive)?.users || []).map(u => fold(unquote(u))));
+      return (w: Who) => members.has(fold(w.user));
+    }
+    case 'HOST': return (w: Who) => w.host.toLowerCase() === target.toLowerCase();
+    case 'HOST_GROUP': {
+      const hosts = new Set((findGroup(hostGroups, target, caseInsensitive)?.hosts || []).map(h => h.toLowerCase()));
+      return (w: Who) => hosts.has(w.host.toLowerCase());
+    }
+    case 'INTERNET': {
+      const pattern = globToRegExp(target);
+      return (w: Who) => pattern.test(w.host);
+    }
+    case 'PROJECT': return () => false;
+  }
+};
+
+interface Compiled {
+  index: number;
+  rule: OptionsRule;
+  matches: (w: Who) => boolean;
+}
+
+export const simulatePolicy = (
+  sessions: Session[],
+  denials: LogEntry[],
+  borrows: BorrowRecord[],
+  rules: OptionsRule[],
+  groups: OptionsGroup[],
+  licenseSeats: Record<string, number> = {},
+  hostGroups: OptionsHostGroup[] = [],
+  groupCaseInsensitive = false,
+): PolicySimulation => {
+  const impacts: RuleImpact[] = rules.map((rule, index) => ({ index, rule, deniedCheckouts: 0, deniedUsers: [], lockedOutUsers: [], preventedDenials: 0, preventedUsers: [], notes: [] }));
+  const compiled: Compiled[] = [];
+  rules.forEach((rule, index) => {
+    const notes = impacts[index].notes;
+    if (!rule.groupOrUser.trim()) { notes.push('No target set — rule skipped.'); return; }
+    if (rule.targetType === 'GROUP' && !findGroup(groups, rule.groupOrUser.trim(), groupCaseInsensitive)) notes.push(`Group "${rule.groupOrUser}" is not defined — matches nobody.`);
+    if (rule.targetType === 'HOST_GROUP' && !findGroup(hostGroups, rule.groupOrUser.trim(), groupCaseInsensitive)) notes.push(`Host group "${rule.groupOrUser}" is not defined — matches nobody.`);
+    if (rule.targetType === 'PROJECT') notes.push('Projects are not in the log — matches nobody.');
+    if (rule.versionFilter) notes.push('Client versions are not in the log — applied to every version.');
+    compiled.push({ index, rule, matches: targets(rule, groups, hostGroups, groupCaseInsensitive) });
+  });
+
+  // Per rule: denied and total checkouts by user, for the lock-out verdict
+  const tallies = impacts.map(() => ({} as Record<string, { denied: number, total: number }>));
+  const tally = (index: number, user: string, denied: boolean) => {
+    const t = tallies[index][user] || (tallies[index][user] = { denied: 0, total: 0 });
+    t.total++;
+    if (denied) t.denied++;
+  };
+  const prevented = impacts.map(() => new Set<string>());
+
+  const peaks = computeFeatureConcurrency(sessions);
+  const features = Array.from(new Set([...sessions.map(s => s.feature), ...denials.map(e => e.feature || '')])).filter(Boolean);
+
+  features.forEach(feature => {
+    const forFeature = (type: OptionsRule['type']) => compiled.filter(c => c.rule.type === type && (isAllFeaturesRule(type) || c.rule.feature === feature));
+    const excludes = [...forFeature('EXCLUDE'), ...forFeature('EXCLUDEALL')], includes = forFeature('INCLUDE'), includeAll = forFeature('INCLUDEALL');
+    const maxes = forFeature('MAX'), reserves = forFeature('RESERVE');
+    if (excludes.length + includes.length + includeAll.length + maxes.length + reserves.length === 0) return;
+    const pool = licenseSeats[feature] || peaks[feature]?.peak || 0;
+    if (!licenseSeats[feature]) reserves.forEach(c => impacts[c.index].notes.push(`No seat count for ${feature} — pool taken as the observed peak of ${pool}.`));
+
+    type Event = { t: number, kind: 'end' | 'denial' | 'start', session?: Session, denial?: LogEntry };
+    const events: Event[] = [];
+    sessions.filter(s => s.feature === feature && !isNaN(s.start.getTime())).forEach(s => {
+      events.push({ t: s.start.getTime(), kind: 'start', session: s });
+      if (s.end && !isNaN(s.end.getTime())) events.push({ t: s.end.getTime(), kind: 'end', session: s });
+    });
+    if (reserves.length > 0) {
+      denials.filter(e => e.feature === feature && e.user && denialCategoryOf(e) === 'capacity').forEach(e => {
+        const t = new Date(`${e.date} ${e.time}`).getTime();
+        if (!isNaN(t)) events.push({ t, kind: 'denial', denial: e });
+      });
+    }
+    const order = { end: 0, denial: 1, start: 2 };
+    events.sort((a, b) => a.t - b.t || order[a.kind] - order[b.kind]);
+
+    const held = new Set<Session>();
+    const heldBy = (c: Compiled) => { let n = 0; held.forEach(s => { if (c.matches(s)) n++; }); return n; };
+    const unusedReservation = (c: Compiled) => Math.max(0, c.rule.count - heldBy(c));
+    // Seats held back for others only bite when the checkout would otherwise have fitted
+    const reserveBlock = (s: Session) => {
+      if (held.size >= pool || reserves.some(c => c.matches(s) && unusedReservation(c) > 0)) return undefined;
+      const others = reserves.filter(c => !c.matches(s) && unusedReservation(c) > 0);
+      return held.size + others.reduce((sum, c) => sum + unusedReservation(c), 0) >= pool ? others[0] : undefined;
+    };
+
+    events.forEach(ev => {
+      if (ev.kind === 'end') { held.delete(ev.session!); return; }
+      if (ev.kind === 'denial') {
+        // A capacity denial for someone with an unfilled reservation would have been served from it
+        const who = { user: ev.denial!.user!, host: ev.denial!.host || '' };
+        const reservation = reserves.find(c => c.matches(who) && unusedReservation(c) > 0);
+        if (reservation) {
+          impacts[reservation.index].preventedDenials++;
+          prevented[reservation.index].add(who.user);
+        }
+        return;
+      }
+      const s = ev.session!;
+      const blockedBy =
+        excludes.find(c => c.matches(s)) ||
+        (includeAll.length > 0 && !includeAll.some(c => c.matches(s)) ? includeAll[0] : undefined) ||
+        (includes.length > 0 && !includes.some(c => c.matches(s)) ? includes[0] : undefined) ||
+        maxes.find(c => c.matches(s) && heldBy(c) >= c.rule.count) ||
+        reserveBlock(s);
+
+      [...excludes, ...includeAll, ...includes, ...maxes, ...reserves].forEach(c => tally(c.index, s.user, c === blockedBy));
+      if (blockedBy) {
+        impacts[blockedBy.index].deniedCheckouts++;
+        return;
+      }
+      held.add(s);
+    });
+  });
+
+  // Borrow rules only concern checkouts taken offline
+  const borrowRules = compiled.filter(c => c.rule.type === 'INCLUDE_BORROW' || c.rule.type === 'EXCLUDE_BORROW');
+  borrows.forEach(b => {
+    const forFeature = borrowRules.filter(c => c.rule.feature === b.feature);
+    if (forFeature.length === 0) return;
+    const includes = forFeature.filter(c => c.rule.type === 'INCLUDE_BORROW');
+    const blockedBy =
+      forFeature.find(c => c.rule.type === 'EXCLUDE_BORROW' && c.matches(b)) ||
+      (includes.length > 0 && !includes.some(c => c.matches(b)) ? includes[0] : undefined);
+    forFeature.forEach(c => tally(c.index, b.user, c === blockedBy));
+    if (blockedBy) impacts[blockedBy.index].deniedCheckouts++;
+  });
+
+  impacts.forEach((impact, i) => {
+    impact.deniedUsers = Object.entries(tallies[i]).filter(([, t]) => t.denied > 0).map(([user, t]) => ({ user, ...t })).sort((a, b) => b.denied - a.denied || a.user.localeCompare(b.user));
+    impact.lockedOutUsers = impact.deniedUsers.filter(u => u.denied === u.total).map(u => u.user);
+    impact.preventedUsers = Array.from(prevented[i]).sort();
+  });
+
+  return {
+    rules: impacts,
+    deniedCheckouts: impacts.reduce((sum, r) => sum + r.deniedCheckouts, 0),
+    preventedDenials: impacts.reduce((sum, r) => sum + r.preventedDenials, 0),
+    lockedOutUsers: Array.from(new Set(impacts.flatMap(r => r.lockedOutUsers))).sort(),
+  };
+};
@@ -0,0 +1,387 @@
+import { jsPDF } from 'jspdf';
+import type { DashboardData } from './types';
+import type { TriggeredAlert } from './alerts';
+import { healthFromAlerts, strongestAlerts } from './alerts';
+import type { Comparison, DeltaPolarity, MetricDelta } from './compare';
+import { formatDelta, SUMMARY_METRICS } from './compare';
+
+// The executive PDF, drawn with jsPDF's API so the dashboard and the CLI produce the same
+// document. jsPDF's built-in fonts only cover Latin-1, so nothing drawn here may go beyond it.
+
+export const formatDuration = (mins: number) => {
+  if (isNaN(mins) || mins === 0) return '0m';
+  if (mins < 60) return `${Math.round(mins)}m`;
+  const hrs = Math.floor(mins / 60);
+  const m = Math.round(mins % 60);
+  return `${hrs}h ${m}m`;
+};
+
+export interface ReportComparison {
+  labelA: string;
+  labelB: string;
+  result: Comparison;
+}
+
+export const executivePdfFileName = (data: DashboardData) => `SNL-Executive-Report-${data.metadata.serverName || 'Export'}.pdf`;
+
+// The report covers the data it's given — pass the filtered set to match what's on screen
+export const buildExecutivePdf = (data: DashboardData, { alerts, comparison = null }: { alerts: TriggeredAlert[], comparison?: ReportComparison | null }): jsPDF => {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const W = pdf.internal.pageSize.getWidth();
+  const H = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const cw = W - margin * 2; // content width
+  let y = 0;
+
+  const totalSessions = data.sessions.length;
+  const totalDenials = data.denials.length;
+  const denialRate = (totalSessions + totalDenials) > 0 ? ((totalDenials / (totalSessions + totalDenials)) * 100).toFixed(1) : '0';
+  const avgDuration = totalSessions > 0 ? data.sessions.reduce((a, s) => a + (s.duration || 0), 0) / totalSessions : 0;
+  const topFeatures = Object.entries(data.featureStats).sort((a, b) => b[1].checkouts - a[1].checkouts);
+  const topUsers = Object.entries(data.userStats).sort((a, b) => b[1].sessions - a[1].sessions);
+
+  const drawHeader = (title: string) => {
+    pdf.setFillColor(30, 41, 67); // brand dark
+    pdf.rect(0, 0, W, 18, 'F');
+    pdf.setTextColor(255, 255, 255);
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text('Ellison Technologies · SNL License Parser', margin, 7);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(title, W - margin, 7, { align: 'right' });
+    // blue accent line
+    pdf.setFillColor(24, 113, 189);
+    pdf.rect(0, 18, W, 1, 'F');
+    return 26;
+  };
+
+  const drawFooter = (pageNum: number, totalPages: number) => {
+    pdf.setDrawColor(200, 200, 200);
+    pdf.line(margin, H - 12, W - margin, H - 12);
+    pdf.setFontSize(7);
+    pdf.setTextColor(150, 150, 150);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`Generated ${new Date().toLocaleDateString()} · SNL License Parser · Ellison Technologies`, margin, H - 7);
+    pdf.text(`${data.metadata.serverName} · Page ${pageNum} of ${totalPages}`, W - margin, H - 7, { align: 'right' });
+  };
+
+  const drawSectionTitle = (title: string, yPos: number) => {
+    pdf.setFontSize(13);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(30, 41, 67);
+    pdf.text(title, margin, yPos);
+    pdf.setFillColor(24, 113, 189);
+    pdf.rect(margin, yPos + 1.5, 30, 0.8, 'F');
+    return yPos + 8;
+  };
+
+  const totalPages = (totalDenials > 0 ? 4 : 3) + (comparison ? 1 : 0);
+
+  // === PAGE 1: Cover + Executive Summary ===
+  y = drawHeader('Executive Summary');
+
+  // Title block
+  pdf.setFontSize(22);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(30, 41, 67);
+  pdf.text('SNL License Manager Report', W / 2, y + 8, { align: 'center' });
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(100, 116, 139);
+  pdf.text(`Server: ${data.metadata.serverName}  ·  FlexLM v${data.metadata.flexVersion}  ·  Port ${data.metadata.port}`, W / 2, y + 15, { align: 'center' });
+  pdf.text(`Report generated ${new Date().toLocaleDateString()}`, W / 2, y + 21, { align: 'center' });
+  y += 30;
+
+  // KPI boxes
+  const kpis = [
+    { label: 'Total Sessions', value: totalSessions.toLocaleString() },
+    { label: 'Unique Users', value: Object.keys(data.userStats).length.toString() },
+    { label: 'Denial Rate', value: `${denialRate}%` },
+    { label: 'Avg Duration', value: formatDuration(avgDuration) },
+  ];
+  const boxW = (cw - 9) / 4;
+  kpis.forEach((kpi, i) => {
+    const x = margin + i * (boxW + 3);
+    pdf.setFillColor(248, 250, 252);
+    pdf.setDrawColor(226, 232, 240);
+    pdf.roundedRect(x, y, boxW, 20, 2, 2, 'FD');
+    pdf.setFontSize(7);
+    pdf.setTextColor(100, 116, 139);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(kpi.label.toUpperCase(), x + boxW / 2, y + 7, { align: 'center' });
+    pdf.setFontSize(16);
+    pdf.setTextColor(30, 41, 67);
+    pdf.text(kpi.value, x + boxW / 2, y + 16, { align: 'center' });
+  });
+  y += 28;
+
+  // Summary text
+  y = drawSectionTitle('Summary', y);
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(71, 85, 105);
+  const summaryText = `Analysis of license server "${data.metadata.serverName}" identified ${totalSessions.toLocaleString()} successful checkouts across ${Object.keys(data.featureStats).length} features and ${Object.keys(data.userStats).length} users.${totalDenials > 0 ? ` There were ${totalDenials} denied requests (${denialRate}% denial rate).` : ' No license denials were recorded.'}${data.errors.length > 0 ? ` ${data.errors.length} system events require attention.` : ''}`;
+  const lines = pdf.splitTextToSize(summaryText, cw);
+  pdf.text(lines, margin, y);
+  y += lines.length * 4 + 6;
+
+  // Alert rules that fire on the reported data
+  const pdfAlerts = strongestAlerts(alerts);
+  const health = healthFromAlerts(alerts);
+  y = drawSectionTitle('Alerts', y);
+  const healthRgb = health === 'AT RISK' ? [239, 68, 68] : health === 'WARNING' ? [202, 138, 4] : [16, 185, 129];
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(healthRgb[0], healthRgb[1], healthRgb[2]);
+  pdf.text(`Health: ${health}`, margin, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(100, 116, 139);
+  pdf.text(pdfAlerts.length > 0 ? `${pdfAlerts.length} alert${pdfAlerts.length === 1 ? '' : 's'} triggered` : 'No alert rule triggered', margin + 40, y);
+  y += 6;
+  pdf.setFontSize(8);
+  pdfAlerts.slice(0, 6).forEach(a => {
+    const rgb = a.rule.severity === 'critical' ? [239, 68, 68] : a.rule.severity === 'warning' ? [202, 138, 4] : [217, 119, 6];
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(rgb[0], rgb[1], rgb[2]);
+    pdf.text(a.rule.severity.toUpperCase(), margin, y);
+    pdf.setTextColor(30, 41, 67);
+    pdf.text(`${a.rule.name}${a.subject ? ` - ${a.subject}` : ''}`, margin + 18, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(71, 85, 105);
+    const evidence = pdf.splitTextToSize(a.evidence, cw - 18).slice(0, 2);
+    pdf.text(evidence, margin + 18, y + 4);
+    y += 4 + evidence.length * 3.5 + 1.5;
+  });
+  if (pdfAlerts.length > 6) {
+    pdf.setTextColor(100, 116, 139);
+    pdf.text(`+${pdfAlerts.length - 6} more in the dashboard's Alerts tab`, margin + 18, y);
+    y += 5;
+  }
+  y += 4;
+
+  // Top 10 features mini-table
+  y = drawSectionTitle('Top Features by Usage', y);
+  pdf.setFontSize(8);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(100, 116, 139);
+  pdf.text('Feature', margin, y);
+  pdf.text('Checkouts', margin + 80, y);
+  pdf.text('Duration', margin + 105, y);
+  pdf.text('Denials', margin + 135, y);
+  y += 1;
+  pdf.setDrawColor(226, 232, 240);
+  pdf.line(margin, y, W - margin, y);
+  y += 4;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(30, 41, 67);
+  topFeatures.slice(0, 12).forEach(([name, stats]) => {
+    pdf.setTextColor(30, 41, 67);
+    pdf.text(name.length > 30 ? name.substring(0, 28) + '...' : name, margin, y);
+    pdf.text(stats.checkouts.toString(), margin + 80, y);
+    pdf.text(formatDuration(stats.totalDuration), margin + 105, y);
+    pdf.setTextColor(stats.denials > 0 ? 239 : 148, stats.denials > 0 ? 68 : 163, stats.denials > 0 ? 68 : 184);
+    pdf.text(stats.denials.toString(), margin + 135, y);
+    y += 5;
+  });
+
+  drawFooter(1, totalPages);
+
+  // === PAGE 2: Full License Inventory ===
+  pdf.addPage();
+  y = drawHeader('License Inventory');
+  y = drawSectionTitle('Feature Inventory & Health', y);
+
+  pdf.setFontSize(7);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(100, 116, 139);
+  const cols = [margin, margin + 65, margin + 90, margin + 115, margin + 140];
+  pdf.text('LICENSE NAME', cols[0], y);
+  pdf.text('CHECKOUTS', cols[1], y);
+  pdf.text('USAGE TIME', cols[2], y);
+  pdf.text('DENIALS', cols[3], y);
+  pdf.text('STATUS', cols[4], y);
+  y += 1.5;
+  pdf.setDrawColor(226, 232, 240);
+  pdf.line(margin, y, W - margin, y);
+  y += 4;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  topFeatures.forEach(([name, stats]) => {
+    if (y > H - 25) {
+      drawFooter(2, totalPages);
+      pdf.addPage();
+      y = drawHeader('License Inventory (cont.)');
+    }
+    pdf.setTextColor(30, 41, 67);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(name.length > 25 ? name.substring(0, 23) + '...' : name, cols[0], y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(stats.checkouts.toLocaleString(), cols[1], y);
+    pdf.text(formatDuration(stats.totalDuration), cols[2], y);
+    pdf.setTextColor(stats.denials > 0 ? 239 : 148, stats.denials > 0 ? 68 : 163, stats.denials > 0 ? 68 : 184);
+    pdf.text(stats.denials.toString(), cols[3], y);
+    // Status badge
+    const status = stats.denials > 5 ? 'UNDERSIZED' : stats.checkouts === 0 ? 'IDLE' : 'OK';
+    const statusColor = stats.denials > 5 ? [239, 68, 68] : stats.checkouts === 0 ? [148, 163, 184] : [16, 185, 129];
+    pdf.setTextColor(statusColor[0], statusColor[1], statusColor[2]);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(status, cols[4], y);
+    pdf.setFont('helvetica', 'normal');
+    y += 5;
+  });
+
+  drawFooter(2, totalPages);
+
+  // === PAGE 3: User Analysis ===
+  pdf.addPage();
+  y = drawHeader('User Analysis');
+  y = drawSectionTitle(`Top Users (${topUsers.length} total)`, y);
+
+  pdf.setFontSize(7);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(100, 116, 139);
+  const uCols = [margin, margin + 50, margin + 80, margin + 110, margin + 140];
+  pdf.text('USERNAME', uCols[0], y);
+  pdf.text('SESSIONS', uCols[1], y);
+  pdf.text('TOTAL DURATION', uCols[2], y);
+  pdf.text('AVG DURATION', uCols[3], y);
+  pdf.text('DENIALS', uCols[4], y);
+  y += 1.5;
+  pdf.line(margin, y, W - margin, y);
+  y += 4;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  topUsers.slice(0, 40).forEach(([name, stats]) => {
+    if (y > H - 25) {
+      drawFooter(3, totalPages);
+      pdf.addPage();
+      y = drawHeader('User Analysis (cont.)');
+    }
+    pdf.setTextColor(30, 41, 67);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(name.length > 20 ? name.substring(0, 18) + '...' : name, uCols[0], y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(stats.sessions.toString(), uCols[1], y);
+    pdf.text(formatDuration(stats.totalDuration), uCols[2], y);
+    pdf.text(formatDuration(stats.totalDuration / (stats.sessions || 1)), uCols[3], y);
+    pdf.setTextColor(stats.denials > 0 ? 239 : 148, stats.denials > 0 ? 68 : 163, stats.denials > 0 ? 68 : 184);
+    pdf.text(stats.denials.toString(), uCols[4], y);
+    y += 5;
+  });
+
+  drawFooter(3, totalPages);
+
+  // === PAGE 4: Denial Log (conditional) ===
+  if (totalDenials > 0) {
+    pdf.addPage();
+    y = drawHeader('Denial Log');
+    y = drawSectionTitle(`Denial Events (${totalDenials} total)`, y);
+
+    pdf.setFontSize(7);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(100, 116, 139);
+    const dCols = [margin, margin + 22, margin + 52, margin + 82, margin + 115];
+    pdf.text('TIME', dCols[0], y);
+    pdf.text('USER', dCols[1], y);
+    pdf.text('HOST', dCols[2], y);
+    pdf.text('FEATURE', dCols[3], y);
+    pdf.text('REASON', dCols[4], y);
+    y += 1.5;
+    pdf.line(margin, y, W - margin, y);
+    y += 4;
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(6.5);
+    data.denials.slice(0, 60).forEach((d) => {
+      if (y > H - 25) {
+        drawFooter(4, totalPages);
+        pdf.addPage();
+        y = drawHeader('Denial Log (cont.)');
+      }
+      pdf.setTextColor(148, 163, 184);
+      pdf.text(d.time || '', dCols[0], y);
+      pdf.setTextColor(30, 41, 67);
+      pdf.setFont('helvetica', 'bold');
+      pdf.text((d.user || '').substring(0, 12), dCols[1], y);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text((d.host || '').substring(0, 12), dCols[2], y);
+      pdf.setTextColor(24, 113, 189);
+      pdf.text((d.feature || '').substring(0, 14), dCols[3], y);
+      pdf.setTextColor(239, 68, 68);
+      pdf.text((d.reason || '').substring(0, 25), dCols[4], y);
+      y += 4.5;
+    });
+
+    drawFooter(4, totalPages);
+  }
+
+  // === Period comparison (when compare mode is set up) ===
+  if (comparison) {
+    pdf.addPage();
+    y = drawHeader('Period Comparison');
+    y = drawSectionTitle('Period-over-Period', y);
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(100, 116, 139);
+    pdf.text(`A (baseline): ${comparison.labelA}`, margin, y);
+    pdf.text(`B: ${comparison.labelB}`, margin, y + 4.5);
+    y += 12;
+
+    const pdfDelta = (delta: MetricDelta, polarity: DeltaPolarity, digits = 0) => {
+      const better = polarity === 'neutral' || delta.delta === 0 ? null : (delta.delta < 0) === (polarity === 'lower-better');
+      const color = better === null ? [24, 113, 189] : better ? [16, 185, 129] : [239, 68, 68];
+      pdf.setTextColor(color[0], color[1], color[2]);
+      return formatDelta(delta, digits);
+    };
+
+    const cCols = [margin, margin + 55, margin + 90, margin + 125];
+    pdf.setFontSize(7);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(100, 116, 139);
+    ['METRIC', 'A', 'B', 'CHANGE'].forEach((h, i) => pdf.text(h, cCols[i], y));
+    y += 1.5;
+    pdf.setDrawColor(226, 232, 240);
+    pdf.line(margin, y, W - margin, y);
+    y += 4;
+    pdf.setFont('helvetica', 'normal');
+    SUMMARY_METRICS.forEach(m => {
+      const delta = comparison.result.summary[m.key];
+      const fmt = (v: number) => m.unit === '%' ? `${v.toFixed(1)}%` : m.unit === 'min' ? formatDuration(v) : m.unit === 'h' ? `${v.toFixed(1)}h` : Math.round(v).toLocaleString();
+      pdf.setTextColor(30, 41, 67);
+      pdf.text(m.label, cCols[0], y);
+      pdf.text(fmt(delta.a), cCols[1], y);
+      pdf.text(fmt(delta.b), cCols[2], y);
+      pdf.text(pdfDelta(delta, m.polarity, m.unit === '%' || m.unit === 'h' ? 1 : 0), cCols[3], y);
+      y += 5;
+    });
+    y += 6;
+
+    y = drawSectionTitle('By Feature', y);
+    const fCols = [margin, margin + 55, margin + 90, margin + 125, margin + 155];
+    pdf.setFontSize(7);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(100, 116, 139);
+    ['FEATURE', 'CHECKOUTS', 'DENIALS', 'DENIAL RATE', 'PEAK'].forEach((h, i) => pdf.text(h, fCols[i], y));
+    y += 1.5;
+    pdf.line(margin, y, W - margin, y);
+    y += 4;
+    pdf.setFont('helvetica', 'normal');
+    comparison.result.features.forEach(f => {
+      if (y > H - 25) return;
+      pdf.setTextColor(30, 41, 67);
+      pdf.text(f.feature.length > 30 ? f.feature.substring(0, 28) + '...' : f.feature, fCols[0], y);
+      pdf.text(`${f.checkouts.a} -> ${f.checkouts.b}`, fCols[1], y);
+      pdf.text(`${f.denials.a} -> ${f.denials.b}`, fCols[2], y);
+      pdf.text(pdfDelta(f.denialRate, 'lower-better', 1), fCols[3], y);
+      pdf.setTextColor(30, 41, 67);
+      pdf.text(`${f.peak.a} -> ${f.peak.b}`, fCols[4], y);
+      y += 5;
+    });
+
+    drawFooter(totalPages, totalPages);
+  }
+
+  return pdf;
+};
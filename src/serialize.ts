@@ -0,0 +1,16 @@
+import type { DashboardData } from './types';
+
+// hostStats keeps its users in a Set; ship plain arrays across worker/storage boundaries
+export type TransferableDashboardData = Omit<DashboardData, 'hostStats'> & {
+  hostStats: Record<string, { sessions: number, totalDuration: number, users: string[] }>;
+};
+
+export const toTransferable = (data: DashboardData): TransferableDashboardData => ({
+  ...data,
+  hostStats: Object.fromEntries(Object.entries(data.hostStats).map(([host, s]) => [host, { ...s, users: Array.from(s.users) }])),
+});
+
+export const fromTransferable = (data: TransferableDashboardData): DashboardData => ({
+  ...data,
+  hostStats: Object.fromEntries(Object.entries(data.hostStats).map(([host, s]) => [host, { ...s, users: new Set(s.users) }])),
+});
@@ -0,0 +1,195 @@
+import type { LogEntry, Session } from './types';
+import { computeFeatureConcurrency } from './analytics';
+import { denialCategoryOf } from './flexErrors';
+
+// What-if replay of TIMEOUTALL / TIMEOUT. The log has no keyboard activity, so idleness is a proxy:
+// a user counts as active at each of their own checkouts and check-ins (any feature) and during
+// working hours; outside both, the idle clock runs. Reclaimed sessions re-check out at the user's
+// next sign of activity if the original session was still open then.
+
+export interface TimeoutPolicy {
+  timeoutAll: number | null; // seconds; null when TIMEOUTALL is not set
+  featureTimeouts: { feature: string, seconds: number }[];
+}
+
+export interface IdleAssumptions {
+  workdayFrom: number; // hour of day, inclusive
+  workdayTo: number;   // hour of day, exclusive
+  weekendsIdle: boolean;
+}
+
+export const DEFAULT_IDLE_ASSUMPTIONS: IdleAssumptions = { workdayFrom: 7, workdayTo: 19, weekendsIdle: true };
+
+export interface FeatureSimulation {
+  feature: string;
+  timeoutSeconds: number | null;
+  peakBefore: number;
+  peakAfter: number;
+  p90Before: number;
+  p90After: number;
+  reclaimedSessions: number;
+  reclaimedHours: number;
+  capacityDenials: number;
+  denialsAvoided: number;
+}
+
+export interface TimeoutSimulation {
+  features: FeatureSimulation[];
+  reclaimedSessions: number;
+  reclaimedHours: number;
+  capacityDenials: number;
+  denialsAvoided: number;
+}
+
+const MINUTE_MS = 60000;
+
+const isWorking = (t: number, a: IdleAssumptions) => {
+  const d = new Date(t);
+  if (a.weekendsIdle && (d.getDay() === 0 || d.getDay() === 6)) return false;
+  const hour = d.getHours() + d.getMinutes() / 60;
+  return hour >= a.workdayFrom && hour < a.workdayTo;
+};
+
+// When the idle clock starts after activity at `from`, or null if the user is active until `until`
+const idleStart = (from: number, until: number, a: IdleAssumptions) => {
+  if (!isWorking(from, a)) return from;
+  const endOfDay = new Date(from);
+  endOfDay.setHours(a.workdayTo, 0, 0, 0);
+  return endOfDay.getTime() < until ? endOfDay.getTime() : null;
+};
+
+// Timestamps at which each user demonstrably did something, ascending
+const activityByUser = (sessions: Session[]) => {
+  const byUser: Record<string, number[]> = {};
+  sessions.forEach(s => {
+    const list = byUser[s.user] || (byUser[s.user] = []);
+    list.push(s.start.getTime());
+    if (s.end) list.push(s.end.getTime());
+  });
+  Object.values(byUser).forEach(list => list.sort((a, b) => a - b));
+  return byUser;
+};
+
+// Activity strictly between `from` and `to`, by binary search on the sorted list
+const activityBetween = (activity: number[], from: number, to: number) => {
+  let lo = 0, hi = activity.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (activity[mid] <= from) lo = mid + 1; else hi = mid;
+  }
+  const found: number[] = [];
+  for (let i = lo; i < activity.length && activity[i] < to; i++) found.push(activity[i]);
+  return found;
+};
+
+const timeoutFor = (feature: string, policy: TimeoutPolicy) =>
+  policy.featureTimeouts.find(t => t.feature === feature)?.seconds ?? policy.timeoutAll;
+
+// Split one session into what would have been held under the timeout
+const replaySession = (s: Session, timeoutMs: number, activity: number[], a: IdleAssumptions): Session[] => {
+  const start = s.start.getTime();
+  const end = s.end!.getTime();
+  const signals = [...activityBetween(activity, start, end), end];
+  const segments: Session[] = [];
+  let segmentStart: number | null = start;
+  let lastActive = start;
+  signals.forEach(next => {
+    const idle = segmentStart === null ? null : idleStart(lastActive, next, a);
+    if (idle !== null && idle + timeoutMs < next) {
+      segments.push({ ...s, start: new Date(segmentStart!), end: new Date(idle + timeoutMs), duration: (idle + timeoutMs - segmentStart!) / MINUTE_MS });
+      segmentStart = null;
+    }
+    // Back at the keyboard while the original session was still open: check out again
+    if (segmentStart === null && next < end) segmentStart = next;
+    lastActive = next;
+  });
+  if (segmentStart !== null) segments.push({ ...s, start: new Date(segmentStart), end: s.end, duration: (end - segmentStart) / MINUTE_MS });
+  return segments;
+};
+
+const countAt = (series: { t: number, count: number }[], t: number) => {
+  let lo = 0, hi = series.length - 1, count = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].t <= t) { count = series[mid].count; lo = mid + 1; } else hi = mid - 1;
+  }
+  return count;
+};
+
+export const simulateTimeouts = (
+  sessions: Session[],
+  denials: LogEntry[],
+  policy: TimeoutPolicy,
+  licenseSeats: Record<string, number> = {},
+  assumptions: IdleAssumptions = DEFAULT_IDLE_ASSUMPTIONS,
+): TimeoutSimulation => {
+  const activity = activityByUser(sessions);
+  const simulated: Session[] = [];
+  const reclaimed: Record<string, { sessions: number, minutes: number }> = {};
+
+  sessions.forEach(s => {
+    const timeout = timeoutFor(s.feature, policy);
+    // Sessions still open at log end were closed there by the parser, so they're cut like any other
+    if (!timeout || !s.end || isNaN(s.start.getTime()) || isNaN(s.end.getTime())) { simulated.push(s); return; }
+    const segments = replaySession(s, timeout * 1000, activity[s.user] || [], assumptions);
+    const heldMinutes = segments.reduce((sum, seg) => sum + (seg.duration || 0), 0);
+    const savedMinutes = (s.duration || 0) - heldMinutes;
+    if (savedMinutes > 0) {
+      const r = reclaimed[s.feature] || (reclaimed[s.feature] = { sessions: 0, minutes: 0 });
+      r.sessions++;
+      r.minutes += savedMinutes;
+    }
+    simulated.push(...segments);
+  });
+
+  const before = computeFeatureConcurrency(sessions);
+  const after = computeFeatureConcurrency(simulated);
+
+  // A capacity denial is avoided if the simulated pool had a free seat at that minute.
+  // Without a seat count, the pool size is taken to be what was in use when the denial happened.
+  const avoided: Record<string, number> = {};
+  const capacityDenials: Record<string, number> = {};
+  const perMinute: Record<string, number> = {};
+  denials.forEach(e => {
+    if (!e.feature || denialCategoryOf(e) !== 'capacity') return;
+    const t = new Date(`${e.date} ${e.time}`).getTime();
+    if (isNaN(t)) return;
+    capacityDenials[e.feature] = (capacityDenials[e.feature] || 0) + 1;
+    const inUseBefore = countAt(before[e.feature]?.series || [], t);
+    const inUseAfter = countAt(after[e.feature]?.series || [], t);
+    const seats = licenseSeats[e.feature] || inUseBefore;
+    // Only seats the timeout actually freed count, and each absorbs one request per minute
+    const freed = Math.min(seats - inUseAfter, inUseBefore - inUseAfter);
+    const key = `${e.feature}:${Math.floor(t / MINUTE_MS)}`;
+    if ((perMinute[key] || 0) < freed) {
+      perMinute[key] = (perMinute[key] || 0) + 1;
+      avoided[e.feature] = (avoided[e.feature] || 0) + 1;
+    }
+  });
+
+  const featureNames = Array.from(new Set([...Object.keys(before), ...Object.keys(capacityDenials)])).sort();
+  const features = featureNames.map(feature => ({
+    feature,
+    timeoutSeconds: timeoutFor(feature, policy),
+    peakBefore: before[feature]?.peak || 0,
+    peakAfter: after[feature]?.peak || 0,
+    p90Before: before[feature]?.p90 || 0,
+    p90After: after[feature]?.p90 || 0,
+    reclaimedSessions: reclaimed[feature]?.sessions || 0,
+    reclaimedHours: (reclaimed[feature]?.minutes || 0) / 60,
+    capacityDenials: capacityDenials[feature] || 0,
+    denialsAvoided: avoided[feature] || 0,
+  }));
+
+  return {
+    features,
+    reclaimedSessions: features.reduce((sum, f) => sum + f.reclaimedSessions, 0),
+    reclaimedHours: features.reduce((sum, f) => sum + f.reclaimedHours, 0),
+    capacityDenials: features.reduce((sum, f) => sum + f.capacityDenials, 0),
+    denialsAvoided: features.reduce((sum, f) => sum + f.denialsAvoided, 0),
+  };
+};
+
+// Policy as the options builder currently describes it
+export const policyFromOptions = (enabled: boolean, timeoutAll: number, featureTimeouts: { feature: string, seconds: number }[]): TimeoutPolicy =>
+  ({ timeoutAll: enabled ? timeoutAll : null, featureTimeouts });
@@ -0,0 +1,241 @@
+export interface LogEntry {
+  time: string;
+  date?: string;
+  daemon: string;
+  type: 'OUT' | 'IN' | 'DENIED' | 'UNSUPPORTED' | 'TIMESTAMP' | 'SLOG' | 'ERROR' | 'INFO' | 'RESERVING' | 'REMOVING' | 'REREAD' | 'VERSION';
+  user?: string;
+  host?: string;
+  feature?: string;
+  reason?: string;
+  flexError?: FlexError;           // DENIED only
+  denialCategory?: DenialCategory; // DENIED only
+  server?: string; // set when several servers' logs share a workspace
+  raw: string;
+}
+
+// FlexNet error code from a DENIED reason, e.g. (-4,342)
+export interface FlexError {
+  major: number;
+  minor: number;
+}
+
+export type DenialCategory = 'capacity' | 'access' | 'missing' | 'version' | 'expired' | 'connectivity' | 'license-file' | 'other';
+
+export interface Session {
+  user: string;
+  host: string;
+  feature: string;
+  start: Date;
+  end?: Date;
+  duration?: number; // in minutes
+  // How the session ended; restart/log-end sessions are closed at that point so totals still count them
+  endReason?: 'checkin' | 'server-restart' | 'active-at-log-end';
+  server?: string;
+}
+
+// A license borrowed for offline use — held outside the pool until returned or expired
+export interface BorrowRecord {
+  user: string;
+  host: string;
+  feature: string;
+  start: Date;
+  expectedReturn?: Date;
+  end?: Date;        // actual return, or expectedReturn once lapsed
+  duration?: number; // minutes offline (up to log end while still out)
+  status: 'out' | 'returned' | 'early-return' | 'expired';
+  server?: string;
+  raw: string;
+}
+
+// Where a log being tailed stands right now: who holds what, and what was just turned away
+export interface LiveState {
+  serverName: string;
+  held: Session[];          // checked out and not yet back in
+  features: string[];       // every feature checked out so far, held or not
+  borrows: BorrowRecord[];  // still offline
+  recentDenials: LogEntry[]; // newest first
+  denialCounts: { feature: string, category: DenialCategory, count: number }[]; // every denial so far
+  lastEvent: Date | null;
+  lines: number;
+  flexVersion: string;
+  serverUp: boolean | null;  // null until a start or shutdown line has been seen
+  lastStart: Date | null;
+  restarts: number;
+}
+
+// One license server's slice of a multi-server workspace
+export interface ServerInfo {
+  name: string;
+  flexVersion: string;
+  port: string;
+  startDate?: string;
+  endDate?: string;
+  sources: string[];
+}
+
+export interface LogSource {
+  name: string;
+  content: string;
+}
+
+export interface LogSourceInfo {
+  name: string;
+  startDate?: string;
+  endDate?: string;
+  lines: number;
+  duplicateLines: number;
+}
+
+// Date-repair counters surfaced in the Log Health Check
+export interface ParseHealth {
+  inferredRollovers: number;
+  repairedSessions: number;  // re-dated by rollover inference or a later anchor
+  discardedSessions: number; // still ended before they started
+  undatedLines: number;      // no anchor anywhere — stamped 1/1/<current year>
+  serverRestarts: number;
+  restartClosedSessions: number;
+}
+
+// Concurrent seats for one feature
+export interface FeatureConcurrency {
+  // Minute-resolution step series, a point wherever the count changes. A minute holding
+  // a short spike gets its max, followed by the settled count a minute later.
+  series: { t: number, count: number }[];
+  peak: number;
+  // Time-weighted over the feature's active span (first checkout to last check-in)
+  p50: number;
+  p90: number;
+  p95: number;
+}
+
+export interface DashboardData {
+  metadata: {
+    serverName: string;
+    flexVersion: string;
+    port: string;
+    vendorPort: string;
+    pid: string;
+    logPath: string;
+    startDate?: string;
+    endDate?: string;
+    sources?: LogSourceInfo[];
+    servers?: ServerInfo[]; // only when logs from more than one server were loaded
+  };
+  entries: LogEntry[];
+  sessions: Session[];
+  borrows: BorrowRecord[];
+  denials: LogEntry[];
+  usageByFeature: Record<string, { checkouts: number, denials: number, totalDuration: number }>;
+  userStats: Record<string, { sessions: number, totalDuration: number, denials: number }>;
+  featureStats: Record<string, { checkouts: number, denials: number, totalDuration: number }>;
+  timeSeriesUsage: { time: string, count: number }[];
+  denialsByDay: { time: string, count: number }[];
+  errors: LogEntry[];
+  parseHealth: ParseHealth;
+  // New analytics
+  peakHours: { hour: number, count: number }[];
+  concurrentUsage: { time: string, concurrent: number }[];
+  durationDistribution: { bucket: string, count: number }[];
+  hostStats: Record<string, { sessions: number, totalDuration: number, users: Set<string> }>;
+  featureCoUsage: { pair: string, count: number }[];
+  denialRatioByFeature: { name: string, checkouts: number, denials: number, ratio: number }[];
+  featureConcurrency: Record<string, FeatureConcurrency>;
+}
+
+// Consecutive denials of one feature to one user, collapsed into a single blocked request
+export interface DenialEpisode {
+  user: string;
+  feature: string;
+  host?: string;
+  server?: string;
+  start: Date;        // first denial
+  lastDenial: Date;
+  attempts: number;   // denials in the episode, retries included
+  outcome: 'granted' | 'abandoned';
+  grantedAt?: Date;   // start of the checkout that ended it
+  waitMinutes: number; // first denial to grant; to the last retry when abandoned
+}
+
+// Options file builder. `comment` holds the # lines directly above a statement in an imported
+// file, without the leading "#", so they survive being generated again.
+export interface OptionsGroup {
+  name: string;
+  users: string[];
+  comment?: string;
+}
+
+export interface OptionsHostGroup {
+  name: string;
+  hosts: string[];
+  comment?: string;
+}
+
+export interface OptionsRule {
+  type: 'MAX' | 'RESERVE' | 'INCLUDE' | 'EXCLUDE' | 'INCLUDE_BORROW' | 'EXCLUDE_BORROW' | 'INCLUDEALL' | 'EXCLUDEALL';
+  count: number;
+  feature: string; // ignored by INCLUDEALL/EXCLUDEALL, which cover every feature
+  groupOrUser: string;
+  targetType: 'GROUP' | 'USER' | 'HOST' | 'HOST_GROUP' | 'INTERNET' | 'PROJECT';
+  versionFilter: string;
+  comment?: string;
+}
+
+export interface OptionsFeatureTimeout {
+  feature: string;
+  seconds: number;
+  comment?: string;
+}
+
+export type NoLogEvent = 'IN' | 'OUT' | 'DENIED' | 'QUEUED';
+
+// Keywords beyond timeouts, groups and rules
+export interface OptionsExtras {
+  hostGroups: OptionsHostGroup[];
+  borrowHours: { feature: string, hours: number, comment?: string }[];    // MAX_BORROW_HOURS
+  borrowLowWater: { feature: string, count: number, comment?: string }[]; // BORROW_LOWWATER
+  reportLog: string; // '' when unset; a leading "+" appends rather than overwrites
+  debugLog: string;
+  noLog: NoLogEvent[];
+  groupCaseInsensitive: boolean;
+  other: { text: string, comment?: string }[]; // statements the builder can't model, kept verbatim
+  comments: Partial<Record<'header' | 'timeoutAll' | 'reportLog' | 'debugLog' | 'noLog' | 'groupCaseInsensitive' | 'footer', string>>;
+}
+
+// Alert rules: a condition on one metric, for the whole log or per feature/user/host
+export type AlertMetric = 'denialRate' | 'denials' | 'errors' | 'systemEvents' | 'longSessionPct' | 'peakUtilization' | 'seatHours' | 'expiredBorrows';
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  scope: 'all' | 'feature' | 'user' | 'host';
+  target: string;            // one feature/user/host; '' checks each of them separately
+  comparator: '>' | '>=' | '<' | '<=';
+  threshold: number;
+  windowDays: number | null; // last N days of the log; null for the whole log
+  severity: AlertSeverity;
+  recommendation?: string;   // Exports tab advice; {value} is replaced with the measured value
+}
+
+// Everything the user types in that isn't derived from the log
+export interface WorkspaceConfig {
+  licenseSeats: Record<string, number>;
+  serverSeats?: Record<string, Record<string, number>>; // server → feature → seats it serves, for multi-server workspaces
+  licenseCosts: Record<string, number>;
+  fiscalStartMonth: number;
+  optTimeoutEnabled: boolean;
+  optTimeout: number;
+  optFeatureTimeouts: OptionsFeatureTimeout[];
+  optGroups: OptionsGroup[];
+  optRules: OptionsRule[];
+  optExtras?: OptionsExtras; // absent in workspaces saved before the extra keywords were modeled
+  optBaseline?: { fileName: string, text: string, importedAt: string }; // last imported sw_d.opt, to diff edits against
+  lmstat?: { fileName: string, text: string, importedAt: string }; // last imported `lmstat -a` output
+  licenseFile?: { fileName: string, text: string, importedAt: string }; // last imported sw_d.lic
+  expiryWarningDays?: number; // warn about seats in use that lapse within this many days
+  customUsers: string[];
+  alertRules?: AlertRule[]; // absent in workspaces saved before alerts existed
+  denialEpisodeGap?: number; // minutes between retries that still count as one request
+}
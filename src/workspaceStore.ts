@@ -0,0 +1,94 @@
+import type { DashboardData, WorkspaceConfig } from './types';
+
+// Saved analyses live in the browser's IndexedDB — nothing leaves the machine.
+// Summaries and datasets are separate stores so listing recents never loads a whole log.
+const DB_NAME = 'snl-dashboard';
+const DB_VERSION = 1;
+const SUMMARIES = 'workspaces';
+const DATASETS = 'datasets';
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  serverName: string;
+  startDate?: string;
+  endDate?: string;
+  sessions: number;
+  sources: string[];
+  config: WorkspaceConfig;
+}
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run one transaction; resolves with the last request's result once it commits
+const run = async <T>(mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest | void): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction([SUMMARIES, DATASETS], mode);
+      const request = work(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const all = await run<WorkspaceSummary[]>('readonly', tx => tx.objectStore(SUMMARIES).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// DashboardData goes in as-is: structured clone keeps Dates and the hostStats Sets
+export const createWorkspace = async (name: string, data: DashboardData, config: WorkspaceConfig): Promise<WorkspaceSummary> => {
+  const now = Date.now();
+  const summary: WorkspaceSummary = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    serverName: data.metadata.serverName,
+    startDate: data.metadata.startDate,
+    endDate: data.metadata.endDate,
+    sessions: data.sessions.length,
+    sources: (data.metadata.sources || []).map(s => s.name),
+    config,
+  };
+  await run('readwrite', tx => {
+    tx.objectStore(SUMMARIES).put(summary);
+    tx.objectStore(DATASETS).put(data, summary.id);
+  });
+  return summary;
+};
+
+export const loadWorkspaceData = (id: string) => run<DashboardData | undefined>('readonly', tx => tx.objectStore(DATASETS).get(id));
+
+const updateSummary = (id: string, patch: Partial<WorkspaceSummary>) => run('readwrite', tx => {
+  const store = tx.objectStore(SUMMARIES);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, ...patch, updatedAt: Date.now() });
+  };
+});
+
+export const renameWorkspace = (id: string, name: string) => updateSummary(id, { name });
+
+export const saveWorkspaceConfig = (id: string, config: WorkspaceConfig) => updateSummary(id, { config });
+
+export const deleteWorkspace = (id: string) => run('readwrite', tx => {
+  tx.objectStore(SUMMARIES).delete(id);
+  tx.objectStore(DATASETS).delete(id);
+});